@@ -1,7 +1,7 @@
 /**
  * Audio Synthesizer
  *
- * ElevenLabs TTS integration for Elliot Skyfall voice synthesis.
+ * ElevenLabs TTS integration, voiced as the broadcast persona.
  */
 
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
@@ -10,6 +10,7 @@ import { join, dirname } from 'node:path';
 import { getConfig } from '../utils/config';
 import { getAudioDuration } from '../utils/ffprobe';
 import { extractAudioScript } from '../script/graphic-cue-parser';
+import { getPersona, getPersonaVoiceId, type PersonaConfig } from '../script/personas';
 
 export interface CharacterAlignment {
   characters: string[];
@@ -51,15 +52,15 @@ function getClient(): ElevenLabsClient {
  */
 export async function synthesizeAudio(
   script: string,
-  outputPath: string
+  outputPath: string,
+  persona: PersonaConfig = getPersona(getConfig().defaultPersona)
 ): Promise<AudioSynthesisResult> {
-  const config = getConfig();
   const client = getClient();
 
   // Get voice ID
-  const voiceId = config.elliotVoiceId;
+  const voiceId = getPersonaVoiceId(persona);
   if (!voiceId) {
-    throw new Error('ELLIOT_VOICE_ID is required for audio synthesis');
+    throw new Error(`${persona.voiceIdEnv} is required for audio synthesis (${persona.name})`);
   }
 
   // Extract clean audio script (remove graphic cues, convert pauses)
@@ -78,12 +79,7 @@ export async function synthesizeAudio(
     const response = await client.textToSpeech.convertWithTimestamps(voiceId, {
       text: audioScript,
       modelId: 'eleven_v3',
-      voiceSettings: {
-        stability: 0.5, // Natural (valid values: 0.0=Creative, 0.5=Natural, 1.0=Robust)
-        similarityBoost: 0.75,
-        style: 0.0, // v3 works best with style at 0
-        useSpeakerBoost: true,
-      },
+      voiceSettings: persona.voiceSettings,
     });
 
     // Save audio file
@@ -117,11 +113,11 @@ export async function synthesizeAudio(
 }
 
 /**
- * Check if ElevenLabs is available
+ * Check if ElevenLabs is available (API key plus a voice for the persona)
  */
-export function isElevenLabsAvailable(): boolean {
+export function isElevenLabsAvailable(persona: PersonaConfig = getPersona(getConfig().defaultPersona)): boolean {
   const config = getConfig();
-  return !!(config.elevenlabsApiKey && config.elliotVoiceId);
+  return !!(config.elevenlabsApiKey && getPersonaVoiceId(persona));
 }
 
 /**
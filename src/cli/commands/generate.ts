@@ -12,16 +12,34 @@ import { mkdirSync, existsSync } from 'node:fs';
 import { getConfig, getBroadcastDate, getBroadcastTime, validateApiKeys } from '../../utils/config';
 import { buildTimeContext, buildCurrentTimeContext, type BroadcastTimeContext } from '../../utils/time-context';
 import { getDb, initializeDb, schema } from '../../storage/db';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq } from 'drizzle-orm';
 import { synthesizeAudio, isElevenLabsAvailable } from '../../audio/synthesizer';
 import { generateImagesForCues, isGeminiAvailable } from '../../images/generator';
 import { parseGraphicCues } from '../../script/graphic-cue-parser';
+import { getPersona, type PersonaConfig } from '../../script/personas';
 import { buildTimeline, renderVideo, isRemotionAvailable } from '../../video';
+import { getActiveHazards } from '../../weather/alerts';
+import { getAqiCategoryInfo } from '../../weather/air-quality';
+import { getLocation, type LocationConfig } from '../../weather/locations';
+import { loadReplayWeather, type ReplayResult, type ReplaySource } from '../../weather/replay';
+import type { WeatherSource } from '../../weather/types';
+import type { ClimateComparison } from '../../weather/climatology';
+import type { RegionalWeather } from '../../weather/regional';
+
+const WEATHER_SOURCES: WeatherSource[] = ['api', 'html'];
 
 export interface GenerateOptions {
   for?: string;
   date?: string;
   location?: string;
+  persona?: string;
+  source?: string;
+  replay?: string;
+  replayAfd?: string;
+  replayForecast?: string;
+  replayTime?: string;
+  forceWeather?: boolean;
+  region?: string | boolean; // true = the location's configured region
   preview?: boolean;
   images?: boolean;
   video?: boolean;
@@ -31,12 +49,69 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
   const spinner = ora();
 
   try {
-    // Build time context from --for option or use current time
+    // Resolve location from the registry
+    let location: LocationConfig;
+
+    try {
+      location = getLocation(options.location || getConfig().defaultLocation);
+      if (options.location) {
+        console.log(chalk.bold(`Location: ${chalk.cyan(location.name)}`));
+      }
+    } catch (e) {
+      console.error(chalk.red(`${e instanceof Error ? e.message : e}`));
+      console.log(chalk.dim('  Manage locations with `esw locations list|add|remove`'));
+      process.exit(1);
+    }
+
+    // Resolve the host from the persona registry
+    let persona: PersonaConfig;
+
+    try {
+      persona = getPersona(options.persona || getConfig().defaultPersona);
+      if (options.persona) {
+        console.log(chalk.bold(`Host: ${chalk.cyan(persona.name)}`));
+      }
+    } catch (e) {
+      console.error(chalk.red(`${e instanceof Error ? e.message : e}`));
+      console.log(chalk.dim('  List personas with `esw personas`'));
+      process.exit(1);
+    }
+
+    // Offline replay: rebuild the weather from stored raw text instead of fetching
+    const replaySource = getReplaySource(
+      options,
+      options.location ? location.key : undefined,
+      options.persona ? persona.key : undefined
+    );
+    let replay: ReplayResult | undefined;
+
+    if (replaySource) {
+      initializeDb();
+      replay = await loadReplayWeather(replaySource);
+      console.log(chalk.bold(`Replaying ${chalk.cyan(replay.label)} (fetched ${replay.fetchedAt.toISOString()})`));
+
+      // Replay the location the snapshot was taken for unless one was given
+      if (!options.location && replay.data.location && replay.data.location !== location.key) {
+        location = getLocation(replay.data.location);
+        console.log(chalk.bold(`Location: ${chalk.cyan(location.name)}`));
+      }
+
+      // Likewise the episode's host
+      if (!options.persona && replay.persona && replay.persona !== persona.key) {
+        persona = getPersona(replay.persona);
+        console.log(chalk.bold(`Host: ${chalk.cyan(persona.name)}`));
+      }
+    }
+
+    // Time is resolved relative to the replayed fetch, so "now" is the original broadcast moment
+    const referenceDate = replay?.fetchedAt ?? new Date();
+
+    // Build time context (in the location's timezone) from --for option or use current time
     let timeContext: BroadcastTimeContext;
 
     if (options.for) {
       try {
-        timeContext = buildTimeContext(options.for);
+        timeContext = buildTimeContext(options.for, location, referenceDate, persona);
         console.log(chalk.bold(`\nTarget: ${chalk.cyan(timeContext.description)}`));
         console.log(chalk.dim(`  Time of day: ${timeContext.timeOfDay} (${timeContext.isLateNight ? 'Art Bell mode' : 'standard'})`));
         console.log(chalk.dim(`  Atmosphere: ${timeContext.atmosphericTone}`));
@@ -48,32 +123,26 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
       }
     } else if (options.date) {
       // Legacy --date support
-      timeContext = buildTimeContext(`${options.date} at ${getBroadcastTime()}`);
+      timeContext = buildTimeContext(`${options.date} at ${getBroadcastTime()}`, location, new Date(), persona);
+    } else if (replay) {
+      timeContext = buildTimeContext('now', location, referenceDate, persona);
     } else {
       // Default to now
-      timeContext = buildCurrentTimeContext();
+      timeContext = buildCurrentTimeContext(location, persona);
     }
 
     const broadcastDate = timeContext.date;
     const broadcastTime = timeContext.time;
 
-    // Set location if specified
-    const { setLocation, getCurrentLocation, LOCATIONS } = await import('../../weather/fetcher');
-
-    if (options.location) {
-      try {
-        setLocation(options.location);
-        console.log(chalk.bold(`Location: ${chalk.cyan(getCurrentLocation().name)}`));
-      } catch (e) {
-        console.error(chalk.red(`Invalid location: "${options.location}"`));
-        console.log(chalk.dim(`  Available: ${Object.keys(LOCATIONS).join(', ')}`));
-        process.exit(1);
-      }
+    if (options.source && !WEATHER_SOURCES.includes(options.source as WeatherSource)) {
+      console.error(chalk.red(`Invalid weather source: "${options.source}"`));
+      console.log(chalk.dim(`  Available: ${WEATHER_SOURCES.join(', ')}`));
+      process.exit(1);
     }
 
-    const locationName = getCurrentLocation().name;
+    const locationName = location.name;
 
-    console.log(chalk.bold(`Generating episode for ${chalk.cyan(locationName)} on ${chalk.cyan(broadcastDate)} at ${chalk.cyan(broadcastTime)}\n`));
+    console.log(chalk.bold(`Generating episode for ${chalk.cyan(locationName)} on ${chalk.cyan(broadcastDate)} at ${chalk.cyan(`${broadcastTime} ${timeContext.timezoneAbbreviation}`)}\n`));
 
     // Initialize database
     spinner.start('Initializing database...');
@@ -83,16 +152,25 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
 
     // Check for existing episode
     spinner.start('Checking for existing episode...');
-    const existing = await db
+    const existing = replay ? [] : await db
       .select()
       .from(schema.episodes)
-      .where(eq(schema.episodes.broadcastDate, broadcastDate))
+      .where(and(
+        eq(schema.episodes.broadcastDate, broadcastDate),
+        eq(schema.episodes.location, location.key),
+        eq(schema.episodes.persona, persona.key)
+      ))
       .limit(1);
 
     let episode;
     let episodeNumber: number;
 
-    if (existing.length > 0) {
+    if (replay) {
+      // Replays never touch episode records - status updates below match no row
+      episodeNumber = replay.episodeNumber ?? 0;
+      episode = { id: `replay-${nanoid()}`, episodeNumber };
+      spinner.info('Replay mode - episode records will not be modified');
+    } else if (existing.length > 0) {
       episode = existing[0];
       episodeNumber = episode.episodeNumber;
 
@@ -105,12 +183,13 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
 
       spinner.info(`Resuming episode from state: ${episode.status}`);
     } else {
-      // Get next episode number
+      // Get next episode number (each host numbers its own episodes per location)
       const config = getConfig();
       const lastEpisode = await db
         .select()
         .from(schema.episodes)
-        .orderBy(schema.episodes.episodeNumber)
+        .where(and(eq(schema.episodes.location, location.key), eq(schema.episodes.persona, persona.key)))
+        .orderBy(desc(schema.episodes.episodeNumber))
         .limit(1);
 
       episodeNumber = lastEpisode.length > 0
@@ -121,8 +200,10 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
       const newEpisode = {
         id: nanoid(),
         broadcastDate,
+        location: location.key,
         broadcastTime,
         episodeNumber,
+        persona: persona.key,
         status: 'init' as const,
       };
 
@@ -146,7 +227,7 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
       // Show pipeline steps
       console.log(chalk.bold('\nPipeline steps:\n'));
       console.log(chalk.dim('  1. Fetch weather data from NWS'));
-      console.log(chalk.dim('  2. Generate Elliot Skyfall script with Claude'));
+      console.log(chalk.dim(`  2. Generate ${persona.name} script with Claude`));
       console.log(chalk.dim('  3. Parse [GRAPHIC:] cues from script'));
 
       if (options.images !== false) {
@@ -166,43 +247,148 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
     console.log(chalk.bold('\n🎬 Starting generation pipeline...\n'));
 
     // Phase 1: Fetch weather data
-    spinner.start('Fetching weather data from NWS...');
+    spinner.start(`Fetching weather data (${location.provider ?? 'nws'})...`);
     await updateEpisodeStatus(db, episode.id, 'fetching');
 
     const { fetchWeatherData, formatWeatherForScript } = await import('../../weather/fetcher');
-    const weatherResult = await fetchWeatherData(episode.id);
+    const { describeWeatherSource } = await import('../../weather/provider');
+    let weatherData;
+
+    if (replay) {
+      weatherData = replay.data;
+      spinner.succeed(`Weather rebuilt offline from ${replay.label}`);
+    } else {
+      const weatherResult = await fetchWeatherData(location, episode.id, {
+        source: options.source as WeatherSource | undefined,
+      });
+
+      if (!weatherResult.success || !weatherResult.data) {
+        throw new Error(`Failed to fetch weather data: ${weatherResult.error}`);
+      }
+
+      weatherData = weatherResult.data;
+      if (weatherResult.usedFallback) {
+        spinner.warn(`Using cached weather data (${weatherData.staleAge}h old)`);
+      } else {
+        spinner.succeed(`Weather data fetched (${describeWeatherSource(weatherData)})`);
+      }
 
-    if (!weatherResult.success || !weatherResult.data) {
-      throw new Error(`Failed to fetch weather data: ${weatherResult.error}`);
+      const { getHttpStats, formatHttpStats } = await import('../../utils/http-cache');
+      for (const line of formatHttpStats(getHttpStats())) {
+        console.log(chalk.dim(`  ${line}`));
+      }
     }
 
-    const weatherData = weatherResult.data;
-    if (weatherResult.usedFallback) {
-      spinner.warn(`Using cached weather data (${weatherData.staleAge}h old)`);
-    } else {
-      spinner.succeed('Weather data fetched');
+    // Refuse to broadcast numbers that failed the sanity checks
+    const { validateWeatherData, formatValidationIssues } = await import('../../weather/validator');
+    const validation = validateWeatherData(weatherData);
+    if (validation.warnings.length > 0) {
+      console.log(chalk.yellow(`  ⚠ Weather data warnings:\n${formatValidationIssues(validation.warnings)}`));
+    }
+    if (!validation.valid) {
+      if (!options.forceWeather) {
+        throw new Error(`Weather data failed validation:\n${formatValidationIssues(validation.errors)}\n` +
+          '  Re-run with --force-weather to broadcast it anyway');
+      }
+      console.log(chalk.red(`  ✗ Weather data failed validation (continuing with --force-weather):\n` +
+        formatValidationIssues(validation.errors)));
     }
 
     // Show weather summary
-    console.log(chalk.dim(`\n  Current: ${weatherData.forecast.current.temperature}°F, ${weatherData.forecast.current.conditions}`));
+    const currentSource = weatherData.forecast.current.source === 'observed'
+      ? `observed at ${weatherData.forecast.current.stationId}`
+      : 'forecast-derived';
+    console.log(chalk.dim(`\n  Current: ${weatherData.forecast.current.temperature}°F, ${weatherData.forecast.current.conditions} (${currentSource})`));
     console.log(chalk.dim(`  Wind: ${weatherData.forecast.current.windDirection} at ${weatherData.forecast.current.windSpeed} mph`));
-    if (weatherData.afd.hazards.length > 0) {
-      console.log(chalk.yellow(`  ⚠ Active hazards: ${weatherData.afd.hazards.map(h => h.type).join(', ')}`));
+    const hazards = getActiveHazards(weatherData);
+    if (hazards.length > 0) {
+      console.log(chalk.yellow(`  ⚠ Active hazards: ${hazards.map(h => h.type).join(', ')}`));
+    }
+    const { airQuality } = weatherData;
+    if (airQuality?.overall) {
+      console.log(chalk.dim(`  Air quality: AQI ${airQuality.overall.aqi} (${airQuality.overall.category}, ${airQuality.overall.pollutant})`));
+    }
+    if (airQuality?.smoke) {
+      console.log(chalk.yellow(`  ⚠ Wildfire smoke: ${airQuality.smokeReasons.join('; ')}`));
+    }
+
+    // Compare against the weather used for the previous broadcast here
+    // (not for replays, whose "previous" broadcast would be whatever ran last)
+    const { getPreviousBroadcastWeather, diffWeatherData } = await import('../../weather/snapshot-diff');
+    const previous = replay ? null : await getPreviousBroadcastWeather(location.key, episode.id);
+    const weatherDiff = previous
+      ? diffWeatherData(previous.data, weatherData, previous.broadcastDate)
+      : undefined;
+    if (weatherDiff) {
+      const { change } = weatherDiff.temperature;
+      console.log(chalk.dim(`  Since ${weatherDiff.previousBroadcastDate}: ${change >= 0 ? '+' : ''}${change}°F` +
+        `, ${weatherDiff.newHazards.length} new / ${weatherDiff.expiredHazards.length} expired hazards`));
+    }
+
+    // Normals and records for the broadcast date, when the location has a climate dataset
+    const { loadClimatology, compareWithClimatology } = await import('../../weather/climatology');
+    let climate: ClimateComparison | undefined;
+    try {
+      const climatology = loadClimatology(location);
+      climate = climatology ? compareWithClimatology(weatherData, climatology, broadcastDate) : undefined;
+    } catch (error) {
+      console.log(`  Warning: ${error instanceof Error ? error.message : error}`);
+    }
+    if (climate?.normals) {
+      const { normalHigh, normalLow } = climate.normals;
+      const departure = climate.current?.departure;
+      console.log(chalk.dim(`  Normals for ${broadcastDate}: ${normalHigh ?? '?'}°F / ${normalLow ?? '?'}°F` +
+        (departure ? ` (now ${Math.abs(departure)}°F ${departure > 0 ? 'above' : 'below'} the normal range)` : '')));
+    }
+
+    // Regional roundup: the other locations are fetched in parallel, each failure isolated
+    let regional: RegionalWeather | undefined;
+    let regionalData: string | undefined;
+    if (options.region) {
+      const { getRegionKeys, fetchRegionalWeather, formatRegionalTable } = await import('../../weather/regional');
+      const keys = getRegionKeys(
+        location,
+        typeof options.region === 'string' ? options.region.split(',').map(key => key.trim()).filter(Boolean) : undefined
+      );
+
+      if (replay) {
+        console.log(chalk.yellow('  ⚠ Regional roundup skipped in replay mode (it would need live fetches)'));
+      } else if (keys.length === 0) {
+        console.log(chalk.yellow(`  ⚠ No region configured for ${location.key} - pass --region <keys> or add "region" to the registry`));
+      } else {
+        spinner.start(`Fetching regional weather (${keys.join(', ')})...`);
+        regional = await fetchRegionalWeather(
+          keys,
+          { source: options.source as WeatherSource | undefined },
+          { location, data: weatherData }
+        );
+        if (regional.failures.length > 0) {
+          spinner.warn(`Regional weather: ${regional.cities.length - 1}/${keys.length} locations fetched`);
+          for (const failure of regional.failures) {
+            console.log(chalk.yellow(`  ✗ ${failure.name}: ${failure.error}`));
+          }
+        } else {
+          spinner.succeed(`Regional weather fetched (${keys.length} location${keys.length === 1 ? '' : 's'})`);
+        }
+        regionalData = formatRegionalTable(regional);
+      }
     }
     console.log('');
 
     // Phase 2: Generate script
-    spinner.start('Generating Elliot Skyfall script with Claude...');
+    spinner.start(`Generating ${persona.name} script with Claude...`);
     await updateEpisodeStatus(db, episode.id, 'generating');
 
     const { generateScript, isClaudeAvailable } = await import('../../script/generator');
 
+    let generatedScript: string | undefined;
+
     if (!isClaudeAvailable()) {
       spinner.warn('Claude API key not configured - skipping script generation');
       console.log(chalk.dim('  Set ANTHROPIC_API_KEY in .env to enable script generation\n'));
     } else {
       const scriptResult = await generateScript({
-        weatherData: formatWeatherForScript(weatherData, timeContext),
+        weatherData: formatWeatherForScript(weatherData, timeContext, weatherDiff, climate),
         broadcastDate,
         broadcastTime,
         episodeNumber,
@@ -210,15 +396,59 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
         staleAge: weatherData.staleAge,
         timeContext,
         location: locationName,
+        regionalData,
+        facts: weatherData,
+        persona,
       });
 
+      // Record every draft, including ones that end up blocked
+      await db
+        .update(schema.episodes)
+        .set({ scriptAttempts: JSON.stringify(scriptResult.attempts), promptVersion: scriptResult.promptVersion })
+        .where(eq(schema.episodes.id, episode.id));
+
+      const { factCheck, attempts } = scriptResult;
+      const finalAttempt = attempts[attempts.length - 1];
+
+      // Never voice a script with claims the data doesn't support
+      if (factCheck && !factCheck.passed) {
+        const { formatFactCheckReport } = await import('../../script/fact-checker');
+        throw new Error(`Script failed the fact check${attempts.length > 1 ? ` after ${attempts.length} attempts` : ''}:\n` +
+          `${formatFactCheckReport(factCheck)}\nRerun to generate a new script, or set FACT_CHECK_MODE=off to skip the check.`);
+      }
+
+      generatedScript = scriptResult.script;
+
       // Update episode with script
       await db
         .update(schema.episodes)
-        .set({ script: scriptResult.script })
+        .set({
+          script: scriptResult.script,
+          scriptJson: scriptResult.structured ? JSON.stringify(scriptResult.structured) : null,
+        })
         .where(eq(schema.episodes.id, episode.id));
 
       spinner.succeed(`Script generated (${scriptResult.wordCount} words, ~${Math.round(scriptResult.estimatedDurationSecs / 60)}min)`);
+      console.log(chalk.dim(`  Prompt: ${scriptResult.promptVersion}`));
+      if (scriptResult.structured) {
+        const sections = [...new Set(scriptResult.structured.segments.map(segment => segment.section))];
+        console.log(chalk.dim(`  Segments: ${scriptResult.structured.segments.length} (${sections.join(' → ')})`));
+      }
+      if (attempts.length > 1) {
+        for (const attempt of attempts) {
+          const fixes = attempt.revision.length > 0 ? ` - revised for ${attempt.revision.join(', ')}` : '';
+          const result = attempt.validationIssues
+            ? `invalid structured script (${attempt.validationIssues} issue${attempt.validationIssues === 1 ? '' : 's'})`
+            : `${attempt.wordCount} words (~${attempt.estimatedDurationSecs}s)`;
+          console.log(chalk.dim(`  Attempt ${attempt.attempt}: ${result}${fixes}`));
+        }
+      }
+      if (!finalAttempt.inRange) {
+        console.log(chalk.yellow(`  ⚠ Script is off the ~${Math.round(getConfig().targetDurationSecs / 60)}min target after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}`));
+      }
+      if (factCheck) {
+        console.log(chalk.dim(`  Fact check: ${factCheck.claims.length} claims verified`));
+      }
 
       // Show script preview
       console.log(chalk.dim(`\n  Graphic cues: ${scriptResult.graphicCues.length}`));
@@ -233,7 +463,9 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
 
     // Phase 3: Audio synthesis
     const config = getConfig();
-    const outputDir = join(config.outputDir, broadcastDate);
+    const outputDir = replay
+      ? join(config.outputDir, 'replays', episode.id)
+      : join(config.outputDir, broadcastDate, location.key, persona.key);
 
     // Ensure output directory exists
     if (!existsSync(outputDir)) {
@@ -247,7 +479,7 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
       .where(eq(schema.episodes.id, episode.id))
       .limit(1);
 
-    const script = currentEpisode[0]?.script;
+    const script = generatedScript ?? currentEpisode[0]?.script;
 
     if (!script) {
       throw new Error('No script available for audio synthesis');
@@ -260,12 +492,12 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
       spinner.start('Synthesizing audio with ElevenLabs...');
       await updateEpisodeStatus(db, episode.id, 'synthesizing');
 
-      if (!isElevenLabsAvailable()) {
+      if (!isElevenLabsAvailable(persona)) {
         spinner.warn('ElevenLabs not configured - skipping audio synthesis');
-        console.log(chalk.dim('  Set ELEVENLABS_API_KEY and ELLIOT_VOICE_ID in .env\n'));
+        console.log(chalk.dim(`  Set ELEVENLABS_API_KEY and ${persona.voiceIdEnv} in .env\n`));
       } else {
         const audioOutputPath = join(outputDir, `episode-${episodeNumber}.mp3`);
-        const audioResult = await synthesizeAudio(script, audioOutputPath);
+        const audioResult = await synthesizeAudio(script, audioOutputPath, persona);
 
         audioPath = audioResult.audioPath;
         audioDuration = audioResult.duration;
@@ -304,7 +536,7 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
           const imageResults = await generateImagesForCues(
             graphicCues.map(cue => ({ description: cue.description })),
             outputDir,
-            { timeContext }
+            { timeContext, persona }
           );
 
           const cachedCount = imageResults.filter(r => r.cached).length;
@@ -326,13 +558,32 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
 
         const graphicCues = parseGraphicCues(script);
 
-        // Build weather summary for end slide
+        // Build weather summary for end slide (next three days of the outlook)
+        const outlookDays = (weatherData.forecast.daily || []).slice(1, 4);
         const weatherSummary = weatherData ? {
           temperature: `${weatherData.forecast.current.temperature}°F`,
           conditions: weatherData.forecast.current.conditions,
           wind: `${weatherData.forecast.current.windDirection} ${weatherData.forecast.current.windSpeed} mph`,
-          hazards: weatherData.afd.hazards.map((h: { type: string }) => h.type),
-          outlook: '', // Extended outlook handled in script
+          hazards: hazards.map(h => h.type),
+          hazardSeverity: hazards[0]?.severity,
+          outlook: outlookDays.map(d => `${d.name}: ${d.summary}`).join(' • '),
+          outlookDays: outlookDays.map(d => ({
+            name: d.name,
+            high: d.high,
+            low: d.low,
+            summary: d.summary,
+            highDeparture: climate?.days.find(day => day.date === d.date)?.high?.departure ?? null,
+          })),
+          normalHigh: climate?.normals?.normalHigh ?? null,
+          normalLow: climate?.normals?.normalLow ?? null,
+          cities: regional?.cities.map(city => ({
+            name: city.shortName,
+            temperature: city.temperature,
+            conditions: city.conditions,
+            high: city.nextHigh,
+            low: city.lowTonight,
+            hasHazards: city.hazards.length > 0,
+          })),
         } : undefined;
 
         const timeline = buildTimeline({
@@ -340,10 +591,19 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
           audioPath,
           audioDuration,
           imagesDir: outputDir,
-          // Use current time for broadcast date (not the weather data date)
-          broadcastDate: new Date().toISOString(),
+          // Use current time for broadcast date (not the weather data date); replays show the original moment
+          broadcastDate: (replay?.fetchedAt ?? new Date()).toISOString(),
           location: locationName,
+          timezone: location.timezone,
+          branding: persona.branding,
           weatherSummary,
+          alerts: hazards.map(h => ({ event: h.event ?? h.type, severity: h.severity })),
+          airQuality: airQuality && (airQuality.overall || airQuality.smoke) ? {
+            aqi: airQuality.overall?.aqi ?? null,
+            category: airQuality.overall?.category ?? 'Smoke',
+            color: airQuality.overall ? getAqiCategoryInfo(airQuality.overall.category).color : '#f97316',
+            smoke: airQuality.smoke,
+          } : undefined,
         });
 
         spinner.succeed(`Timeline built (${timeline.segments.length} segments, ${timeline.durationInFrames} frames)`);
@@ -373,7 +633,7 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
 
     console.log(chalk.bold.green('\n✓ Episode generation complete!\n'));
     console.log(chalk.dim(`  Episode #${episodeNumber} for ${broadcastDate}`));
-    console.log(chalk.dim(`  Output: ./output/${broadcastDate}/`));
+    console.log(chalk.dim(`  Output: ${outputDir}/`));
 
   } catch (error) {
     spinner.fail('Generation failed');
@@ -382,6 +642,41 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
   }
 }
 
+/**
+ * Resolve the --replay* options into a replay source (undefined for a live run)
+ *
+ * `locationKey` and `personaKey` are the --location and --persona given, if
+ * any, to pick between episodes from several locations or hosts on the same date.
+ */
+function getReplaySource(options: GenerateOptions, locationKey?: string, personaKey?: string): ReplaySource | undefined {
+  if (options.replayAfd || options.replayForecast) {
+    if (!options.replayAfd || !options.replayForecast) {
+      throw new Error('--replay-afd and --replay-forecast must be used together');
+    }
+
+    let fetchedAt: Date | undefined;
+    if (options.replayTime) {
+      fetchedAt = new Date(options.replayTime);
+      if (Number.isNaN(fetchedAt.getTime())) {
+        throw new Error(`Invalid --replay-time: "${options.replayTime}" (use an ISO 8601 time, e.g. 2025-12-07T21:05:00Z)`);
+      }
+    }
+    return { type: 'files', afdPath: options.replayAfd, forecastPath: options.replayForecast, fetchedAt };
+  }
+
+  if (options.replayTime) {
+    throw new Error('--replay-time only applies to --replay-afd/--replay-forecast');
+  }
+
+  if (options.replay) {
+    return /^\d{4}-\d{2}-\d{2}$/.test(options.replay)
+      ? { type: 'episode', broadcastDate: options.replay, location: locationKey, persona: personaKey }
+      : { type: 'snapshot', snapshotId: options.replay };
+  }
+
+  return undefined;
+}
+
 /**
  * Update episode status in database
  */
@@ -39,11 +39,13 @@ export async function listCommand(options: ListOptions): Promise<void> {
     console.log(
       chalk.dim('  ') +
       chalk.bold.white('Date'.padEnd(12)) +
+      chalk.bold.white('Location'.padEnd(14)) +
+      chalk.bold.white('Host'.padEnd(16)) +
       chalk.bold.white('Episode'.padEnd(10)) +
       chalk.bold.white('Status'.padEnd(14)) +
       chalk.bold.white('Duration')
     );
-    console.log(chalk.dim('  ' + '─'.repeat(50)));
+    console.log(chalk.dim('  ' + '─'.repeat(80)));
 
     // Table rows
     for (const ep of episodes) {
@@ -55,6 +57,8 @@ export async function listCommand(options: ListOptions): Promise<void> {
       console.log(
         chalk.dim('  ') +
         chalk.white(ep.broadcastDate.padEnd(12)) +
+        chalk.white(ep.location.padEnd(14)) +
+        chalk.white(ep.persona.padEnd(16)) +
         chalk.cyan(`#${ep.episodeNumber}`.padEnd(10)) +
         statusColor(ep.status.padEnd(14)) +
         chalk.dim(duration)
@@ -0,0 +1,135 @@
+/**
+ * Locations Command
+ *
+ * Manage the broadcast location registry (list, add, remove).
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { getConfig } from '../../utils/config';
+import { listLocations, addLocation, removeLocation } from '../../weather/locations';
+import { fetchPoint } from '../../weather/nws-api';
+import { resolveObservationStation } from '../../weather/observations';
+
+export interface LocationsAddOptions {
+  name?: string;
+  shortName?: string;
+  greeting?: string;
+  provider?: string;
+  weatherFile?: string;
+  office?: string;
+  gridX?: string;
+  gridY?: string;
+  zone?: string;
+  station?: string;
+  lat?: string;
+  lon?: string;
+  timezone?: string;
+  resolve?: boolean;
+}
+
+export async function locationsListCommand(): Promise<void> {
+  try {
+    const config = getConfig();
+    const locations = listLocations();
+
+    console.log(chalk.bold(`\nLocations (${locations.length}):\n`));
+
+    for (const loc of locations) {
+      const isDefault = loc.key === config.defaultLocation;
+      console.log(chalk.cyan(`  ${loc.key}`) + (isDefault ? chalk.green(' (default)') : ''));
+      console.log(chalk.dim(`    ${loc.name} • ${loc.timezone} • Provider: ${loc.provider ?? 'nws'}`));
+      if (loc.nwsOffice) {
+        console.log(chalk.dim(`    Office: ${loc.nwsOffice}${loc.gridX !== undefined ? ` ${loc.gridX},${loc.gridY}` : ''}` +
+          ` • Zone: ${loc.forecastZone || '—'} • Station: ${loc.observationStation || '—'}`));
+      }
+      if (loc.weatherFile) {
+        console.log(chalk.dim(`    File: ${loc.weatherFile}`));
+      }
+    }
+
+    console.log(chalk.dim(`\n  Registry: ${config.locationsFile}\n`));
+  } catch (error) {
+    console.error(chalk.red(`\nError listing locations: ${error}\n`));
+    process.exit(1);
+  }
+}
+
+export async function locationsAddCommand(key: string, options: LocationsAddOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    const entry: Record<string, unknown> = {
+      name: options.name,
+      shortName: options.shortName,
+      greeting: options.greeting,
+      provider: options.provider,
+      weatherFile: options.weatherFile,
+      nwsOffice: options.office?.toUpperCase(),
+      gridX: parseOptionalNumber(options.gridX),
+      gridY: parseOptionalNumber(options.gridY),
+      forecastZone: options.zone?.toUpperCase(),
+      observationStation: options.station?.toUpperCase(),
+      lat: parseOptionalNumber(options.lat),
+      lon: parseOptionalNumber(options.lon),
+      timezone: options.timezone,
+    };
+
+    // Fill in missing NWS metadata from the /points endpoint (US locations on the nws provider only)
+    const usesNws = (options.provider ?? 'nws') === 'nws';
+    if (usesNws && options.resolve !== false && typeof entry.lat === 'number' && typeof entry.lon === 'number') {
+      spinner.start('Resolving NWS metadata...');
+      const point = await fetchPoint({ lat: entry.lat, lon: entry.lon });
+      const station = entry.observationStation ?? await resolveObservationStation({
+        name: key,
+        lat: entry.lat,
+        lon: entry.lon,
+      });
+
+      entry.nwsOffice ??= point.office;
+      entry.gridX ??= point.gridX;
+      entry.gridY ??= point.gridY;
+      entry.forecastZone ??= point.forecastZone;
+      entry.observationStation = station;
+      entry.timezone ??= point.timezone;
+      spinner.succeed(`Resolved ${point.office} ${point.gridX},${point.gridY}, zone ${point.forecastZone}, station ${station}`);
+    }
+
+    // Spoken names default from the display name
+    const shortName = (entry.shortName as string | undefined) ?? (entry.name as string | undefined)?.split(',')[0].trim();
+    entry.shortName = shortName;
+    entry.greeting ??= shortName;
+
+    const location = addLocation(key, stripUndefined(entry));
+    console.log(chalk.green(`\n✓ Saved location ${location.key}: ${location.name}\n`));
+  } catch (error) {
+    spinner.stop();
+    console.error(chalk.red(`\nError adding location: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+}
+
+export async function locationsRemoveCommand(key: string): Promise<void> {
+  try {
+    if (key === getConfig().defaultLocation) {
+      console.log(chalk.yellow(`⚠ ${key} is the DEFAULT_LOCATION - update .env before generating again`));
+    }
+
+    removeLocation(key);
+    console.log(chalk.green(`\n✓ Removed location ${key}\n`));
+  } catch (error) {
+    console.error(chalk.red(`\nError removing location: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse a numeric CLI option (NaN is left for schema validation to reject)
+ */
+function parseOptionalNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function stripUndefined(entry: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,34 @@
+/**
+ * Personas Command
+ *
+ * List the broadcast hosts in the persona registry.
+ */
+
+import chalk from 'chalk';
+import { existsSync } from 'node:fs';
+import { getConfig } from '../../utils/config';
+import { listPersonas, getPersonaVoiceId } from '../../script/personas';
+
+export async function personasCommand(): Promise<void> {
+  try {
+    const config = getConfig();
+    const personas = listPersonas();
+
+    console.log(chalk.bold(`\nPersonas (${personas.length}):\n`));
+
+    for (const persona of personas) {
+      const isDefault = persona.key === config.defaultPersona;
+      console.log(chalk.cyan(`  ${persona.key}`) + chalk.white(` ${persona.name}`) + (isDefault ? chalk.green(' (default)') : ''));
+      if (persona.description) {
+        console.log(chalk.dim(`    ${persona.description}`));
+      }
+      console.log(chalk.dim(`    Template: ${persona.template} • Voice: ${getPersonaVoiceId(persona) ? persona.voiceIdEnv : `${persona.voiceIdEnv} not set`}` +
+        ` • Colors: ${persona.branding.primary} / ${persona.branding.accent}`));
+    }
+
+    console.log(chalk.dim(`\n  Registry: built-in${existsSync(config.personasFile) ? ` + ${config.personasFile}` : ''}\n`));
+  } catch (error) {
+    console.error(chalk.red(`\nError listing personas: ${error}\n`));
+    process.exit(1);
+  }
+}
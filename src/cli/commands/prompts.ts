@@ -0,0 +1,112 @@
+/**
+ * Prompts Command
+ *
+ * List the prompt template versions and diff the prompts two versions render.
+ */
+
+import chalk from 'chalk';
+import { getConfig } from '../../utils/config';
+import { buildTimeContext, buildCurrentTimeContext } from '../../utils/time-context';
+import { diffLines, formatUnifiedDiff } from '../../utils/text-diff';
+import { getLocation } from '../../weather/locations';
+import { buildPrompt } from '../../script/prompt-builder';
+import { getPersona } from '../../script/personas';
+import { listPromptVersions } from '../../script/prompt-templates';
+import type { ScriptFormat, ScriptGenerationRequest } from '../../script/types';
+
+export interface PromptsDiffOptions {
+  for?: string;
+  location?: string;
+  format?: string;
+  persona?: string;
+}
+
+// Stand in for the weather data so the diff shows only template changes
+const SAMPLE_WEATHER_DATA = '[WEATHER DATA]';
+const SAMPLE_REGIONAL_DATA = '[REGIONAL DATA]';
+
+export async function promptsListCommand(): Promise<void> {
+  try {
+    const config = getConfig();
+    const versions = listPromptVersions();
+
+    console.log(chalk.bold(`\nPrompt versions (${versions.length}):\n`));
+
+    for (const version of versions) {
+      const isActive = version === config.promptVersion;
+      console.log(chalk.cyan(`  ${version}`) + (isActive ? chalk.green(' (active)') : ''));
+    }
+
+    console.log(chalk.dim(`\n  Templates: ${config.promptsDir}\n`));
+  } catch (error) {
+    console.error(chalk.red(`\nError listing prompt versions: ${error}\n`));
+    process.exit(1);
+  }
+}
+
+export async function promptsDiffCommand(from: string, to: string, options: PromptsDiffOptions): Promise<void> {
+  try {
+    const config = getConfig();
+    const format = (options.format ?? config.scriptFormat) as ScriptFormat;
+    if (format !== 'text' && format !== 'structured') {
+      console.error(chalk.red(`Invalid script format: "${options.format}" (use "text" or "structured")`));
+      process.exit(1);
+    }
+
+    const location = getLocation(options.location || config.defaultLocation);
+    const persona = getPersona(options.persona || config.defaultPersona);
+    const timeContext = options.for
+      ? buildTimeContext(options.for, location, new Date(), persona)
+      : buildCurrentTimeContext(location, persona);
+
+    // Every optional variable is set (facts only feed the fact check) so
+    // conditional sections such as the stale-data note show up in the diff
+    const request: Required<Omit<ScriptGenerationRequest, 'facts'>> = {
+      weatherData: SAMPLE_WEATHER_DATA,
+      broadcastDate: timeContext.date,
+      broadcastTime: timeContext.time,
+      episodeNumber: 1,
+      isStaleData: true,
+      staleAge: 3,
+      timeContext,
+      location: location.name,
+      regionalData: SAMPLE_REGIONAL_DATA,
+      persona,
+    };
+    const render = (templateVersion: string) => buildPrompt(request, {
+      targetDurationSecs: config.targetDurationSecs,
+      includeHazardWarnings: true,
+      style: 'full',
+      format,
+      templateVersion,
+    });
+
+    const lines = diffLines(render(from), render(to));
+
+    console.log(chalk.bold(`\nPrompt diff ${from} → ${to}`));
+    console.log(chalk.dim(`  ${persona.name} • ${location.name} • ${timeContext.date} ${timeContext.time} ${timeContext.timezoneAbbreviation} (${timeContext.timeOfDay}) • ${format}\n`));
+
+    if (lines.every(line => line.type === 'same')) {
+      console.log(chalk.green('  No differences\n'));
+      return;
+    }
+
+    console.log(chalk.red(`--- ${from}`));
+    console.log(chalk.green(`+++ ${to}`));
+    for (const line of formatUnifiedDiff(lines)) {
+      if (line.startsWith('@@')) {
+        console.log(chalk.cyan(line));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(line));
+      } else if (line.startsWith('+')) {
+        console.log(chalk.green(line));
+      } else {
+        console.log(line);
+      }
+    }
+    console.log();
+  } catch (error) {
+    console.error(chalk.red(`\nError diffing prompts: ${(error as Error).message}\n`));
+    process.exit(1);
+  }
+}
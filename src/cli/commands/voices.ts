@@ -1,13 +1,14 @@
 /**
  * Voices Command
  *
- * List available ElevenLabs voices to help find the right one for Elliot.
+ * List available ElevenLabs voices to help find the right one for each persona.
  */
 
 import chalk from 'chalk';
 import ora from 'ora';
 import { listVoices } from '../../audio/synthesizer';
 import { getConfig } from '../../utils/config';
+import { listPersonas, getPersonaVoiceId } from '../../script/personas';
 
 export async function voicesCommand(): Promise<void> {
   const spinner = ora();
@@ -52,19 +53,22 @@ export async function voicesCommand(): Promise<void> {
       console.log('');
     }
 
-    // Show current selection
-    if (config.elliotVoiceId) {
-      const current = voices.find(v => v.id === config.elliotVoiceId);
+    // Show each persona's selection
+    for (const persona of listPersonas()) {
+      const voiceId = getPersonaVoiceId(persona);
+      const current = voiceId ? voices.find(v => v.id === voiceId) : undefined;
+
       if (current) {
-        console.log(chalk.green(`\n✓ Current ELLIOT_VOICE_ID: ${current.name} (${config.elliotVoiceId})`));
+        console.log(chalk.green(`\n✓ ${persona.name} (${persona.voiceIdEnv}): ${current.name} (${voiceId})`));
+      } else if (voiceId) {
+        console.log(chalk.yellow(`\n⚠ ${persona.name} (${persona.voiceIdEnv}) not found in voice list: ${voiceId}`));
       } else {
-        console.log(chalk.yellow(`\n⚠ Current ELLIOT_VOICE_ID not found in voice list: ${config.elliotVoiceId}`));
+        console.log(chalk.yellow(`\n⚠ ${persona.voiceIdEnv} not set in .env (${persona.name})`));
+        console.log(chalk.dim(`  Add ${persona.voiceIdEnv}=<voice-id> to your .env file`));
+        console.log(chalk.dim(`  Look for a voice that suits: ${persona.description}`));
       }
-    } else {
-      console.log(chalk.yellow('\n⚠ ELLIOT_VOICE_ID not set in .env'));
-      console.log(chalk.dim('  Add ELLIOT_VOICE_ID=<voice-id> to your .env file'));
-      console.log(chalk.dim('  Look for a deep, baritone voice for the Art Bell character\n'));
     }
+    console.log('');
 
   } catch (error) {
     spinner.fail('Failed to fetch voices');
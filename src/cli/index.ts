@@ -10,6 +10,9 @@ import chalk from 'chalk';
 import { generateCommand } from './commands/generate';
 import { listCommand } from './commands/list';
 import { voicesCommand } from './commands/voices';
+import { personasCommand } from './commands/personas';
+import { locationsListCommand, locationsAddCommand, locationsRemoveCommand } from './commands/locations';
+import { promptsListCommand, promptsDiffCommand } from './commands/prompts';
 import { hasEnvFile } from '../utils/config';
 
 const program = new Command();
@@ -39,8 +42,16 @@ program
   .command('generate')
   .description('Generate a new weather broadcast episode')
   .option('-f, --for <time>', 'Target broadcast time (e.g., "now", "tonight 9pm", "tomorrow morning")')
-  .option('-l, --location <location>', 'Location for weather data (e.g., "denver", "nyc")')
+  .option('-l, --location <location>', 'Location key from the registry (e.g., "denver", "nyc")')
+  .option('--persona <persona>', 'Host from the persona registry (e.g., "elliot", "morning-drive")')
+  .option('-s, --source <source>', 'NWS backend: "api" (NWS JSON API) or "html" (legacy scraping)')
   .option('-d, --date <date>', 'Broadcast date (YYYY-MM-DD) - overridden by --for')
+  .option('--replay <snapshot>', 'Replay stored weather offline: a snapshot ID or an episode date (YYYY-MM-DD, with --location when several locations ran that day)')
+  .option('--replay-afd <file>', 'Replay from a raw AFD text file (with --replay-forecast)')
+  .option('--replay-forecast <file>', 'Replay from a forecast HTML or hourly JSON file (with --replay-afd)')
+  .option('--replay-time <time>', 'Fetch time for --replay-afd/--replay-forecast (ISO 8601); defaults to the time in the files')
+  .option('--force-weather', 'Broadcast weather data even if it fails validation (e.g. placeholder values)')
+  .option('--region [locations]', 'Add an "around the region" roundup: comma-separated location keys, or the location\'s configured region')
   .option('-p, --preview', 'Preview script only (no audio/video)')
   .option('--no-images', 'Skip image generation')
   .option('--no-video', 'Skip video generation (audio only)')
@@ -68,6 +79,83 @@ program
     await voicesCommand();
   });
 
+// Personas command
+program
+  .command('personas')
+  .description('List broadcast host personas')
+  .action(async () => {
+    console.log(banner);
+    await personasCommand();
+  });
+
+// Locations commands
+const locations = program
+  .command('locations')
+  .description('Manage broadcast locations');
+
+locations
+  .command('list')
+  .description('List registered locations')
+  .action(async () => {
+    console.log(banner);
+    await locationsListCommand();
+  });
+
+locations
+  .command('add <key>')
+  .description('Add or replace a location (missing NWS metadata is resolved from --lat/--lon)')
+  .requiredOption('--name <name>', 'Display name (e.g., "Boulder, Colorado")')
+  .option('--short-name <name>', 'Spoken name (defaults to the part of --name before the comma)')
+  .option('--greeting <text>', 'How the audience is addressed (e.g., "Boulder" in "Good evening, Boulder")')
+  .option('--lat <lat>', 'Latitude')
+  .option('--lon <lon>', 'Longitude')
+  .option('--provider <provider>', 'Weather provider: "nws" (default), "open-meteo" or "file"')
+  .option('--weather-file <file>', 'Weather JSON file for the file provider')
+  .option('--office <office>', 'NWS forecast office (e.g., BOU)')
+  .option('--grid-x <x>', 'Gridpoint X')
+  .option('--grid-y <y>', 'Gridpoint Y')
+  .option('--zone <zone>', 'Forecast zone (e.g., COZ040)')
+  .option('--station <station>', 'Observation station (e.g., KBDU)')
+  .option('--timezone <tz>', 'IANA timezone (e.g., America/Denver)')
+  .option('--no-resolve', 'Do not look up missing metadata from the NWS API')
+  .action(async (key, options) => {
+    console.log(banner);
+    await locationsAddCommand(key, options);
+  });
+
+locations
+  .command('remove <key>')
+  .description('Remove a location')
+  .action(async (key) => {
+    console.log(banner);
+    await locationsRemoveCommand(key);
+  });
+
+// Prompt template commands
+const prompts = program
+  .command('prompts')
+  .description('Inspect versioned prompt templates');
+
+prompts
+  .command('list')
+  .description('List prompt template versions')
+  .action(async () => {
+    console.log(banner);
+    await promptsListCommand();
+  });
+
+prompts
+  .command('diff <from> <to>')
+  .description('Diff the prompts two template versions render (e.g., v1 v2)')
+  .option('--for <time>', 'Broadcast time to render for (e.g., "tomorrow morning"); defaults to now')
+  .option('-l, --location <location>', 'Location key from the registry (defaults to DEFAULT_LOCATION)')
+  .option('--format <format>', 'Script format: "text" or "structured" (defaults to SCRIPT_FORMAT)')
+  .option('--persona <persona>', 'Persona whose template to render (defaults to DEFAULT_PERSONA)')
+  .action(async (from, to, options) => {
+    console.log(banner);
+    await promptsDiffCommand(from, to, options);
+  });
+
 // Show command
 program
   .command('show <date>')
@@ -95,6 +183,7 @@ program
       console.log(chalk.green('✓ Configuration loaded'));
       console.log(chalk.dim(`  Broadcast time: ${config.broadcastTime}`));
       console.log(chalk.dim(`  Target duration: ${config.targetDurationSecs}s`));
+      console.log(chalk.dim(`  Weather source: ${config.weatherSource}`));
       console.log(chalk.dim(`  Image provider: ${config.imageProvider}`));
       console.log(chalk.dim(`  Output dir: ${config.outputDir}`));
 
@@ -121,6 +210,17 @@ program
       console.log(chalk.bold('\nDatabase:\n'));
       console.log(chalk.green(`✓ SQLite: ${config.databasePath}`));
 
+      // Weather HTTP requests across all runs
+      const { getHttpStats, formatHttpStats } = await import('../utils/http-cache');
+      const httpStats = formatHttpStats(getHttpStats(true));
+      console.log(chalk.bold('\nWeather HTTP cache:\n'));
+      if (httpStats.length === 0) {
+        console.log(chalk.dim('○ No requests recorded yet'));
+      }
+      for (const line of httpStats) {
+        console.log(chalk.dim(`  ${line}`));
+      }
+
     } catch (error) {
       console.log(chalk.red(`✗ Configuration error: ${error}`));
     }
@@ -10,6 +10,8 @@ import { join, dirname } from 'node:path';
 import { createHash } from 'node:crypto';
 import { getConfig } from '../utils/config';
 import type { BroadcastTimeContext } from '../utils/time-context';
+import { describeSkyLighting } from '../utils/astronomy';
+import { getPersona, type PersonaConfig } from '../script/personas';
 import { getDb, schema } from '../storage/db';
 import { eq, and } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
@@ -19,10 +21,12 @@ export interface ImageGenerationRequest {
   imageType: 'atmospheric' | 'weather_graphic' | 'character';
   outputPath: string;
   timeContext?: BroadcastTimeContext;
+  persona?: PersonaConfig; // Styles character images (defaults to DEFAULT_PERSONA)
 }
 
 export interface ImageGenerationOptions {
   timeContext?: BroadcastTimeContext;
+  persona?: PersonaConfig;
 }
 
 export interface ImageGenerationResult {
@@ -54,9 +58,11 @@ function getClient(): GoogleGenAI {
 /**
  * Generate a hash for cache lookup
  */
-function generateCacheKey(prompt: string, imageType: string): string {
+function generateCacheKey(prompt: string, imageType: string, persona: PersonaConfig): string {
   const config = getConfig();
-  const content = `${prompt}|${imageType}|${config.styleVersion}`;
+  // Character images depend on the host; other images are shared between personas
+  const host = imageType === 'character' ? `|${persona.key}` : '';
+  const content = `${prompt}|${imageType}|${config.styleVersion}${host}`;
   return createHash('sha256').update(content).digest('hex').slice(0, 16);
 }
 
@@ -129,7 +135,8 @@ export async function generateImage(
   request: ImageGenerationRequest
 ): Promise<ImageGenerationResult> {
   const config = getConfig();
-  const promptHash = generateCacheKey(request.prompt, request.imageType);
+  const persona = request.persona ?? getPersona(config.defaultPersona);
+  const promptHash = generateCacheKey(request.prompt, request.imageType, persona);
 
   // Check cache first
   const cachedPath = await checkCache(promptHash, request.imageType);
@@ -157,7 +164,7 @@ export async function generateImage(
   const client = getClient();
 
   // Build style-enhanced prompt with time context
-  const stylePrompt = buildStylePrompt(request.prompt, request.imageType, request.timeContext);
+  const stylePrompt = buildStylePrompt(request.prompt, request.imageType, request.timeContext, persona);
 
   try {
     // Use Gemini Imagen for image generation
@@ -219,8 +226,25 @@ export async function generateImage(
 
 /**
  * Build time-of-day specific lighting and mood descriptions
+ *
+ * When the sun and moon are known, the actual sky is appended so a dark
+ * winter evening doesn't get golden-hour lighting.
  */
 function buildTimeOfDayMood(timeContext?: BroadcastTimeContext): string {
+  const mood = buildClockTimeMood(timeContext);
+  if (!timeContext?.astronomy) {
+    return mood;
+  }
+
+  return `${mood}
+      Actual sky at broadcast time (takes precedence over the lighting above): ${describeSkyLighting(timeContext.astronomy)}
+  `;
+}
+
+/**
+ * Lighting and mood for the time-of-day category
+ */
+function buildClockTimeMood(timeContext?: BroadcastTimeContext): string {
   if (!timeContext) {
     // Default to late-night aesthetic
     return `
@@ -282,7 +306,12 @@ function buildTimeOfDayMood(timeContext?: BroadcastTimeContext): string {
  * IMPORTANT: We avoid ALL text in generated images because AI image generators
  * produce garbled, unreadable text. Text overlays will be added via Remotion.
  */
-function buildStylePrompt(prompt: string, imageType: string, timeContext?: BroadcastTimeContext): string {
+function buildStylePrompt(
+  prompt: string,
+  imageType: string,
+  timeContext: BroadcastTimeContext | undefined,
+  persona: PersonaConfig
+): string {
   const timeOfDayMood = buildTimeOfDayMood(timeContext);
 
   const baseStyle = `
@@ -342,18 +371,13 @@ function buildStylePrompt(prompt: string, imageType: string, timeContext?: Broad
       return `
         ${baseStyle}
 
-        Create a stylized portrait of a mysterious radio broadcaster.
-        Style: Film noir meets 1990s talk radio. Dramatic side lighting.
-        The figure is silhouetted or partially lit, contemplative, knowledgeable.
-        Background: vintage radio equipment, glowing dials, warm amber lights.
+        ${persona.imageStyle}
 
         The ambient lighting should subtly reflect the time of day:
         - Late night: darker, more mysterious, studio lights prominent
         - Morning/afternoon: some natural light filtering through window blinds
         - Evening: warm transition lighting, golden hour glow
 
-        Think: Art Bell in his studio, mysterious and inviting.
-
         Character notes: ${prompt}
 
         NO text, labels, or writing in the image.
@@ -387,6 +411,7 @@ export async function generateImagesForCues(
       imageType,
       outputPath,
       timeContext: options.timeContext,
+      persona: options.persona,
     });
 
     results.push(result);
@@ -0,0 +1,544 @@
+/**
+ * Script Fact Checker
+ *
+ * Verifies what a generated script says against the weather it was written
+ * from: temperatures, wind speeds, percentages, AQI, wind directions,
+ * hazard names and weekdays, in the spoken text and in [GRAPHIC:] cues.
+ * Spelled-out numbers ("thirty-four degrees") are read as digits first.
+ * Changes ("ten degrees colder", "a 20-degree swing", "5 degrees above
+ * normal") are checked as differences, not as temperatures.
+ *
+ * A claim is supported by the structured WeatherData or by the formatted
+ * prompt sections (normals, changes since the last broadcast, the regional
+ * table), which are parsed with the same extractors as the script.
+ */
+
+import type { WeatherData } from '../weather/types';
+import { parseGraphicCues, removeGraphicCues } from './graphic-cue-parser';
+import type { FactCheckReport, FactClaim, FactKind, FactMismatch } from './types';
+
+type NumericKind = Extract<FactKind, 'temperature' | 'temperatureChange' | 'temperatureDeparture' | 'wind' | 'percent' | 'aqi'>;
+type SignedKind = Extract<NumericKind, 'temperatureChange' | 'temperatureDeparture'>;
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+/**
+ * Everything the data supports, by kind
+ */
+interface KnownFacts {
+  numbers: Record<NumericKind, Range[]>; // Changes and departures are signed (negative is colder)
+  directions: string[]; // 16-point compass abbreviations
+  hazards: string[][]; // Hazard names as lowercase words
+  days: Set<string>; // Lowercase weekday names
+}
+
+// How far a spoken number may stray from the data (rounding, "around 40")
+const TOLERANCES: Record<NumericKind, number> = {
+  temperature: 2, temperatureChange: 3, temperatureDeparture: 3, wind: 3, percent: 5, aqi: 5,
+};
+const DIRECTION_TOLERANCE = 45; // Compass degrees, so "northwest" covers NNW through WNW
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL_NUMBERS), ...Object.keys(TENS), 'hundred']
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+const NUMBER_RUN = new RegExp(`\\b${NUMBER_WORD}(?:(?:[\\s-]+(?:and\\s+)?)${NUMBER_WORD})*\\b`, 'gi');
+const DECADE_WORDS: Record<string, number> = {
+  twenties: 20, thirties: 30, forties: 40, fifties: 50, sixties: 60, seventies: 70, eighties: 80, nineties: 90,
+};
+
+const COMPASS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+const DIRECTION_NAMES: Record<string, string> = {
+  north: 'N', 'north-northeast': 'NNE', northeast: 'NE', 'east-northeast': 'ENE',
+  east: 'E', 'east-southeast': 'ESE', southeast: 'SE', 'south-southeast': 'SSE',
+  south: 'S', 'south-southwest': 'SSW', southwest: 'SW', 'west-southwest': 'WSW',
+  west: 'W', 'west-northwest': 'WNW', northwest: 'NW', 'north-northwest': 'NNW',
+};
+const DIRECTION_NAME = `(?:${Object.keys(DIRECTION_NAMES)
+  .sort((a, b) => b.length - a.length)
+  .map(name => name.replace('-', '[\\s-]'))
+  .join('|')})`;
+const DIRECTION_ABBREVIATION = `(?:${[...COMPASS].sort((a, b) => b.length - a.length).join('|')})`;
+
+// Words that can make up an NWS product name ahead of Warning/Watch/Advisory/Statement
+const HAZARD_WORDS = new Set([
+  'air', 'avalanche', 'blizzard', 'blowing', 'chill', 'coastal', 'cold', 'craft', 'current', 'dense', 'dust',
+  'excessive', 'extreme', 'fire', 'flag', 'flash', 'flood', 'fog', 'freeze', 'freezing', 'frost', 'gale',
+  'hard', 'hazardous', 'heat', 'high', 'hurricane', 'hydrologic', 'ice', 'lake', 'effect', 'quality', 'red',
+  'rip', 'severe', 'small', 'smoke', 'snow', 'special', 'squall', 'storm', 'thunderstorm', 'tornado',
+  'tropical', 'weather', 'wind', 'winter',
+]);
+// Hazard words that don't name a product on their own ("no severe weather warnings")
+const GENERIC_HAZARD_WORDS = new Set(['weather', 'severe']);
+const NEGATIONS = new Set(['no', 'not', 'without', 'any', 'nor', 'zero']);
+
+// Wording of a temperature change, by direction; anything else ("swing") has none
+const COLDER_WORDS = /^(?:drop|fall|fell|tumbl|plung|plummet|dip|sink|sank|slid|slip|crash|cold|cool|down|chill|lower|below|decrease)/i;
+const WARMER_WORDS = /^(?:ris|rose|climb|jump|soar|spik|surg|warm|up|mild|higher|above|increase)/i;
+const CHANGE_VERB = '(?:drop|fall|fell|tumbl|plung|plummet|dip|sink|sank|slid|slip|crash|cool|ris|rose|climb|jump|soar|spik|surg|warm)[a-z]*|up|down';
+const CHANGE_QUALIFIER = '(?:by|about|around|nearly|roughly|some|another|almost|more than|as much as|a good|a solid)';
+const DEGREES = '(?:°F?|º|degrees?\\b)';
+const CHANGE_NOUN = '(?:swing|drop|fall|plunge|dip|rise|jump|climb|increase|decrease|change|difference|spread|cooldown|cool-down|warmup|warm-up|temperature (?:drop|rise|swing|change))';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Check a script against the weather data it was generated from
+ *
+ * `referenceText` is the formatted data the prompt carried; numbers and
+ * names in it count as supported.
+ */
+export function checkScriptFacts(
+  script: string,
+  data: WeatherData,
+  referenceText: string[] = []
+): FactCheckReport {
+  const known = collectFacts(data, referenceText);
+  const claims = [
+    ...extractClaims(removeGraphicCues(script), 'script'),
+    ...parseGraphicCues(script).flatMap(cue => extractClaims(cue.description, 'graphic')),
+  ];
+
+  const mismatches: FactMismatch[] = [];
+  const seen = new Set<string>();
+  for (const claim of claims) {
+    const reason = findProblem(claim, known);
+    const key = `${claim.kind}:${claim.source}:${claim.text.toLowerCase()}`;
+    if (reason && !seen.has(key)) {
+      seen.add(key);
+      mismatches.push({ claim, reason });
+    }
+  }
+
+  return { passed: mismatches.length === 0, claims, mismatches };
+}
+
+/**
+ * Extract checkable claims from text
+ */
+export function extractClaims(text: string, source: FactClaim['source']): FactClaim[] {
+  const claims: FactClaim[] = [];
+
+  // Changes come out first and are blanked so their numbers aren't read as temperatures
+  const { claims: changes, rest: normalized } = extractTemperatureChanges(normalizeNumbers(text), source);
+  claims.push(...changes);
+
+  const numeric = (kind: NumericKind, pattern: RegExp, toRanges: (match: RegExpMatchArray) => Range[]) => {
+    for (const match of normalized.matchAll(pattern)) {
+      for (const range of toRanges(match)) {
+        claims.push({ kind, text: match[0].trim(), source, ...range });
+      }
+    }
+  };
+  // "34", or both ends of "40 to 45"
+  const values = (match: RegExpMatchArray) =>
+    [match[1], match[2]].filter((value): value is string => value !== undefined).map(value => exact(Number(value)));
+
+  numeric('temperature', /(-?\d+)(?:\s*(?:to|-|and)\s*(-?\d+))?\s*(?:°|º|degrees?\b)/gi, values);
+  numeric('temperature', /\b(?:highs?|lows?)\s+(?:(?:of|near|around|at|about|reaching|only|to)\s+)?(-?\d+)\b(?!\s*(?:°|º|degrees|%|percent|mph|miles))/gi, values);
+  numeric('temperature', /\b(?:(upper|lower|low|mid|middle|high)[\s-]+)?(\d?\d0)s\b/gi, match =>
+    Number(match[2]) <= 110 ? [decade(Number(match[2]), match[1])] : []);
+  numeric('temperature', /\b(?:(upper|lower|low|mid|middle|high)[\s-]+)?teens\b/gi, match => [teens(match[1])]);
+  numeric('temperature', /\bsingle digits\b/gi, () => [{ min: 0, max: 9 }]);
+  numeric('wind', /(\d+)(?:\s*(?:to|-|and)\s*(\d+))?\s*(?:mph|miles (?:per|an) hour)\b/gi, values);
+  numeric('wind', /\bgust(?:s|ing)?\s+(?:(?:of|to|up to|near|around|over|as high as|reaching)\s+)?(\d+)\b(?!\s*(?:mph|miles))/gi, values);
+  numeric('wind', /\bG(\d+)\b/g, values);
+  numeric('percent', /(\d+)(?:\s*(?:to|-|and)\s*(\d+))?\s*(?:%|percent\b)/gi, values);
+  numeric('aqi', /\b(?:AQI|air quality index)\s+(?:(?:of|is|at|sits at|near|around|reading|reads)\s+)?(\d+)\b/gi, values);
+
+  const directionPatterns = [
+    new RegExp(`\\b(${DIRECTION_NAME})(?:erly)?\\s+(?:winds?|breezes?|flow|gusts?)\\b`, 'gi'),
+    new RegExp(`\\bwinds?\\s+(?:out of|from)\\s+the\\s+(${DIRECTION_NAME})\\b`, 'gi'),
+    new RegExp(`\\b(${DIRECTION_ABBREVIATION})\\s+(?:winds?|at\\s+\\d)`, 'g'),
+    new RegExp(`\\b[Ww]inds?:?\\s+(${DIRECTION_ABBREVIATION})\\b`, 'g'),
+  ];
+  for (const pattern of directionPatterns) {
+    for (const match of normalized.matchAll(pattern)) {
+      const direction = toCompass(match[1]);
+      if (direction) {
+        claims.push({ kind: 'direction', text: match[0].trim(), source, value: direction });
+      }
+    }
+  }
+
+  for (const match of normalized.matchAll(/\b((?:[a-z]+[\s-]+){1,4})(warnings?|watch(?:es)?|advisor(?:y|ies)|statements?)\b/gi)) {
+    const name = toHazardName(match[1], match[2]);
+    if (name) {
+      // Report just the product name, not the words in front of it
+      const text = match[0].trim().split(/\s+/).slice(-name.split(' ').length).join(' ');
+      claims.push({ kind: 'hazard', text, source, value: name });
+    }
+  }
+
+  for (const match of normalized.matchAll(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/gi)) {
+    claims.push({ kind: 'day', text: match[0], source, value: match[1].toLowerCase() });
+  }
+
+  return claims;
+}
+
+/**
+ * Rewrite spelled-out numbers as digits ("thirty-four" → 34, "minus five" → -5)
+ */
+export function normalizeNumbers(text: string): string {
+  return text
+    .replace(/\b(twent|thirt|fort|fift|sixt|sevent|eight|ninet)ies\b/gi, word => `${DECADE_WORDS[word.toLowerCase()]}s`)
+    .replace(NUMBER_RUN, run => parseNumberWords(run).join(' '))
+    .replace(/\b(?:minus|negative)\s+(\d+)/gi, '-$1')
+    .replace(/\b(\d+)\s+(?:degrees?\s+)?below (?:zero|0)\b/gi, '-$1 degrees');
+}
+
+/**
+ * Format mismatches as indented lines for the console or an error message
+ */
+export function formatFactCheckReport(report: FactCheckReport): string {
+  return report.mismatches
+    .map(({ claim, reason }) => `  - [${claim.kind}${claim.source === 'graphic' ? ', graphic' : ''}] "${claim.text}": ${reason}`)
+    .join('\n');
+}
+
+/**
+ * Revise instruction listing the unsupported claims
+ */
+export function buildFactCheckCorrection(report: FactCheckReport): string {
+  return `## FACT CHECK
+
+Your script contains claims that are not in the WEATHER DATA:
+
+${formatFactCheckReport(report)}
+
+Correct or remove these claims. Every temperature, temperature change, wind speed, percentage, AQI value, wind direction, hazard name and day must come from the WEATHER DATA; when the data doesn't give a number, describe the conditions without one.`;
+}
+
+/**
+ * Values the weather data supports
+ */
+function collectFacts(data: WeatherData, referenceText: string[]): KnownFacts {
+  const { current, hourly, daily = [] } = data.forecast;
+  const numbers: Record<NumericKind, Range[]> = {
+    temperature: [], temperatureChange: [], temperatureDeparture: [], wind: [], percent: [], aqi: [],
+  };
+  const add = (kind: NumericKind, ...items: Array<number | null | undefined>) => {
+    for (const item of items) {
+      if (item !== null && item !== undefined) numbers[kind].push(exact(item));
+    }
+  };
+
+  add('temperature', current.temperature, current.dewpoint, current.feelsLike);
+  add('wind', current.windSpeed, current.windGust);
+  add('percent', current.humidity, current.skyCover);
+  for (const hour of hourly) {
+    add('temperature', hour.temperature, hour.dewpoint, hour.windChill, hour.heatIndex);
+    add('wind', hour.windSpeed, hour.windGust);
+    add('percent', hour.humidity, hour.skyCover, hour.precipProbability);
+  }
+  for (const day of daily) {
+    add('temperature', day.high, day.low);
+    add('percent', day.precipProbability);
+  }
+  for (const reading of [...(data.airQuality?.current ?? []), ...(data.airQuality?.forecast ?? [])]) {
+    add('aqi', reading.aqi);
+  }
+  numbers.temperatureChange.push(...collectTemperatureChanges(data).map(exact));
+
+  const directions = [current.windDirection, ...hourly.map(hour => hour.windDirection)]
+    .map(direction => (direction ? toCompass(direction) : undefined))
+    .filter((direction): direction is string => direction !== undefined);
+
+  const hazards = [...(data.alerts ?? []), ...data.afd.hazards]
+    .flatMap(hazard => [hazard.type, hazard.event])
+    .filter((name): name is string => !!name)
+    .map(name => name.toLowerCase().split(/[\s-]+/));
+
+  const days = new Set<string>();
+  const dates = [...hourly.map(hour => hour.date), ...daily.map(day => day.date)];
+
+  for (const text of referenceText) {
+    for (const claim of extractClaims(text, 'script')) {
+      if (claim.kind === 'direction' || claim.kind === 'hazard' || claim.kind === 'day') {
+        if (claim.kind === 'direction') directions.push(claim.value!);
+        if (claim.kind === 'hazard') hazards.push(claim.value!.split(' '));
+        if (claim.kind === 'day') days.add(claim.value!);
+      } else if (claim.kind === 'temperatureChange' || claim.kind === 'temperatureDeparture') {
+        numbers[claim.kind].push(...signedRanges(claim)); // e.g. "6 degrees above the normal range"
+      } else {
+        numbers[claim.kind].push({ min: claim.min!, max: claim.max! });
+      }
+    }
+    dates.push(...(text.match(/\b\d{4}-\d{2}-\d{2}\b/g) ?? []));
+  }
+
+  for (const date of dates) {
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    if (!Number.isNaN(weekday)) days.add(WEEKDAYS[weekday]);
+  }
+
+  return { numbers, directions, hazards, days };
+}
+
+/**
+ * Why a claim is unsupported, or null when the data backs it
+ */
+function findProblem(claim: FactClaim, known: KnownFacts): string | null {
+  switch (claim.kind) {
+    case 'direction': {
+      if (known.directions.length === 0) return 'the data has no wind direction';
+      const bearing = COMPASS.indexOf(claim.value!) * 22.5;
+      const near = known.directions.some(direction => {
+        const difference = Math.abs(COMPASS.indexOf(direction) * 22.5 - bearing) % 360;
+        return Math.min(difference, 360 - difference) <= DIRECTION_TOLERANCE;
+      });
+      return near ? null : `wind in the data is ${[...new Set(known.directions)].join('/')}`;
+    }
+    case 'hazard': {
+      const words = claim.value!.split(' ');
+      return known.hazards.some(hazard => containsWords(hazard, words))
+        ? null
+        : 'not an active alert or hazard in the data';
+    }
+    case 'day':
+      return known.days.has(claim.value!) ? null : 'not a day covered by the forecast';
+    case 'temperatureChange':
+    case 'temperatureDeparture': {
+      const tolerance = TOLERANCES[claim.kind];
+      const supported = signedRanges(claim).some(claimed => known.numbers[claim.kind as SignedKind].some(range =>
+        range.min - tolerance <= claimed.max && claimed.min <= range.max + tolerance));
+      return supported
+        ? null
+        : `no ${describeSignedClaim(claim)} within ${tolerance}°F of ${describeRange(claim)} in the data`;
+    }
+    default: {
+      const tolerance = TOLERANCES[claim.kind];
+      const supported = known.numbers[claim.kind].some(range =>
+        range.min - tolerance <= claim.max! && claim.min! <= range.max + tolerance);
+      return supported
+        ? null
+        : `no ${describeKind(claim.kind)} within ${tolerance}${getUnit(claim.kind)} of ${describeRange(claim)} in the data`;
+    }
+  }
+}
+
+/**
+ * Pull temperature changes and departures from normal out of normalized text
+ *
+ * Returns the claims and the text with the matches blanked out. "Drop to
+ * 20 degrees" names a temperature, so a change needs the number right
+ * after the verb ("drop 20 degrees", "drop by about 20 degrees").
+ */
+function extractTemperatureChanges(text: string, source: FactClaim['source']): { claims: FactClaim[]; rest: string } {
+  const size = '(?<from>\\d+)(?:\\s*(?:to|-|or)\\s*(?<to>\\d+))?';
+  const patterns = [
+    // "temperatures tumble about 15 degrees", "warmer by 10 degrees", "up 5°F"
+    new RegExp(`\\b(?<word>${CHANGE_VERB})(?:\\s+${CHANGE_QUALIFIER})*\\s+${size}\\s*${DEGREES}`, 'gi'),
+    // "10 degrees colder"
+    new RegExp(`\\b${size}\\s*${DEGREES}\\s+(?<word>colder|cooler|chillier|lower|warmer|milder|higher)`, 'gi'),
+    // "5 degrees above normal"
+    new RegExp(`\\b${size}\\s*${DEGREES}\\s+(?<word>above|below)(?=\\s+(?:the\\s+)?(?:normal|average|seasonal|usual))`, 'gi'),
+    // "a 20-degree swing"
+    new RegExp(`\\b${size}[\\s-]+degrees?[\\s-]+(?<word>${CHANGE_NOUN})\\b`, 'gi'),
+  ];
+
+  const claims: FactClaim[] = [];
+  let rest = text;
+  for (const pattern of patterns) {
+    for (const match of rest.matchAll(pattern)) {
+      const { word, from, to } = match.groups!;
+      const values = [Number(from), Number(to ?? from)];
+      const wording = word.replace(/^temperature\s+/i, '');
+      claims.push({
+        kind: /^(?:above|below)$/i.test(word) ? 'temperatureDeparture' : 'temperatureChange',
+        text: match[0].trim(),
+        source,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        value: COLDER_WORDS.test(wording) ? 'down' : WARMER_WORDS.test(wording) ? 'up' : undefined,
+      });
+    }
+    rest = rest.replace(pattern, match => ' '.repeat(match.length));
+  }
+
+  return { claims, rest };
+}
+
+/**
+ * Temperature changes the forecast supports, signed (negative is colder)
+ *
+ * Now to each forecast hour and day, between any two days' highs or lows,
+ * and each day's high-to-low swing.
+ */
+function collectTemperatureChanges(data: WeatherData): number[] {
+  const { current, hourly, daily = [] } = data.forecast;
+  const changes: number[] = [];
+  const known = (value: number | null): value is number => value !== null;
+
+  const forecast = [...hourly.map(hour => hour.temperature), ...daily.flatMap(day => [day.high, day.low])].filter(known);
+  changes.push(...forecast.map(value => value - current.temperature));
+
+  for (const series of [daily.map(day => day.high), daily.map(day => day.low)]) {
+    const values = series.filter(known);
+    values.forEach((earlier, i) => changes.push(...values.slice(i + 1).map(later => later - earlier)));
+  }
+
+  for (const day of daily) {
+    if (day.high !== null && day.low !== null) {
+      changes.push(day.low - day.high, day.high - day.low);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * A change claim as signed ranges: one for a stated direction, both otherwise
+ */
+function signedRanges(claim: FactClaim): Range[] {
+  const up = { min: claim.min!, max: claim.max! };
+  const down = { min: -claim.max!, max: -claim.min! };
+  return claim.value === 'up' ? [up] : claim.value === 'down' ? [down] : [up, down];
+}
+
+/**
+ * Combine a run of number words into values ("one hundred five" → [105])
+ */
+function parseNumberWords(run: string): number[] {
+  const values: number[] = [];
+  let current: number | null = null;
+
+  for (const word of run.toLowerCase().split(/[\s-]+/).filter(word => word !== 'and')) {
+    if (word === 'hundred') {
+      current = (current ?? 1) * 100;
+      continue;
+    }
+    const value = SMALL_NUMBERS[word] ?? TENS[word];
+    if (current === null) {
+      current = value;
+    } else if (current >= 100 && current % 100 === 0) {
+      current += value; // one hundred | five
+    } else if (current % 100 >= 20 && current % 10 === 0 && value < 10) {
+      current += value; // thirty | four
+    } else {
+      values.push(current); // two separate numbers, e.g. "five ten"
+      current = value;
+    }
+  }
+
+  return current === null ? values : [...values, current];
+}
+
+/**
+ * Product name from the words before Warning/Watch/Advisory/Statement
+ *
+ * Leading words that can't be part of an NWS product name are dropped
+ * ("issued a new Winter Storm Warning" → "winter storm warning"). Negated
+ * ("no tornado warnings") and generic ("weather warnings") mentions are skipped.
+ */
+function toHazardName(before: string, keyword: string): string | null {
+  const words = before.toLowerCase().split(/[\s-]+/).filter(Boolean);
+  let start = words.length;
+  while (start > 0 && HAZARD_WORDS.has(words[start - 1])) {
+    start--;
+  }
+
+  const name = words.slice(start);
+  if (name.length === 0 || name.every(word => GENERIC_HAZARD_WORDS.has(word)) || NEGATIONS.has(words[start - 1])) {
+    return null;
+  }
+
+  const product = keyword.toLowerCase()
+    .replace(/ies$/, 'y')
+    .replace(/(watch)es$/, '$1')
+    .replace(/s$/, '');
+  return [...name, product].join(' ');
+}
+
+function containsWords(haystack: string[], needle: string[]): boolean {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) return true;
+  }
+  return false;
+}
+
+function toCompass(direction: string): string | undefined {
+  const upper = direction.trim().toUpperCase();
+  if (COMPASS.includes(upper)) return upper;
+  return DIRECTION_NAMES[direction.trim().toLowerCase().replace(/\s+/g, '-')];
+}
+
+function exact(value: number): Range {
+  return { min: value, max: value };
+}
+
+function decade(base: number, modifier?: string): Range {
+  switch (modifier?.toLowerCase()) {
+    case 'upper':
+    case 'high':
+      return { min: base + 7, max: base + 9 };
+    case 'mid':
+    case 'middle':
+      return { min: base + 4, max: base + 6 };
+    case 'lower':
+    case 'low':
+      return { min: base, max: base + 3 };
+    default:
+      return { min: base, max: base + 9 };
+  }
+}
+
+function teens(modifier?: string): Range {
+  switch (modifier?.toLowerCase()) {
+    case 'upper':
+    case 'high':
+      return { min: 17, max: 19 };
+    case 'mid':
+    case 'middle':
+      return { min: 15, max: 16 };
+    case 'lower':
+    case 'low':
+      return { min: 13, max: 14 };
+    default:
+      return { min: 13, max: 19 };
+  }
+}
+
+function describeKind(kind: NumericKind): string {
+  switch (kind) {
+    case 'temperature':
+      return 'temperature';
+    case 'temperatureChange':
+      return 'temperature change';
+    case 'temperatureDeparture':
+      return 'departure from normal';
+    case 'wind':
+      return 'wind speed';
+    case 'percent':
+      return 'humidity, sky cover or precipitation chance';
+    case 'aqi':
+      return 'AQI';
+  }
+}
+
+function getUnit(kind: FactKind): string {
+  return kind === 'temperature' || kind === 'temperatureChange' || kind === 'temperatureDeparture' ? '°F' : kind === 'wind' ? ' mph' : kind === 'percent' ? '%' : '';
+}
+
+function describeSignedClaim(claim: FactClaim): string {
+  if (claim.kind === 'temperatureDeparture') {
+    return claim.value === 'up' ? 'departure above normal' : claim.value === 'down' ? 'departure below normal' : 'departure from normal';
+  }
+  return claim.value === 'up' ? 'temperature rise' : claim.value === 'down' ? 'temperature drop' : 'temperature change';
+}
+
+function describeRange(claim: FactClaim): string {
+  const unit = getUnit(claim.kind);
+  return claim.min === claim.max ? `${claim.min}${unit}` : `${claim.min}-${claim.max}${unit}`;
+}
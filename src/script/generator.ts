@@ -6,9 +6,25 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../utils/config';
-import { buildPrompt } from './prompt-builder';
+import { buildPrompt, buildLengthRevision, buildRevisionPrompt, getTargetWordRange } from './prompt-builder';
 import { parseGraphicCues, countWords, estimateDuration } from './graphic-cue-parser';
-import type { ScriptGenerationRequest, ScriptGenerationResult } from './types';
+import { checkScriptFacts, buildFactCheckCorrection } from './fact-checker';
+import { SCRIPT_TOOL, buildStructureCorrection, renderScript, validateStructuredScript } from './structured-script';
+import type {
+  FactCheckReport,
+  ScriptAttempt,
+  ScriptFormat,
+  ScriptGenerationRequest,
+  ScriptGenerationResult,
+  ScriptRevision,
+  StructuredScript,
+} from './types';
+
+// Output budget per spoken word: emotion tags, emphasis and [GRAPHIC:] cues ride along
+const TOKENS_PER_WORD = 2.5;
+const MIN_MAX_TOKENS = 2000;
+// Times a response cut off at max_tokens is continued before giving up
+const MAX_CONTINUATIONS = 2;
 
 let anthropicClient: Anthropic | null = null;
 
@@ -35,53 +51,135 @@ function getClient(): Anthropic {
 
 /**
  * Generate broadcast script
+ *
+ * Drafts outside the target word range, or with claims the fact check
+ * rejects, go back to Claude with a revise instruction, up to
+ * SCRIPT_MAX_REVISIONS times. Structured drafts that fail validation use
+ * the same budget. Every draft is reported in `attempts`.
  */
 export async function generateScript(
   request: ScriptGenerationRequest
 ): Promise<ScriptGenerationResult> {
   const config = getConfig();
   const client = getClient();
+  const { targetDurationSecs, scriptFormat: format, promptVersion } = config;
+  const range = getTargetWordRange(targetDurationSecs);
 
   // Build the prompt
   const prompt = buildPrompt(request, {
-    targetDurationSecs: config.targetDurationSecs,
+    targetDurationSecs,
     includeHazardWarnings: true,
     style: 'full',
+    format,
+    templateVersion: promptVersion,
   });
 
-  // Generate with Claude
-  const message = await client.messages.create({
-    model: config.claudeModel,
-    max_tokens: 2000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+  const maxTokens = Math.max(MIN_MAX_TOKENS, Math.ceil(range.max * TOKENS_PER_WORD));
+  const checkFacts = request.facts && config.factCheckMode !== 'off';
+  const referenceText = [request.weatherData, request.regionalData ?? ''];
+  const attempts: ScriptAttempt[] = [];
 
-  // Extract text content
-  const textContent = message.content.find((block) => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in Claude response');
-  }
+  let revision: ScriptRevision[] = [];
+  let script: string;
+  let structured: StructuredScript | undefined;
+  let factCheck: FactCheckReport | undefined;
 
-  const script = textContent.text;
+  for (;;) {
+    // Generate with Claude
+    const response = await requestScript(client, messages, maxTokens, format);
 
-  // Parse graphic cues
-  const graphicCues = parseGraphicCues(script);
+    // Send validation issues back as the tool result and ask again
+    if (response.issues) {
+      attempts.push({
+        attempt: attempts.length + 1,
+        revision,
+        wordCount: 0,
+        estimatedDurationSecs: 0,
+        inRange: false,
+        stopReason: response.stopReason,
+        continuations: response.continuations,
+        outputTokens: response.outputTokens,
+        validationIssues: response.issues.length,
+      });
+      if (attempts.length > config.scriptMaxRevisions) {
+        throw invalidScriptError(response.issues);
+      }
 
-  // Calculate metrics
-  const wordCount = countWords(script);
-  const estimatedDurationSecs = estimateDuration(script);
+      revision = ['invalid-structure'];
+      messages.push(
+        { role: 'assistant', content: response.assistantContent },
+        {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: response.toolUseId!,
+            is_error: true,
+            content: buildStructureCorrection(response.issues),
+          }],
+        }
+      );
+      continue;
+    }
+
+    ({ text: script, structured } = response);
+    factCheck = checkFacts ? checkScriptFacts(script, request.facts!, referenceText) : undefined;
+
+    const wordCount = countWords(script);
+    attempts.push({
+      attempt: attempts.length + 1,
+      revision,
+      wordCount,
+      estimatedDurationSecs: estimateDuration(script),
+      inRange: wordCount >= range.min && wordCount <= range.max,
+      stopReason: response.stopReason,
+      continuations: response.continuations,
+      outputTokens: response.outputTokens,
+      factCheckPassed: factCheck?.passed,
+      mismatches: factCheck?.mismatches.length,
+    });
+
+    const sections: string[] = [];
+    revision = [];
+    if (wordCount < range.min || wordCount > range.max) {
+      revision.push(wordCount < range.min ? 'too-short' : 'too-long');
+      sections.push(buildLengthRevision(wordCount, targetDurationSecs));
+    }
+    if (factCheck && !factCheck.passed && config.factCheckMode === 'regenerate') {
+      revision.push('fact-check');
+      sections.push(buildFactCheckCorrection(factCheck));
+    }
+
+    if (revision.length === 0 || attempts.length > config.scriptMaxRevisions) {
+      break;
+    }
+
+    // A tool call must be answered before the revise instruction
+    const revise = buildRevisionPrompt(sections, format);
+    messages.push(
+      { role: 'assistant', content: response.assistantContent },
+      {
+        role: 'user',
+        content: response.toolUseId
+          ? [
+            { type: 'tool_result', tool_use_id: response.toolUseId, content: 'Script received for review.' },
+            { type: 'text', text: revise },
+          ]
+          : revise,
+      }
+    );
+  }
 
   return {
     script,
-    graphicCues,
-    estimatedDurationSecs,
+    graphicCues: parseGraphicCues(script),
+    estimatedDurationSecs: estimateDuration(script),
     characterCount: script.length,
-    wordCount,
+    wordCount: countWords(script),
+    structured,
+    factCheck,
+    attempts,
+    promptVersion,
   };
 }
 
@@ -91,45 +189,181 @@ export async function generateScript(
 export async function generatePreviewScript(
   request: ScriptGenerationRequest
 ): Promise<ScriptGenerationResult> {
-  const config = getConfig();
   const client = getClient();
+  const { scriptFormat: format, promptVersion } = getConfig();
 
   // Build shorter prompt
   const prompt = buildPrompt(request, {
     targetDurationSecs: 60, // 1 minute preview
     includeHazardWarnings: true,
     style: 'concise',
+    format,
+    templateVersion: promptVersion,
   });
 
   // Generate with Claude
-  const message = await client.messages.create({
-    model: config.claudeModel,
-    max_tokens: 800,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
-
-  // Extract text content
-  const textContent = message.content.find((block) => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in Claude response');
+  const response = await requestScript(client, [{ role: 'user', content: prompt }], 800, format);
+  if (response.issues) {
+    throw invalidScriptError(response.issues);
   }
-
-  const script = textContent.text;
+  const script = response.text;
+  const wordCount = countWords(script);
+  const { min, max } = getTargetWordRange(60);
 
   return {
     script,
     graphicCues: parseGraphicCues(script),
     estimatedDurationSecs: estimateDuration(script),
     characterCount: script.length,
-    wordCount: countWords(script),
+    wordCount,
+    structured: response.structured,
+    promptVersion,
+    attempts: [{
+      attempt: 1,
+      revision: [],
+      wordCount,
+      estimatedDurationSecs: estimateDuration(script),
+      inRange: wordCount >= min && wordCount <= max,
+      stopReason: response.stopReason,
+      continuations: response.continuations,
+      outputTokens: response.outputTokens,
+    }],
   };
 }
 
+/**
+ * Claude's reply to a script request
+ */
+interface ScriptResponse {
+  text: string; // Marker text (rendered from the segments when structured)
+  structured?: StructuredScript;
+  assistantContent: Anthropic.MessageParam['content']; // For the revise conversation
+  toolUseId?: string; // submit_script call to answer before revising
+  issues?: string[]; // Validation issues when the submit_script input was rejected (text is empty)
+  stopReason: string | null;
+  continuations: number;
+  outputTokens: number;
+}
+
+/**
+ * Send a conversation to Claude and return the script
+ */
+function requestScript(
+  client: Anthropic,
+  messages: Anthropic.MessageParam[],
+  maxTokens: number,
+  format: ScriptFormat
+): Promise<ScriptResponse> {
+  return format === 'structured'
+    ? requestStructuredScript(client, messages, maxTokens)
+    : requestTextScript(client, messages, maxTokens);
+}
+
+/**
+ * Request a free-text script
+ *
+ * A reply cut off at max_tokens is continued by sending it back as the
+ * start of the assistant turn, so long targets aren't truncated mid-sentence.
+ */
+async function requestTextScript(
+  client: Anthropic,
+  messages: Anthropic.MessageParam[],
+  maxTokens: number
+): Promise<ScriptResponse> {
+  let text = '';
+  let continuations = 0;
+  let outputTokens = 0;
+
+  for (;;) {
+    const message = await client.messages.create({
+      model: getConfig().claudeModel,
+      max_tokens: maxTokens,
+      messages: text ? [...messages, { role: 'assistant', content: text }] : messages,
+    });
+
+    // Extract text content
+    const textContent = message.content.find((block) => block.type === 'text');
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text content in Claude response');
+    }
+
+    text += textContent.text;
+    outputTokens += message.usage.output_tokens;
+
+    if (message.stop_reason !== 'max_tokens') {
+      return { text, assistantContent: text, stopReason: message.stop_reason, continuations, outputTokens };
+    }
+    if (continuations >= MAX_CONTINUATIONS) {
+      throw new Error(`Script was cut off at max_tokens (${maxTokens}) after ${continuations} continuations`);
+    }
+
+    continuations++;
+    // The API rejects a prefilled assistant turn that ends in whitespace
+    text = text.trimEnd();
+  }
+}
+
+/**
+ * Request a script through the submit_script tool
+ *
+ * Truncated tool input is unusable JSON, so a reply cut off at max_tokens
+ * is requested again with twice the budget. Input that fails validation is
+ * returned with its issues for the caller to send back.
+ */
+async function requestStructuredScript(
+  client: Anthropic,
+  messages: Anthropic.MessageParam[],
+  maxTokens: number
+): Promise<ScriptResponse> {
+  let budget = maxTokens;
+  let continuations = 0;
+  let outputTokens = 0;
+
+  for (;;) {
+    const message = await client.messages.create({
+      model: getConfig().claudeModel,
+      max_tokens: budget,
+      messages,
+      tools: [SCRIPT_TOOL],
+      tool_choice: { type: 'tool', name: SCRIPT_TOOL.name },
+    });
+    outputTokens += message.usage.output_tokens;
+
+    if (message.stop_reason === 'max_tokens') {
+      if (continuations >= MAX_CONTINUATIONS) {
+        throw new Error(`Script was cut off at max_tokens (${budget}) after ${continuations} retries`);
+      }
+      continuations++;
+      budget *= 2;
+      continue;
+    }
+
+    const toolUse = message.content.find((block) => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error('No submit_script call in Claude response');
+    }
+
+    const { script: structured, issues } = validateStructuredScript(toolUse.input);
+    return {
+      text: structured ? renderScript(structured) : '',
+      structured,
+      issues: structured ? undefined : issues,
+      assistantContent: message.content,
+      toolUseId: toolUse.id,
+      stopReason: message.stop_reason,
+      continuations,
+      outputTokens,
+    };
+  }
+}
+
+/**
+ * Error for a structured script that never passed validation
+ */
+function invalidScriptError(issues: string[]): Error {
+  return new Error(`Claude returned an invalid structured script:\n${issues.join('\n')}`);
+}
+
 /**
  * Check if Claude is available
  */
@@ -0,0 +1,212 @@
+/**
+ * Persona Registry
+ *
+ * Broadcast hosts. Each persona bundles its prompt template, signature
+ * phrases, ElevenLabs voice, character image style and video branding.
+ * Built-in personas can be replaced or added to from a JSON file
+ * (PERSONAS_FILE) keyed like the location registry.
+ */
+
+import { z } from 'zod';
+import { existsSync, readFileSync } from 'node:fs';
+import { getConfig } from '../utils/config';
+
+/**
+ * ElevenLabs voice settings (eleven_v3)
+ */
+export interface PersonaVoiceSettings {
+  stability: number; // 0 = Creative, 0.5 = Natural, 1 = Robust
+  similarityBoost: number;
+  style: number;
+  useSpeakerBoost: boolean;
+}
+
+/**
+ * On-screen branding for the video
+ */
+export interface PersonaBranding {
+  hostName: string; // Shown in the corner badge and on the end card
+  showName: string; // End card subtitle, e.g. "Daily Weather"
+  signOff: string; // End card sign-off
+  primary: string; // Hex colors: highlights and headings
+  accent: string; // Accent bars, glows and the progress bar
+  background: string;
+}
+
+/**
+ * A broadcast host
+ */
+export interface PersonaConfig {
+  key: string; // Registry key, e.g. "elliot"
+  name: string; // On-air name, e.g. "Elliot Skyfall"
+  description: string;
+  template: string; // Entry template in prompts/<version>/, e.g. "broadcast"
+  signaturePhrases: string[]; // Catchphrases offered to the script prompt
+  voiceId?: string; // ElevenLabs voice ID; read from voiceIdEnv when omitted
+  voiceIdEnv: string; // Environment variable holding the voice ID (loaded with the config)
+  voiceSettings: PersonaVoiceSettings;
+  imageStyle: string; // Character image prompt (portrait, lighting, setting)
+  branding: PersonaBranding;
+}
+
+const personaKeySchema = z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be lowercase letters, digits and dashes');
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'must be a hex color like #fbbf24');
+
+/**
+ * Schema for a single registry entry (the key lives outside the entry)
+ */
+export const personaEntrySchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  template: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be a template name like "broadcast"').default('broadcast'),
+  signaturePhrases: z.array(z.string().min(1)).default([]),
+  voiceId: z.string().min(1).optional(),
+  voiceIdEnv: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'must be an environment variable name').optional(),
+  voiceSettings: z.object({
+    // eleven_v3 only accepts these stability values
+    stability: z.union([z.literal(0), z.literal(0.5), z.literal(1)]).default(0.5),
+    similarityBoost: z.number().min(0).max(1).default(0.75),
+    style: z.number().min(0).max(1).default(0), // v3 works best with style at 0
+    useSpeakerBoost: z.boolean().default(true),
+  }).default({}),
+  imageStyle: z.string().min(1),
+  branding: z.object({
+    hostName: z.string().min(1),
+    showName: z.string().min(1),
+    signOff: z.string().min(1),
+    primary: hexColorSchema,
+    accent: hexColorSchema,
+    background: hexColorSchema,
+  }),
+});
+
+export type PersonaEntry = z.input<typeof personaEntrySchema>;
+
+const registrySchema = z.record(personaKeySchema, personaEntrySchema);
+
+/**
+ * Built-in personas; PERSONAS_FILE entries add to or replace these
+ */
+export const DEFAULT_PERSONAS: Record<string, PersonaEntry> = {
+  elliot: {
+    name: 'Elliot Skyfall',
+    description: 'Contemplative late-night host in the spirit of Art Bell',
+    template: 'broadcast',
+    signaturePhrases: [
+      "This is Elliot Skyfall, and you're listening to the voice of the skies.",
+      'Keep watching the skies.',
+      "Now, here's where it gets interesting...",
+    ],
+    voiceIdEnv: 'ELLIOT_VOICE_ID',
+    voiceSettings: { stability: 0.5, similarityBoost: 0.75, style: 0, useSpeakerBoost: true },
+    imageStyle: [
+      'Create a stylized portrait of a mysterious radio broadcaster.',
+      'Style: Film noir meets 1990s talk radio. Dramatic side lighting.',
+      'The figure is silhouetted or partially lit, contemplative, knowledgeable.',
+      'Background: vintage radio equipment, glowing dials, warm amber lights.',
+      'Think: Art Bell in his studio, mysterious and inviting.',
+    ].join('\n'),
+    branding: {
+      hostName: 'Elliot Skyfall',
+      showName: 'Daily Weather',
+      signOff: 'Keep watching the skies...',
+      primary: '#fbbf24',
+      accent: '#f97316',
+      background: '#0a0a0a',
+    },
+  },
+  'morning-drive': {
+    name: 'Casey Rhodes',
+    description: 'Brisk morning-drive host: commute first, quick and upbeat',
+    template: 'morning-drive',
+    signaturePhrases: [
+      "Good morning, I'm Casey Rhodes, and this is your drive-time weather.",
+      "Here's what you need before you head out the door.",
+      "That's your forecast. Drive safe, and I'll see you tomorrow morning.",
+    ],
+    voiceIdEnv: 'MORNING_DRIVE_VOICE_ID',
+    // Creative stability gives the livelier read
+    voiceSettings: { stability: 0, similarityBoost: 0.75, style: 0, useSpeakerBoost: true },
+    imageStyle: [
+      'Create a bright portrait of an upbeat morning radio host.',
+      'Style: modern morning-drive studio, clean high-key lighting, energetic and friendly.',
+      'The host leans into the microphone mid-laugh, headphones on, coffee mug at hand.',
+      'Background: studio windows onto the city waking up, morning traffic, a glowing traffic map on a monitor.',
+    ].join('\n'),
+    branding: {
+      hostName: 'Casey Rhodes',
+      showName: 'Morning Drive Weather',
+      signOff: 'Drive safe out there...',
+      primary: '#38bdf8',
+      accent: '#facc15',
+      background: '#0b1220',
+    },
+  },
+};
+
+/**
+ * Load all personas: the built-ins plus the registry file, if any
+ */
+export function loadPersonas(): Record<string, z.infer<typeof personaEntrySchema>> {
+  const { personasFile } = getConfig();
+  let raw: Record<string, unknown> = { ...DEFAULT_PERSONAS };
+
+  if (existsSync(personasFile)) {
+    try {
+      raw = { ...raw, ...JSON.parse(readFileSync(personasFile, 'utf-8')) };
+    } catch (error) {
+      throw new Error(`Could not read personas file ${personasFile}: ${(error as Error).message}`);
+    }
+  }
+
+  const result = registrySchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid personas file ${personasFile}:\n${formatIssues(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Look up a persona by key
+ */
+export function getPersona(key: string): PersonaConfig {
+  const personas = loadPersonas();
+  const normalized = key.toLowerCase();
+  const entry = personas[normalized];
+
+  if (!entry) {
+    throw new Error(`Unknown persona: ${key}. Available: ${Object.keys(personas).join(', ')}`);
+  }
+
+  return toPersona(normalized, entry);
+}
+
+/**
+ * List all personas
+ */
+export function listPersonas(): PersonaConfig[] {
+  return Object.entries(loadPersonas()).map(([key, entry]) => toPersona(key, entry));
+}
+
+/**
+ * The persona's ElevenLabs voice ID, if configured
+ */
+export function getPersonaVoiceId(persona: PersonaConfig): string | undefined {
+  return persona.voiceId ?? getConfig().voiceIds[persona.voiceIdEnv];
+}
+
+function toPersona(key: string, entry: z.infer<typeof personaEntrySchema>): PersonaConfig {
+  return {
+    key,
+    ...entry,
+    // ELLIOT_VOICE_ID for "elliot", MORNING_DRIVE_VOICE_ID for "morning-drive"
+    voiceIdEnv: entry.voiceIdEnv ?? `${key.toUpperCase().replace(/-/g, '_')}_VOICE_ID`,
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.join('.') || 'value'}: ${issue.message}`)
+    .join('\n');
+}
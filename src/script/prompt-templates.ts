@@ -0,0 +1,64 @@
+/**
+ * Prompt Templates
+ *
+ * Versioned, file-based prompt templates. Each version is a directory under
+ * PROMPTS_DIR (prompts/v1, prompts/v2, ...) holding broadcast.md and the
+ * partials it includes under partials/. To tune Elliot, copy a version,
+ * edit the Markdown and set PROMPT_VERSION to the new directory.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfig } from '../utils/config';
+import { renderTemplate, type TemplateContext } from '../utils/template';
+
+// Entry template of every version
+export const BROADCAST_TEMPLATE = 'broadcast';
+
+/**
+ * Versions available in PROMPTS_DIR, oldest first
+ */
+export function listPromptVersions(): string[] {
+  const { promptsDir } = getConfig();
+  if (!existsSync(promptsDir)) {
+    return [];
+  }
+
+  return readdirSync(promptsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && existsSync(join(promptsDir, entry.name, `${BROADCAST_TEMPLATE}.md`)))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Render a version's template with a context
+ */
+export function renderPromptTemplate(
+  version: string,
+  context: TemplateContext,
+  name: string = BROADCAST_TEMPLATE
+): string {
+  const dir = join(getConfig().promptsDir, version);
+  const file = join(dir, `${name}.md`);
+
+  if (!existsSync(file)) {
+    const available = listPromptVersions();
+    if (available.includes(version)) {
+      throw new Error(`Prompt template "${name}" not found in version ${version} (${file})`);
+    }
+    throw new Error(`Prompt template version "${version}" not found (${file})` +
+      (available.length > 0 ? `\nAvailable: ${available.join(', ')}` : ''));
+  }
+
+  try {
+    return renderTemplate(readFileSync(file, 'utf-8'), context, partial => {
+      const partialFile = join(dir, 'partials', `${partial}.md`);
+      if (!existsSync(partialFile)) {
+        throw new Error(`Unknown partial "${partial}" (${partialFile})`);
+      }
+      return readFileSync(partialFile, 'utf-8');
+    });
+  } catch (error) {
+    throw new Error(`Prompt template ${version}/${name}: ${(error as Error).message}`);
+  }
+}
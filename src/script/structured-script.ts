@@ -0,0 +1,144 @@
+/**
+ * Structured Script
+ *
+ * Scripts as ordered segments (spoken text, emotion tags, emphasis, graphic
+ * cue and section label) requested from Claude through a tool and validated
+ * with zod. `renderScript` turns them back into the marker text that the
+ * audio, image and video stages parse.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import type { ScriptSegment, StructuredScript } from './types';
+
+/**
+ * Broadcast sections in order (ScriptSection is derived from this)
+ */
+export const SCRIPT_SECTIONS = ['opening', 'current', 'forecast', 'hazard', 'cosmic', 'closing'] as const;
+
+const MAX_GRAPHIC_SECS = 30;
+
+export const scriptSectionSchema = z.enum(SCRIPT_SECTIONS);
+
+export const scriptSegmentSchema = z.object({
+  section: scriptSectionSchema,
+  text: z.string().trim().min(1),
+  // Tolerate "[pauses]" as well as "pauses"
+  emotions: z.array(z.string().transform(tag => tag.replace(/^\[|\]$/g, '').trim()).pipe(z.string().min(1))).default([]),
+  emphasis: z.array(z.string().trim().min(1)).default([]),
+  graphic: z.object({
+    description: z.string().trim().min(1),
+    durationSecs: z.number().int().min(1).max(MAX_GRAPHIC_SECS),
+  }).optional(),
+});
+
+export const structuredScriptSchema = z.object({
+  segments: z.array(scriptSegmentSchema).min(1),
+});
+
+/**
+ * Tool Claude submits the script through
+ */
+export const SCRIPT_TOOL: Anthropic.Tool = {
+  name: 'submit_script',
+  description: 'Submit the complete broadcast script as ordered segments.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      segments: {
+        type: 'array',
+        description: 'The broadcast in order, one to three sentences per segment',
+        items: {
+          type: 'object',
+          properties: {
+            section: { type: 'string', enum: SCRIPT_SECTIONS },
+            text: { type: 'string', description: 'Spoken words only: no bracketed tags, graphic cues or asterisks' },
+            emotions: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'ElevenLabs emotion tags for the segment without brackets, e.g. "thoughtfully", "pauses"',
+            },
+            emphasis: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Exact phrases from text to stress',
+            },
+            graphic: {
+              type: 'object',
+              description: 'Graphic shown as this segment starts',
+              properties: {
+                description: { type: 'string' },
+                durationSecs: { type: 'integer', minimum: 1, maximum: MAX_GRAPHIC_SECS },
+              },
+              required: ['description', 'durationSecs'],
+            },
+          },
+          required: ['section', 'text'],
+        },
+      },
+    },
+    required: ['segments'],
+  },
+};
+
+/**
+ * Validate a submit_script tool input; `issues` lists what was rejected
+ */
+export function validateStructuredScript(input: unknown): { script?: StructuredScript; issues: string[] } {
+  const result = structuredScriptSchema.safeParse(input);
+
+  if (!result.success) {
+    return { issues: result.error.issues.map(issue => `  - ${issue.path.join('.') || 'script'}: ${issue.message}`) };
+  }
+
+  return { script: result.data, issues: [] };
+}
+
+/**
+ * tool_result content asking Claude to fix a rejected submit_script call
+ */
+export function buildStructureCorrection(issues: string[]): string {
+  return `The script was rejected by validation:
+
+${issues.join('\n')}
+
+Call submit_script again with the complete, corrected script.`;
+}
+
+/**
+ * Render segments as legacy marker text, one paragraph per segment
+ */
+export function renderScript(script: StructuredScript): string {
+  return script.segments.map(renderSegment).join('\n\n');
+}
+
+function renderSegment(segment: ScriptSegment): string {
+  const tags = segment.emotions.map(tag => `[${tag}] `).join('');
+  // "|" and "]" would end the cue early for parseGraphicCues
+  const cue = segment.graphic
+    ? `[GRAPHIC: ${segment.graphic.description.replace(/[[\]]/g, '').replace(/\|/g, '/')} | DURATION: ${segment.graphic.durationSecs}s]\n`
+    : '';
+
+  return `${cue}${tags}${emphasize(segment.text, segment.emphasis)}`;
+}
+
+/**
+ * Wrap the first occurrence of each phrase in *asterisks*
+ *
+ * Phrases missing from the text or overlapping an earlier one are skipped.
+ */
+export function emphasize(text: string, phrases: string[]): string {
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const phrase of phrases) {
+    const start = text.indexOf(phrase);
+    const end = start + phrase.length;
+    if (start >= 0 && !spans.some(span => start < span.end && end > span.start)) {
+      spans.push({ start, end });
+    }
+  }
+
+  return spans
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end }) => `${result.slice(0, start)}*${result.slice(start, end)}*${result.slice(end)}`, text);
+}
@@ -5,6 +5,9 @@
  */
 
 import type { BroadcastTimeContext } from '../utils/time-context';
+import type { WeatherData } from '../weather/types';
+import type { PersonaConfig } from './personas';
+import type { SCRIPT_SECTIONS } from './structured-script';
 
 /**
  * Graphic cue extracted from script
@@ -30,6 +33,9 @@ export interface ScriptGenerationRequest {
   staleAge?: number;
   timeContext?: BroadcastTimeContext; // Time-of-day awareness
   location?: string; // Location name (e.g., "New York City", "Denver, Colorado")
+  regionalData?: string; // Formatted "around the region" table for a regional roundup
+  facts?: WeatherData; // Structured data the script is fact-checked against (no check when absent)
+  persona?: PersonaConfig; // Host; defaults to DEFAULT_PERSONA
 }
 
 /**
@@ -41,6 +47,118 @@ export interface ScriptGenerationResult {
   estimatedDurationSecs: number;
   characterCount: number;
   wordCount: number;
+  structured?: StructuredScript; // Segments the script was rendered from (structured format only)
+  promptVersion: string; // Prompt template version the script was generated with
+  factCheck?: FactCheckReport; // Report for the returned script, when facts were provided
+  attempts: ScriptAttempt[]; // Every draft, first to last (the last is the returned script)
+}
+
+/**
+ * How Claude returns a script
+ * - structured: segments through the submit_script tool, rendered to marker text
+ * - text: free text with inline markers
+ */
+export type ScriptFormat = 'structured' | 'text';
+
+/**
+ * Broadcast section a segment belongs to
+ */
+export type ScriptSection = (typeof SCRIPT_SECTIONS)[number];
+
+/**
+ * A graphic shown as a segment starts
+ */
+export interface SegmentGraphic {
+  description: string;
+  durationSecs: number;
+}
+
+/**
+ * One stretch of the broadcast (a sentence or a few)
+ */
+export interface ScriptSegment {
+  section: ScriptSection;
+  text: string; // Spoken words only: no tags, cues or asterisks
+  emotions: string[]; // ElevenLabs tags for the segment, without brackets (e.g. "thoughtfully", "pauses")
+  emphasis: string[]; // Exact phrases from `text` to stress
+  graphic?: SegmentGraphic;
+}
+
+/**
+ * Script as ordered segments
+ */
+export interface StructuredScript {
+  segments: ScriptSegment[];
+}
+
+/**
+ * What a revise request asked Claude to fix
+ */
+export type ScriptRevision = 'too-short' | 'too-long' | 'fact-check' | 'invalid-structure';
+
+/**
+ * One draft in the generate/revise loop
+ */
+export interface ScriptAttempt {
+  attempt: number; // 1 = first draft
+  revision: ScriptRevision[]; // Fixes requested for this draft (empty for the first)
+  wordCount: number;
+  estimatedDurationSecs: number;
+  inRange: boolean; // Word count within the target range
+  stopReason: string | null; // Claude's stop_reason for the final request
+  continuations: number; // Times the response hit max_tokens (continued as text, or re-requested with a larger budget when structured)
+  outputTokens: number;
+  factCheckPassed?: boolean;
+  mismatches?: number;
+  validationIssues?: number; // submit_script input rejected by validation; the draft has no text
+}
+
+/**
+ * Spoken word budget for a target duration
+ */
+export interface WordRange {
+  target: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Kind of checkable claim in a script
+ */
+export type FactKind = 'temperature' | 'temperatureChange' | 'temperatureDeparture' | 'wind' | 'percent' | 'aqi' | 'direction' | 'hazard' | 'day';
+
+/**
+ * A claim extracted from a script or a graphic cue
+ *
+ * Numeric claims carry a range: "34 degrees" is 34-34, "the upper 30s" 37-39.
+ * Temperature changes and departures from normal carry the size, with
+ * `value` "up" or "down" when the wording gives a direction ("15 degrees
+ * colder", "5 degrees above normal").
+ */
+export interface FactClaim {
+  kind: FactKind;
+  text: string; // Matched text, spelled-out numbers as digits
+  source: 'script' | 'graphic';
+  min?: number;
+  max?: number;
+  value?: string; // Direction (e.g. "NW"), hazard name, weekday, or up/down for a change or departure
+}
+
+/**
+ * A claim the weather data does not support
+ */
+export interface FactMismatch {
+  claim: FactClaim;
+  reason: string; // e.g. "no temperature within 2°F of 45°F in the data"
+}
+
+/**
+ * Fact check outcome; `passed` is false when any claim is unsupported
+ */
+export interface FactCheckReport {
+  passed: boolean;
+  claims: FactClaim[];
+  mismatches: FactMismatch[];
 }
 
 /**
@@ -50,4 +168,6 @@ export interface PromptOptions {
   targetDurationSecs: number;
   includeHazardWarnings: boolean;
   style: 'full' | 'concise';
+  format?: ScriptFormat; // Defaults to text
+  templateVersion?: string; // Prompt template version; defaults to PROMPT_VERSION
 }
@@ -71,31 +71,22 @@ export function initializeDb() {
   const sqlite = getSqlite();
 
   // Create episodes table
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS episodes (
-      id TEXT PRIMARY KEY,
-      broadcast_date TEXT NOT NULL UNIQUE,
-      broadcast_time TEXT NOT NULL,
-      episode_number INTEGER NOT NULL,
-      status TEXT DEFAULT 'init' NOT NULL,
-      weather_data_timestamp TEXT,
-      weather_is_stale INTEGER DEFAULT 0,
-      script TEXT,
-      audio_path TEXT,
-      video_path TEXT,
-      duration_secs REAL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      completed_at TEXT,
-      error TEXT
-    )
-  `);
+  sqlite.exec(episodesTableSql('episodes'));
+
+  // Databases created before structured scripts, script attempts, prompt versions and personas lack the columns
+  const episodeColumns = sqlite.prepare('PRAGMA table_info(episodes)').all() as Array<{ name: string }>;
+  for (const column of ['script_json', 'script_attempts', 'prompt_version', 'persona']) {
+    if (!episodeColumns.some(existing => existing.name === column)) {
+      sqlite.exec(`ALTER TABLE episodes ADD COLUMN ${column} TEXT`);
+    }
+  }
 
   // Create weather_snapshots table
   sqlite.exec(`
     CREATE TABLE IF NOT EXISTS weather_snapshots (
       id TEXT PRIMARY KEY,
       episode_id TEXT REFERENCES episodes(id),
+      location TEXT,
       afd_raw TEXT,
       forecast_raw TEXT,
       parsed_data TEXT,
@@ -104,6 +95,26 @@ export function initializeDb() {
     )
   `);
 
+  // Databases created before snapshots were location-scoped lack the column;
+  // backfill it from the parsed data where that recorded the location
+  const snapshotColumns = sqlite.prepare('PRAGMA table_info(weather_snapshots)').all() as Array<{ name: string }>;
+  if (!snapshotColumns.some(column => column.name === 'location')) {
+    sqlite.exec(`
+      ALTER TABLE weather_snapshots ADD COLUMN location TEXT;
+      UPDATE weather_snapshots SET location = json_extract(parsed_data, '$.location')
+        WHERE json_valid(parsed_data);
+    `);
+  }
+
+  // Databases created before episodes were scoped by location and host have a
+  // narrower UNIQUE constraint; SQLite can't change it in place, so rebuild the table
+  const { sql: episodesSql } = sqlite
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'episodes'")
+    .get() as { sql: string };
+  if (!episodesSql.includes('UNIQUE (broadcast_date, location, persona)')) {
+    migrateEpisodesKey(sqlite);
+  }
+
   // Create image_cache table
   sqlite.exec(`
     CREATE TABLE IF NOT EXISTS image_cache (
@@ -123,12 +134,82 @@ export function initializeDb() {
   // Create indexes
   sqlite.exec(`
     CREATE INDEX IF NOT EXISTS idx_episodes_date ON episodes(broadcast_date);
+    CREATE INDEX IF NOT EXISTS idx_episodes_location ON episodes(location, episode_number);
     CREATE INDEX IF NOT EXISTS idx_episodes_status ON episodes(status);
     CREATE INDEX IF NOT EXISTS idx_weather_episode ON weather_snapshots(episode_id);
+    CREATE INDEX IF NOT EXISTS idx_weather_location ON weather_snapshots(location, fetched_at);
     CREATE INDEX IF NOT EXISTS idx_image_cache_hash ON image_cache(prompt_hash, style_version);
   `);
 }
 
+/**
+ * episodes table definition; one episode per location, broadcast date and host
+ */
+function episodesTableSql(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      broadcast_date TEXT NOT NULL,
+      location TEXT NOT NULL,
+      broadcast_time TEXT NOT NULL,
+      episode_number INTEGER NOT NULL,
+      persona TEXT NOT NULL,
+      status TEXT DEFAULT 'init' NOT NULL,
+      weather_data_timestamp TEXT,
+      weather_is_stale INTEGER DEFAULT 0,
+      script TEXT,
+      script_json TEXT,
+      script_attempts TEXT,
+      prompt_version TEXT,
+      audio_path TEXT,
+      video_path TEXT,
+      duration_secs REAL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      completed_at TEXT,
+      error TEXT,
+      UNIQUE (broadcast_date, location, persona)
+    )
+  `;
+}
+
+/**
+ * Rebuild an older episodes table with the (broadcast_date, location, persona)
+ * uniqueness. A missing location comes from the episode's latest located
+ * snapshot, else the default location (the only one before the registry);
+ * a missing host is the default persona (the only one before the registry).
+ */
+function migrateEpisodesKey(sqlite: Database.Database): void {
+  const existing = (sqlite.prepare('PRAGMA table_info(episodes)').all() as Array<{ name: string }>)
+    .map(column => column.name);
+  const columns = existing.filter(column => column !== 'location' && column !== 'persona').join(', ');
+  const snapshotLocation = `(SELECT location FROM weather_snapshots
+    WHERE episode_id = episodes.id AND location IS NOT NULL
+    ORDER BY fetched_at DESC LIMIT 1)`;
+
+  // Snapshots reference episodes(id); keep SQLite from checking them mid-rebuild
+  const foreignKeys = sqlite.pragma('foreign_keys', { simple: true });
+  sqlite.pragma('foreign_keys = OFF');
+  try {
+    sqlite.transaction(() => {
+      sqlite.exec(episodesTableSql('episodes_new'));
+      sqlite.prepare(`
+        INSERT INTO episodes_new (${columns}, location, persona)
+        SELECT ${columns},
+          COALESCE(${existing.includes('location') ? 'location, ' : ''}${snapshotLocation}, ?),
+          COALESCE(persona, ?)
+        FROM episodes
+      `).run(getConfig().defaultLocation, getConfig().defaultPersona);
+      sqlite.exec(`
+        DROP TABLE episodes;
+        ALTER TABLE episodes_new RENAME TO episodes;
+      `);
+    })();
+  } finally {
+    sqlite.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+}
+
 // Re-export schema for convenience
 export { schema };
 export const db = {
@@ -4,16 +4,18 @@
  * Minimal SQLite schema for episode tracking and weather data caching.
  */
 
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, unique } from 'drizzle-orm/sqlite-core';
 
 /**
- * Episodes table - tracks each daily broadcast
+ * Episodes table - tracks each daily broadcast, one per location, date and host
  */
 export const episodes = sqliteTable('episodes', {
   id: text('id').primaryKey(),
-  broadcastDate: text('broadcast_date').notNull().unique(),
+  broadcastDate: text('broadcast_date').notNull(),
+  location: text('location').notNull(), // Location registry key, e.g. "denver"
   broadcastTime: text('broadcast_time').notNull(),
   episodeNumber: integer('episode_number').notNull(),
+  persona: text('persona').notNull(), // Persona registry key of the host
 
   // State machine status
   status: text('status', {
@@ -25,7 +27,10 @@ export const episodes = sqliteTable('episodes', {
   weatherIsStale: integer('weather_is_stale', { mode: 'boolean' }).default(false),
 
   // Generated content
-  script: text('script'),
+  script: text('script'), // Marker text, rendered from scriptJson for structured scripts
+  scriptJson: text('script_json'), // JSON StructuredScript
+  scriptAttempts: text('script_attempts'), // JSON ScriptAttempt[] from the generate/revise loop
+  promptVersion: text('prompt_version'), // Prompt template version (prompts/<version>)
   audioPath: text('audio_path'),
   videoPath: text('video_path'),
   durationSecs: real('duration_secs'),
@@ -35,7 +40,9 @@ export const episodes = sqliteTable('episodes', {
   updatedAt: text('updated_at').default('CURRENT_TIMESTAMP'),
   completedAt: text('completed_at'),
   error: text('error'),
-});
+}, (table) => [
+  unique().on(table.broadcastDate, table.location, table.persona),
+]);
 
 /**
  * Weather snapshots - cached weather data for fallback
@@ -43,6 +50,7 @@ export const episodes = sqliteTable('episodes', {
 export const weatherSnapshots = sqliteTable('weather_snapshots', {
   id: text('id').primaryKey(),
   episodeId: text('episode_id').references(() => episodes.id),
+  location: text('location'), // Location registry key, e.g. "denver"
 
   // Raw data from NWS
   afdRaw: text('afd_raw'),
@@ -0,0 +1,366 @@
+/**
+ * Astronomy Utility
+ *
+ * Offline sun and moon calculations for a location and date: sunrise,
+ * sunset, civil twilight, moon phase, illumination and moonrise. Uses the
+ * low-precision formulas from Jean Meeus' "Astronomical Algorithms" (as
+ * popularized by SunCalc), good to a minute or two - plenty for radio.
+ */
+
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397; // Obliquity of the Earth's axis
+
+// Sun altitudes (degrees) that define the events
+const SUNRISE_ALTITUDE = -0.833; // Upper limb on the horizon, with refraction
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+// Moon altitude correction for its apparent radius and refraction
+const MOON_HORIZON_ALTITUDE = 0.133;
+
+/**
+ * Sun events for a local day; null when the event doesn't happen
+ * (midnight sun or polar night)
+ */
+export interface SunTimes {
+  solarNoon: Date;
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+}
+
+export type MoonPhaseName =
+  | 'new moon'
+  | 'waxing crescent'
+  | 'first quarter'
+  | 'waxing gibbous'
+  | 'full moon'
+  | 'waning gibbous'
+  | 'last quarter'
+  | 'waning crescent';
+
+/**
+ * Moon phase and rise/set times for a local day
+ */
+export interface MoonInfo {
+  phase: number; // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  phaseName: MoonPhaseName;
+  illumination: number; // Illuminated fraction of the disc (0-100%)
+  moonrise: Date | null; // null when the moon doesn't rise that day
+  moonset: Date | null;
+}
+
+/**
+ * Sun and moon context for a broadcast
+ */
+export interface AstronomyContext {
+  sun: SunTimes;
+  moon: MoonInfo;
+  sunAltitude: number; // Degrees above the horizon at the broadcast instant
+  moonAltitude: number;
+}
+
+/**
+ * Where the sun is, in broadcast terms
+ */
+export type SkyPhase = 'day' | 'golden-hour' | 'twilight' | 'night';
+
+interface Position {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Compute the astronomy for a broadcast
+ *
+ * `dayStart` is local midnight of the broadcast date, so rise/set times
+ * belong to the local calendar day; `instant` is the broadcast moment.
+ */
+export function getAstronomy(position: Position, dayStart: Date, instant: Date): AstronomyContext {
+  const localNoon = new Date(dayStart.getTime() + DAY_MS / 2);
+
+  return {
+    sun: getSunTimes(localNoon, position),
+    moon: getMoonInfo(dayStart, position),
+    sunAltitude: round1(getSunAltitude(instant, position)),
+    moonAltitude: round1(getMoonAltitude(instant, position)),
+  };
+}
+
+/**
+ * Sunrise, sunset, civil twilight and solar noon for the day containing `date`
+ */
+export function getSunTimes(date: Date, { lat, lon }: Position): SunTimes {
+  const lw = RAD * -lon;
+  const phi = RAD * lat;
+
+  const n = julianCycle(toDays(date), lw);
+  const ds = approxTransit(0, lw, n);
+  const M = solarMeanAnomaly(ds);
+  const L = eclipticLongitude(M);
+  const dec = declination(L, 0);
+  const jNoon = solarTransitJ(ds, M, L);
+
+  const event = (altitude: number): [Date | null, Date | null] => {
+    const w = hourAngle(altitude * RAD, phi, dec);
+    if (Number.isNaN(w)) return [null, null];
+    const jSet = solarTransitJ(approxTransit(w, lw, n), M, L);
+    const jRise = jNoon - (jSet - jNoon);
+    return [fromJulian(jRise), fromJulian(jSet)];
+  };
+
+  const [sunrise, sunset] = event(SUNRISE_ALTITUDE);
+  const [civilDawn, civilDusk] = event(CIVIL_TWILIGHT_ALTITUDE);
+
+  return { solarNoon: fromJulian(jNoon), sunrise, sunset, civilDawn, civilDusk };
+}
+
+/**
+ * Moon phase at local noon and moonrise/moonset within the 24 hours from `dayStart`
+ */
+export function getMoonInfo(dayStart: Date, position: Position): MoonInfo {
+  const { phase, fraction } = getMoonIllumination(new Date(dayStart.getTime() + DAY_MS / 2));
+  const { rise, set } = getMoonTimes(dayStart, position);
+
+  return {
+    phase: Math.round(phase * 1000) / 1000,
+    phaseName: getMoonPhaseName(phase),
+    illumination: Math.round(fraction * 100),
+    moonrise: rise,
+    moonset: set,
+  };
+}
+
+/**
+ * Name for a phase fraction; the quarters and new/full each get about a day
+ */
+export function getMoonPhaseName(phase: number): MoonPhaseName {
+  const PRINCIPAL_WINDOW = 1 / 29.53; // One day of the synodic month on either side
+
+  if (phase < PRINCIPAL_WINDOW || phase > 1 - PRINCIPAL_WINDOW) return 'new moon';
+  if (Math.abs(phase - 0.25) < PRINCIPAL_WINDOW) return 'first quarter';
+  if (Math.abs(phase - 0.5) < PRINCIPAL_WINDOW) return 'full moon';
+  if (Math.abs(phase - 0.75) < PRINCIPAL_WINDOW) return 'last quarter';
+  if (phase < 0.25) return 'waxing crescent';
+  if (phase < 0.5) return 'waxing gibbous';
+  if (phase < 0.75) return 'waning gibbous';
+  return 'waning crescent';
+}
+
+/**
+ * Phase as a noun phrase: "waxing gibbous moon", "full moon"
+ */
+export function describeMoonPhase(moon: MoonInfo): string {
+  return moon.phaseName.endsWith('moon') ? moon.phaseName : `${moon.phaseName} moon`;
+}
+
+/**
+ * Classify the sun's altitude
+ */
+export function getSkyPhase(astronomy: AstronomyContext): SkyPhase {
+  const { sunAltitude } = astronomy;
+  if (sunAltitude >= 6) return 'day';
+  if (sunAltitude >= 0) return 'golden-hour';
+  if (sunAltitude >= CIVIL_TWILIGHT_ALTITUDE) return 'twilight';
+  return 'night';
+}
+
+/**
+ * Whether the moon is above the horizon at the broadcast instant
+ */
+export function isMoonUp(astronomy: AstronomyContext): boolean {
+  return astronomy.moonAltitude > 0;
+}
+
+/**
+ * Lighting description of the actual sky, for image prompts
+ */
+export function describeSkyLighting(astronomy: AstronomyContext): string {
+  const { moon } = astronomy;
+
+  switch (getSkyPhase(astronomy)) {
+    case 'day':
+      return 'Sun well above the horizon, natural daylight';
+    case 'golden-hour':
+      return 'Sun low on the horizon, warm golden light, long shadows';
+    case 'twilight':
+      return 'Sun just below the horizon, civil twilight, glowing horizon under a deepening blue sky';
+    case 'night':
+      if (!isMoonUp(astronomy) || moon.illumination < 5) {
+        return 'Dark moonless night, stars visible, city lights glowing';
+      }
+      if (moon.illumination >= 50) {
+        return `Night sky lit by a ${describeMoonPhase(moon)} (${moon.illumination}% illuminated), silvery moonlight, soft shadows`;
+      }
+      return `Dark night with a thin ${describeMoonPhase(moon)}, stars visible, city lights glowing`;
+  }
+}
+
+// --- Solar and lunar position formulas ---
+
+function toDays(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(j: number): Date {
+  return new Date((j + 0.5 - J1970) * DAY_MS);
+}
+
+function rightAscension(l: number, b: number): number {
+  return Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY), Math.cos(l));
+}
+
+function declination(l: number, b: number): number {
+  return Math.asin(Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l));
+}
+
+function altitude(H: number, phi: number, dec: number): number {
+  return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(H));
+}
+
+function siderealTime(d: number, lw: number): number {
+  return RAD * (280.16 + 360.9856235 * d) - lw;
+}
+
+function solarMeanAnomaly(d: number): number {
+  return RAD * (357.5291 + 0.98560028 * d);
+}
+
+function eclipticLongitude(M: number): number {
+  const center = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M));
+  const perihelion = RAD * 102.9372;
+  return M + center + perihelion + Math.PI;
+}
+
+function sunCoords(d: number): { dec: number; ra: number } {
+  const L = eclipticLongitude(solarMeanAnomaly(d));
+  return { dec: declination(L, 0), ra: rightAscension(L, 0) };
+}
+
+function getSunAltitude(date: Date, { lat, lon }: Position): number {
+  const d = toDays(date);
+  const c = sunCoords(d);
+  return altitude(siderealTime(d, RAD * -lon) - c.ra, RAD * lat, c.dec) / RAD;
+}
+
+const J0 = 0.0009;
+
+function julianCycle(d: number, lw: number): number {
+  return Math.round(d - J0 - lw / (2 * Math.PI));
+}
+
+function approxTransit(Ht: number, lw: number, n: number): number {
+  return J0 + (Ht + lw) / (2 * Math.PI) + n;
+}
+
+function solarTransitJ(ds: number, M: number, L: number): number {
+  return J2000 + ds + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * L);
+}
+
+// NaN when the sun never reaches the altitude that day
+function hourAngle(h: number, phi: number, dec: number): number {
+  return Math.acos((Math.sin(h) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec)));
+}
+
+function moonCoords(d: number): { ra: number; dec: number; dist: number } {
+  const L = RAD * (218.316 + 13.176396 * d); // Ecliptic longitude
+  const M = RAD * (134.963 + 13.064993 * d); // Mean anomaly
+  const F = RAD * (93.272 + 13.229350 * d); // Mean distance
+
+  const l = L + RAD * 6.289 * Math.sin(M);
+  const b = RAD * 5.128 * Math.sin(F);
+  const dist = 385001 - 20905 * Math.cos(M); // km
+
+  return { ra: rightAscension(l, b), dec: declination(l, b), dist };
+}
+
+function astroRefraction(h: number): number {
+  const clamped = Math.max(h, 0);
+  return 0.0002967 / Math.tan(clamped + 0.00312536 / (clamped + 0.08901179));
+}
+
+function getMoonAltitude(date: Date, { lat, lon }: Position): number {
+  const d = toDays(date);
+  const c = moonCoords(d);
+  const h = altitude(siderealTime(d, RAD * -lon) - c.ra, RAD * lat, c.dec);
+  return (h + astroRefraction(h)) / RAD;
+}
+
+function getMoonIllumination(date: Date): { fraction: number; phase: number } {
+  const d = toDays(date);
+  const s = sunCoords(d);
+  const m = moonCoords(d);
+  const SUN_DISTANCE = 149598000; // km
+
+  const elongation = Math.acos(
+    Math.sin(s.dec) * Math.sin(m.dec) + Math.cos(s.dec) * Math.cos(m.dec) * Math.cos(s.ra - m.ra)
+  );
+  const inc = Math.atan2(SUN_DISTANCE * Math.sin(elongation), m.dist - SUN_DISTANCE * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(s.dec) * Math.sin(s.ra - m.ra),
+    Math.sin(s.dec) * Math.cos(m.dec) - Math.cos(s.dec) * Math.sin(m.dec) * Math.cos(s.ra - m.ra)
+  );
+
+  return {
+    fraction: (1 + Math.cos(inc)) / 2,
+    phase: 0.5 + (0.5 * inc * (angle < 0 ? -1 : 1)) / Math.PI,
+  };
+}
+
+/**
+ * Moonrise and moonset by fitting a parabola to the moon's altitude
+ * over successive two-hour windows
+ */
+function getMoonTimes(dayStart: Date, position: Position): { rise: Date | null; set: Date | null } {
+  const altitudeAt = (hours: number) =>
+    getMoonAltitude(new Date(dayStart.getTime() + hours * 60 * 60 * 1000), position) - MOON_HORIZON_ALTITUDE;
+
+  let rise: number | undefined;
+  let set: number | undefined;
+  let h0 = altitudeAt(0);
+
+  for (let i = 1; i <= 24; i += 2) {
+    const h1 = altitudeAt(i);
+    const h2 = altitudeAt(i + 1);
+
+    const a = (h0 + h2) / 2 - h1;
+    const b = (h2 - h0) / 2;
+    const xe = -b / (2 * a);
+    const ye = (a * xe + b) * xe + h1;
+    const discriminant = b * b - 4 * a * h1;
+
+    let roots = 0;
+    let x1 = 0;
+    let x2 = 0;
+    if (discriminant >= 0) {
+      const dx = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+      x1 = xe - dx;
+      x2 = xe + dx;
+      if (Math.abs(x1) <= 1) roots++;
+      if (Math.abs(x2) <= 1) roots++;
+      if (x1 < -1) x1 = x2;
+    }
+
+    if (roots === 1) {
+      if (h0 < 0) rise = i + x1;
+      else set = i + x1;
+    } else if (roots === 2) {
+      rise = i + (ye < 0 ? x2 : x1);
+      set = i + (ye < 0 ? x1 : x2);
+    }
+
+    if (rise !== undefined && set !== undefined) break;
+    h0 = h2;
+  }
+
+  const toDate = (hours: number | undefined) =>
+    hours === undefined ? null : new Date(dayStart.getTime() + hours * 60 * 60 * 1000);
+
+  return { rise: toDate(rise), set: toDate(set) };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
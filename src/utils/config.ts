@@ -24,13 +24,31 @@ const configSchema = z.object({
   targetDurationSecs: z.coerce.number().min(60).max(600).default(180),
   episodeStartNumber: z.coerce.number().min(1).default(1),
 
+  // Weather Data
+  weatherSource: z.enum(['api', 'html']).default('api'),
+  defaultLocation: z.string().default('denver'),
+  locationsFile: z.string().default('./locations.json'),
+  defaultPersona: z.string().default('elliot'),
+  personasFile: z.string().default('./personas.json'),
+  glossaryFile: z.string().default('./afd-glossary.json'),
+  fallbackMaxAgeHours: z.coerce.number().min(1).default(24),
+  openMeteoUrl: z.string().url().default('https://api.open-meteo.com/v1/forecast'),
+  climateDir: z.string().default('./climate'),
+  airNowApiKey: emptyToUndefined,
+  airNowUrl: z.string().url().default('https://www.airnowapi.org'),
+
   // Claude (Script Generation)
   anthropicApiKey: emptyToUndefined,
   claudeModel: z.string().default('claude-sonnet-4-20250514'),
+  promptsDir: z.string().default('./prompts'),
+  promptVersion: z.string().default('v1'),
+  scriptFormat: z.enum(['structured', 'text']).default('text'),
+  factCheckMode: z.enum(['regenerate', 'block', 'off']).default('regenerate'),
+  scriptMaxRevisions: z.coerce.number().min(0).max(5).default(2),
 
   // ElevenLabs (Audio)
   elevenlabsApiKey: emptyToUndefined,
-  elliotVoiceId: emptyToUndefined,
+  voiceIds: z.record(z.string(), z.string().min(1)).default({}), // Every <KEY>_VOICE_ID variable, by name, for persona lookups
 
   // Image Generation
   imageProvider: z.enum(['gemini', 'openai']).default('gemini'),
@@ -40,6 +58,7 @@ const configSchema = z.object({
   // Paths
   outputDir: z.string().default('./output'),
   cacheDir: z.string().default('./cache'),
+  httpRetryPolicies: emptyToUndefined, // JSON, validated by the HTTP cache
   databasePath: z.string().default('./data/elliot.db'),
 
   // Style Versioning
@@ -61,15 +80,34 @@ export function loadConfig(): Config {
     broadcastTime: process.env.BROADCAST_TIME,
     targetDurationSecs: process.env.TARGET_DURATION_SECS,
     episodeStartNumber: process.env.EPISODE_START_NUMBER,
+    weatherSource: process.env.WEATHER_SOURCE,
+    defaultLocation: process.env.DEFAULT_LOCATION,
+    locationsFile: process.env.LOCATIONS_FILE,
+    defaultPersona: process.env.DEFAULT_PERSONA,
+    personasFile: process.env.PERSONAS_FILE,
+    glossaryFile: process.env.AFD_GLOSSARY_FILE,
+    fallbackMaxAgeHours: process.env.FALLBACK_MAX_AGE_HOURS,
+    openMeteoUrl: process.env.OPEN_METEO_URL,
+    climateDir: process.env.CLIMATE_DIR,
+    airNowApiKey: process.env.AIRNOW_API_KEY,
+    airNowUrl: process.env.AIRNOW_URL,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     claudeModel: process.env.CLAUDE_MODEL,
+    promptsDir: process.env.PROMPTS_DIR,
+    promptVersion: process.env.PROMPT_VERSION,
+    scriptFormat: process.env.SCRIPT_FORMAT,
+    factCheckMode: process.env.FACT_CHECK_MODE,
+    scriptMaxRevisions: process.env.SCRIPT_MAX_REVISIONS,
     elevenlabsApiKey: process.env.ELEVENLABS_API_KEY,
-    elliotVoiceId: process.env.ELLIOT_VOICE_ID,
+    voiceIds: Object.fromEntries(
+      Object.entries(process.env).filter(([name, value]) => name.endsWith('_VOICE_ID') && value)
+    ),
     imageProvider: process.env.IMAGE_PROVIDER,
     geminiApiKey: process.env.GEMINI_API_KEY,
     openaiApiKey: process.env.OPENAI_API_KEY,
     outputDir: process.env.OUTPUT_DIR,
     cacheDir: process.env.CACHE_DIR,
+    httpRetryPolicies: process.env.HTTP_RETRY_POLICIES,
     databasePath: process.env.DATABASE_PATH,
     styleVersion: process.env.STYLE_VERSION,
     debug: process.env.DEBUG,
@@ -99,8 +137,11 @@ export function getConfig(): Config {
 
 /**
  * Validate that required API keys are present for a given operation
+ *
+ * Audio is checked per host with isElevenLabsAvailable(persona), since the
+ * voice ID depends on the persona.
  */
-export function validateApiKeys(operation: 'script' | 'audio' | 'image' | 'all'): void {
+export function validateApiKeys(operation: 'script' | 'image' | 'all'): void {
   const config = getConfig();
   const missing: string[] = [];
 
@@ -110,15 +151,6 @@ export function validateApiKeys(operation: 'script' | 'audio' | 'image' | 'all')
     }
   }
 
-  if (operation === 'audio' || operation === 'all') {
-    if (!config.elevenlabsApiKey) {
-      missing.push('ELEVENLABS_API_KEY (required for audio synthesis)');
-    }
-    if (!config.elliotVoiceId) {
-      missing.push('ELLIOT_VOICE_ID (required for audio synthesis)');
-    }
-  }
-
   if (operation === 'image' || operation === 'all') {
     if (config.imageProvider === 'gemini' && !config.geminiApiKey) {
       missing.push('GEMINI_API_KEY (required for image generation)');
@@ -0,0 +1,500 @@
+/**
+ * HTTP Cache
+ *
+ * Caching GET client for weather endpoints. Responses are stored under
+ * `{cacheDir}/http` and reused while fresh (Cache-Control / Expires, or a
+ * per-endpoint default), then revalidated with ETag / Last-Modified.
+ * Concurrent requests for the same URL share one fetch, retries follow a
+ * per-endpoint policy, and latency and failures are recorded per endpoint
+ * in memory and added to the stored totals when the process exits.
+ */
+
+import { z } from 'zod';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { getConfig } from './config';
+
+/**
+ * How an endpoint is retried and cached
+ */
+export interface EndpointPolicy {
+  retries: number; // Attempts after the first
+  retryDelayMs: number; // First backoff delay; doubles on each retry
+  timeoutMs: number; // Per attempt
+  defaultMaxAgeSecs: number; // Freshness when the response sets no Cache-Control/Expires
+}
+
+const endpointPolicySchema = z.object({
+  retries: z.number().int().min(0).max(10),
+  retryDelayMs: z.number().int().min(0),
+  timeoutMs: z.number().int().min(1000),
+  defaultMaxAgeSecs: z.number().int().min(0),
+}).partial();
+
+/**
+ * Built-in policies, overridable per endpoint with HTTP_RETRY_POLICIES
+ */
+export const DEFAULT_ENDPOINT_POLICIES: Record<string, EndpointPolicy> = {
+  default: { retries: 2, retryDelayMs: 1000, timeoutMs: 20000, defaultMaxAgeSecs: 0 },
+  'nws-points': { retries: 2, retryDelayMs: 500, timeoutMs: 15000, defaultMaxAgeSecs: 24 * 60 * 60 },
+  'nws-stations': { retries: 2, retryDelayMs: 500, timeoutMs: 15000, defaultMaxAgeSecs: 24 * 60 * 60 },
+  'nws-products': { retries: 2, retryDelayMs: 1000, timeoutMs: 20000, defaultMaxAgeSecs: 10 * 60 },
+  'nws-forecast': { retries: 3, retryDelayMs: 1000, timeoutMs: 30000, defaultMaxAgeSecs: 15 * 60 },
+  'nws-observations': { retries: 1, retryDelayMs: 500, timeoutMs: 15000, defaultMaxAgeSecs: 5 * 60 },
+  'nws-alerts': { retries: 1, retryDelayMs: 500, timeoutMs: 15000, defaultMaxAgeSecs: 60 },
+  'nws-afd-page': { retries: 2, retryDelayMs: 1000, timeoutMs: 20000, defaultMaxAgeSecs: 10 * 60 },
+  'nws-forecast-page': { retries: 2, retryDelayMs: 1000, timeoutMs: 30000, defaultMaxAgeSecs: 15 * 60 },
+  'open-meteo': { retries: 2, retryDelayMs: 1000, timeoutMs: 20000, defaultMaxAgeSecs: 15 * 60 },
+  airnow: { retries: 1, retryDelayMs: 1000, timeoutMs: 15000, defaultMaxAgeSecs: 30 * 60 },
+};
+
+/**
+ * Request options
+ */
+export interface CachedFetchOptions {
+  endpoint: string; // Policy and stats key, e.g. "nws-forecast"
+  headers?: Record<string, string>;
+}
+
+/**
+ * Response body with where it came from
+ * - hit: served from cache without a request
+ * - revalidated: server answered 304 Not Modified
+ * - miss: downloaded
+ */
+export interface CachedResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+  cache: 'hit' | 'revalidated' | 'miss';
+}
+
+/**
+ * Request statistics for one endpoint
+ */
+export interface EndpointStats {
+  requests: number;
+  cacheHits: number;
+  shared: number; // Joined a request already in flight
+  revalidated: number;
+  downloads: number;
+  retries: number;
+  failures: number;
+  roundTrips: number; // Network requests, including retries
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+  lastError?: string;
+  lastRequestAt?: string;
+}
+
+/**
+ * Cache file contents
+ */
+interface CacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: string;
+  expiresAt: string; // Fresh until; revalidated after
+}
+
+// Network errors, rate limiting and server errors are worth retrying; other 4xx are not
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+// Query parameters that carry credentials, masked wherever a URL is stored or reported
+const SECRET_PARAMS = /^(api[_-]?key|key|token|access[_-]?token)$/i;
+
+const inFlight = new Map<string, Promise<CachedResponse>>();
+const sessionStats = new Map<string, EndpointStats>();
+let flushScheduled = false;
+let policyOverrides: Record<string, Partial<EndpointPolicy>> | null = null;
+
+/**
+ * GET a URL through the cache
+ *
+ * Non-OK responses are returned (not thrown) so callers keep their own
+ * error messages; network failures are thrown after the last retry.
+ */
+export function cachedFetch(url: string, options: CachedFetchOptions): Promise<CachedResponse> {
+  const key = cacheKey(url, options.headers);
+
+  // Share one request between concurrent callers
+  const pending = inFlight.get(key);
+  if (pending) {
+    recordStats(options.endpoint, stats => { stats.requests++; stats.shared++; });
+    return pending;
+  }
+
+  const request = fetchThroughCache(url, key, options).finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Effective retry/cache policy for an endpoint
+ */
+export function getEndpointPolicy(endpoint: string): EndpointPolicy {
+  return {
+    ...DEFAULT_ENDPOINT_POLICIES.default,
+    ...DEFAULT_ENDPOINT_POLICIES[endpoint],
+    ...loadPolicyOverrides().default,
+    ...loadPolicyOverrides()[endpoint],
+  };
+}
+
+/**
+ * Retry hooks
+ */
+interface RetryOptions {
+  shouldRetry?: (error: Error) => boolean; // Defaults to retrying every error
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run an operation with an endpoint's retry policy (exponential backoff)
+ */
+async function withRetry<T>(
+  endpoint: string,
+  operation: (attempt: number) => Promise<T>,
+  { shouldRetry = () => true, onRetry }: RetryOptions = {}
+): Promise<T> {
+  const policy = getEndpointPolicy(endpoint);
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= policy.retries + 1; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error as Error;
+      if (attempt <= policy.retries && shouldRetry(lastError)) {
+        const delay = policy.retryDelayMs * Math.pow(2, attempt - 1);
+        onRetry?.(lastError, attempt, delay);
+        await sleep(delay);
+      } else {
+        break;
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Request statistics for this process, or accumulated across runs
+ */
+export function getHttpStats(cumulative: boolean = false): Record<string, EndpointStats> {
+  return cumulative ? mergeStats(loadStoredStats(), sessionStats) : Object.fromEntries(sessionStats);
+}
+
+/**
+ * Add this process's stats to the stored totals (runs once, at exit)
+ */
+export function flushHttpStats(): void {
+  if (sessionStats.size === 0) {
+    return;
+  }
+
+  try {
+    const merged = mergeStats(loadStoredStats(), sessionStats);
+    writeFileSync(join(getCacheDir(), 'stats.json'), JSON.stringify(merged, null, 2));
+    sessionStats.clear();
+  } catch (error) {
+    console.log(`  Warning: Failed to record HTTP stats: ${error}`);
+  }
+}
+
+/**
+ * One line per endpoint, e.g. "nws-forecast: 3 requests (2 cached, 1 revalidated), avg 420ms, 0 failures"
+ */
+export function formatHttpStats(stats: Record<string, EndpointStats>): string[] {
+  return Object.entries(stats)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([endpoint, s]) => {
+      const latency = s.roundTrips > 0 ? `avg ${Math.round(s.totalLatencyMs / s.roundTrips)}ms, max ${s.maxLatencyMs}ms` : 'no network';
+      const failures = `${s.failures} failure${s.failures === 1 ? '' : 's'}${s.retries > 0 ? ` (${s.retries} retries)` : ''}`;
+      const reused = [`${s.cacheHits} cached`, `${s.revalidated} revalidated`, ...(s.shared > 0 ? [`${s.shared} shared`] : [])];
+      return `${endpoint}: ${s.requests} request${s.requests === 1 ? '' : 's'} (${reused.join(', ')}), ${latency}, ${failures}` +
+        (s.lastError ? ` - last error: ${s.lastError}` : '');
+    });
+}
+
+async function fetchThroughCache(url: string, key: string, options: CachedFetchOptions): Promise<CachedResponse> {
+  const { endpoint } = options;
+  const policy = getEndpointPolicy(endpoint);
+  const cached = readEntry(key);
+  const displayUrl = redactUrl(url);
+
+  if (cached && new Date(cached.expiresAt).getTime() > Date.now()) {
+    recordStats(endpoint, stats => { stats.requests++; stats.cacheHits++; });
+    return { ok: true, status: cached.status, statusText: cached.statusText, body: cached.body, cache: 'hit' };
+  }
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+  let retries = 0;
+  try {
+    const result = await withRetry(
+      endpoint,
+      async () => {
+        const started = Date.now();
+        const response = await fetch(url, { headers, signal: AbortSignal.timeout(policy.timeoutMs) });
+        recordLatency(endpoint, Date.now() - started);
+
+        if (RETRYABLE_STATUS.has(response.status)) {
+          throw new HttpStatusError(response.status, response.statusText, displayUrl);
+        }
+        return response;
+      },
+      { shouldRetry: isRetryable, onRetry: () => { retries++; } }
+    );
+
+    if (result.status === 304 && cached) {
+      const refreshed: CacheEntry = { ...cached, expiresAt: expiresAt(result.headers, policy), storedAt: new Date().toISOString() };
+      writeEntry(key, refreshed);
+      recordStats(endpoint, stats => { stats.requests++; stats.revalidated++; stats.retries += retries; });
+      return { ok: true, status: cached.status, statusText: cached.statusText, body: cached.body, cache: 'revalidated' };
+    }
+
+    const body = await result.text();
+    if (result.ok && !/no-store/i.test(result.headers.get('cache-control') || '')) {
+      writeEntry(key, {
+        url: displayUrl,
+        status: result.status,
+        statusText: result.statusText,
+        body,
+        etag: result.headers.get('etag') || undefined,
+        lastModified: result.headers.get('last-modified') || undefined,
+        storedAt: new Date().toISOString(),
+        expiresAt: expiresAt(result.headers, policy),
+      });
+    }
+
+    recordStats(endpoint, stats => {
+      stats.requests++;
+      stats.downloads++;
+      stats.retries += retries;
+      if (!result.ok) {
+        stats.failures++;
+        stats.lastError = `${result.status} ${result.statusText}`;
+      }
+    });
+    return { ok: result.ok, status: result.status, statusText: result.statusText, body, cache: 'miss' };
+  } catch (error) {
+    recordStats(endpoint, stats => {
+      stats.requests++;
+      stats.failures++;
+      stats.retries += retries;
+      stats.lastError = (error as Error).message.split(url).join(displayUrl);
+    });
+
+    // Retryable statuses surface as a response once retries are exhausted
+    if (error instanceof HttpStatusError) {
+      return { ok: false, status: error.status, statusText: error.statusText, body: '', cache: 'miss' };
+    }
+    throw error;
+  }
+}
+
+class HttpStatusError extends Error {
+  constructor(readonly status: number, readonly statusText: string, url: string) {
+    super(`${status} ${statusText} (${url})`);
+  }
+}
+
+/**
+ * URL with credential query parameters masked, e.g. "...?API_KEY=REDACTED"
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  let redacted = false;
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.test(name)) {
+      parsed.searchParams.set(name, 'REDACTED');
+      redacted = true;
+    }
+  }
+  return redacted ? parsed.toString() : url;
+}
+
+/**
+ * Network errors, timeouts and retryable statuses are retried; anything else is final
+ */
+function isRetryable(error: Error): boolean {
+  return error instanceof HttpStatusError || error.name === 'TimeoutError' || error.name === 'TypeError';
+}
+
+/**
+ * Freshness deadline from Cache-Control (max-age, no-cache) or Expires,
+ * falling back to the endpoint's default
+ */
+function expiresAt(headers: Headers, policy: EndpointPolicy): string {
+  const cacheControl = headers.get('cache-control') || '';
+  let maxAgeSecs = policy.defaultMaxAgeSecs;
+
+  const maxAge = cacheControl.match(/(?:^|,)\s*max-age=(\d+)/i);
+  if (/no-cache/i.test(cacheControl)) {
+    maxAgeSecs = 0;
+  } else if (maxAge) {
+    maxAgeSecs = parseInt(maxAge[1], 10);
+  } else if (headers.get('expires')) {
+    const expires = new Date(headers.get('expires')!).getTime();
+    if (!Number.isNaN(expires)) {
+      maxAgeSecs = Math.max(0, Math.round((expires - Date.now()) / 1000));
+    }
+  }
+
+  return new Date(Date.now() + maxAgeSecs * 1000).toISOString();
+}
+
+function cacheKey(url: string, headers?: Record<string, string>): string {
+  // Accept changes the representation (e.g. JSON-LD vs GeoJSON), so it is part of the key
+  const accept = headers?.Accept ?? headers?.accept ?? '';
+  return createHash('sha256').update(`${url}|${accept}`).digest('hex').slice(0, 32);
+}
+
+function getCacheDir(): string {
+  const dir = join(getConfig().cacheDir, 'http');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+function readEntry(key: string): CacheEntry | null {
+  const path = join(getCacheDir(), `${key}.json`);
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry;
+  } catch {
+    return null; // A corrupt entry is just a miss
+  }
+}
+
+function writeEntry(key: string, entry: CacheEntry): void {
+  try {
+    writeFileSync(join(getCacheDir(), `${key}.json`), JSON.stringify(entry));
+  } catch (error) {
+    // Don't fail the request if the cache can't be written
+    console.log(`  Warning: Failed to write HTTP cache entry: ${error}`);
+  }
+}
+
+/**
+ * Per-endpoint overrides from HTTP_RETRY_POLICIES, e.g. {"nws-forecast":{"retries":5}}
+ */
+function loadPolicyOverrides(): Record<string, Partial<EndpointPolicy>> {
+  if (policyOverrides) {
+    return policyOverrides;
+  }
+
+  const raw = getConfig().httpRetryPolicies;
+  if (!raw) {
+    return (policyOverrides = {});
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`HTTP_RETRY_POLICIES is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const result = z.record(z.string(), endpointPolicySchema).safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || 'value'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid HTTP_RETRY_POLICIES:\n${issues}`);
+  }
+
+  return (policyOverrides = result.data);
+}
+
+function emptyStats(): EndpointStats {
+  return {
+    requests: 0, cacheHits: 0, shared: 0, revalidated: 0, downloads: 0,
+    retries: 0, failures: 0, roundTrips: 0, totalLatencyMs: 0, maxLatencyMs: 0,
+  };
+}
+
+function recordLatency(endpoint: string, latencyMs: number): void {
+  recordStats(endpoint, stats => {
+    stats.roundTrips++;
+    stats.totalLatencyMs += latencyMs;
+    stats.maxLatencyMs = Math.max(stats.maxLatencyMs, latencyMs);
+  });
+}
+
+/**
+ * Apply an update to this process's stats
+ */
+function recordStats(endpoint: string, update: (stats: EndpointStats) => void): void {
+  const session = sessionStats.get(endpoint) ?? emptyStats();
+  update(session);
+  session.lastRequestAt = new Date().toISOString();
+  sessionStats.set(endpoint, session);
+
+  if (!flushScheduled) {
+    flushScheduled = true;
+    process.once('exit', flushHttpStats);
+  }
+}
+
+/**
+ * Stored totals with this process's stats added
+ */
+function mergeStats(
+  stored: Record<string, EndpointStats>,
+  session: Map<string, EndpointStats>
+): Record<string, EndpointStats> {
+  const merged = { ...stored };
+  for (const [endpoint, s] of session) {
+    const total = { ...emptyStats(), ...stored[endpoint] };
+    merged[endpoint] = {
+      requests: total.requests + s.requests,
+      cacheHits: total.cacheHits + s.cacheHits,
+      shared: total.shared + s.shared,
+      revalidated: total.revalidated + s.revalidated,
+      downloads: total.downloads + s.downloads,
+      retries: total.retries + s.retries,
+      failures: total.failures + s.failures,
+      roundTrips: total.roundTrips + s.roundTrips,
+      totalLatencyMs: total.totalLatencyMs + s.totalLatencyMs,
+      maxLatencyMs: Math.max(total.maxLatencyMs, s.maxLatencyMs),
+      lastError: s.lastError ?? total.lastError,
+      lastRequestAt: s.lastRequestAt ?? total.lastRequestAt,
+    };
+  }
+  return merged;
+}
+
+function loadStoredStats(): Record<string, EndpointStats> {
+  const path = join(getCacheDir(), 'stats.json');
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, EndpointStats>;
+  } catch {
+    return {};
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,209 @@
+/**
+ * Template Renderer
+ *
+ * A small Handlebars-style renderer for prompt templates:
+ * - {{name}} and {{path.to.value}} interpolate (no HTML escaping)
+ * - {{#if name}}...{{else}}...{{/if}} and {{#unless name}}...{{/unless}}
+ * - {{> partial}} includes another template by name
+ * - {{!-- comment --}} is dropped
+ *
+ * Block tags, partials and comments alone on a line take the line with them,
+ * as in Handlebars. Referencing a variable the context doesn't define is an
+ * error, so a typo in a template fails loudly instead of rendering blank.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+/**
+ * Resolves partial names to template source
+ */
+export type PartialLoader = (name: string) => string;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | { type: 'partial'; name: string }
+  | { type: 'block'; helper: 'if' | 'unless'; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; kind: 'variable' | 'open' | 'else' | 'close' | 'partial' | 'comment'; value: string };
+
+const TAG = /\{\{(!--[\s\S]*?--|![^}]*|[^}]*)\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Render a template with a context
+ */
+export function renderTemplate(
+  source: string,
+  context: TemplateContext,
+  loadPartial: PartialLoader = name => {
+    throw new Error(`Unknown partial "${name}"`);
+  }
+): string {
+  return renderNodes(parseTemplate(source), context, loadPartial, 0);
+}
+
+/**
+ * Parse a template into nodes
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const tokens = stripStandaloneLines(tokenize(source));
+  let index = 0;
+
+  const parseUntil = (closing?: string): { body: TemplateNode[]; inverse: TemplateNode[] } => {
+    const body: TemplateNode[] = [];
+    const inverse: TemplateNode[] = [];
+    let target = body;
+
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token.type === 'text') {
+        if (token.value) target.push({ type: 'text', value: token.value });
+        continue;
+      }
+
+      switch (token.kind) {
+        case 'comment':
+          break;
+        case 'variable':
+          target.push({ type: 'variable', path: token.value });
+          break;
+        case 'partial':
+          target.push({ type: 'partial', name: token.value });
+          break;
+        case 'open': {
+          const [helper, path] = token.value.split(/\s+/);
+          if ((helper !== 'if' && helper !== 'unless') || !path) {
+            throw new Error(`Unsupported block "{{#${token.value}}}"`);
+          }
+          const block = parseUntil(helper);
+          target.push({ type: 'block', helper, path, ...block });
+          break;
+        }
+        case 'else':
+          if (!closing || target === inverse) {
+            throw new Error('Unexpected {{else}}');
+          }
+          target = inverse;
+          break;
+        case 'close':
+          if (token.value !== closing) {
+            throw new Error(`Unexpected {{/${token.value}}}${closing ? ` (expected {{/${closing}}})` : ''}`);
+          }
+          return { body, inverse };
+      }
+    }
+
+    if (closing) {
+      throw new Error(`Unclosed {{#${closing}}}`);
+    }
+    return { body, inverse };
+  };
+
+  return parseUntil().body;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    // Text tokens always sit between tags (possibly empty) so standalone checks can look either side
+    tokens.push({ type: 'text', value: source.slice(last, match.index) });
+    last = match.index! + match[0].length;
+
+    const content = match[1].trim();
+    if (content.startsWith('!')) {
+      tokens.push({ type: 'tag', kind: 'comment', value: '' });
+    } else if (content.startsWith('#')) {
+      tokens.push({ type: 'tag', kind: 'open', value: content.slice(1).trim() });
+    } else if (content.startsWith('/')) {
+      tokens.push({ type: 'tag', kind: 'close', value: content.slice(1).trim() });
+    } else if (content.startsWith('>')) {
+      tokens.push({ type: 'tag', kind: 'partial', value: content.slice(1).trim() });
+    } else if (content === 'else') {
+      tokens.push({ type: 'tag', kind: 'else', value: '' });
+    } else {
+      tokens.push({ type: 'tag', kind: 'variable', value: content });
+    }
+  }
+
+  tokens.push({ type: 'text', value: source.slice(last) });
+  return tokens;
+}
+
+/**
+ * Remove the line around block tags, partials and comments that stand alone on it
+ */
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  // Decide against the original text first: stripping one tag's line must not hide the next tag's line start
+  const standalone = tokens.map((tag, i) => {
+    if (tag.type !== 'tag' || tag.kind === 'variable') return false;
+
+    const before = (tokens[i - 1] as { value: string }).value;
+    const after = (tokens[i + 1] as { value: string }).value;
+    const lineStart = i === 1 ? /(^|\n)[ \t]*$/ : /\n[ \t]*$/;
+    const lineEnd = i === tokens.length - 2 ? /^[ \t]*(\r?\n|$)/ : /^[ \t]*\r?\n/;
+    return lineStart.test(before) && lineEnd.test(after);
+  });
+
+  standalone.forEach((strip, i) => {
+    if (!strip) return;
+    const before = tokens[i - 1] as { type: 'text'; value: string };
+    const after = tokens[i + 1] as { type: 'text'; value: string };
+    before.value = before.value.replace(/[ \t]*$/, '');
+    after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '');
+  });
+  return tokens;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, loadPartial: PartialLoader, depth: number): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'variable': {
+        const value = lookup(context, node.path);
+        output += value === undefined || value === null ? '' : String(value);
+        break;
+      }
+      case 'partial':
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partials nested more than ${MAX_PARTIAL_DEPTH} deep (at "${node.name}")`);
+        }
+        output += renderNodes(parseTemplate(loadPartial(node.name)), context, loadPartial, depth + 1);
+        break;
+      case 'block': {
+        const truthy = isTruthy(lookup(context, node.path));
+        const branch = truthy === (node.helper === 'if') ? node.body : node.inverse;
+        output += renderNodes(branch, context, loadPartial, depth);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function lookup(context: TemplateContext, path: string): unknown {
+  const [head, ...rest] = path.split('.');
+  if (!(head in context)) {
+    throw new Error(`Unknown template variable "${path}"`);
+  }
+
+  let value: unknown = context[head];
+  for (const key of rest) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+// Handlebars truthiness: empty strings, zero, empty arrays and missing values are false
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
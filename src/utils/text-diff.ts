@@ -0,0 +1,90 @@
+/**
+ * Text Diff
+ *
+ * Line-based unified diff for comparing rendered prompts.
+ */
+
+/**
+ * A line of a diff: kept, removed from the old text or added in the new one
+ */
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence)
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals before additions, as in diff -u
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Group a diff into unified-diff hunks with `context` unchanged lines around each change
+ *
+ * Returns the hunk lines ("@@ -1,4 +1,5 @@", " kept", "-removed", "+added");
+ * empty when the texts are identical.
+ */
+export function formatUnifiedDiff(lines: DiffLine[], context = 3): string[] {
+  const output: string[] = [];
+  const changed = lines.map((line, index) => (line.type === 'same' ? -1 : index)).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return output;
+  }
+
+  // Merge changes whose context windows touch
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  for (const { start, end } of hunks) {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = before.filter(line => line.type !== 'added').length + 1;
+    const newStart = before.filter(line => line.type !== 'removed').length + 1;
+    const oldCount = hunk.filter(line => line.type !== 'added').length;
+    const newCount = hunk.filter(line => line.type !== 'removed').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+    }
+  }
+
+  return output;
+}
@@ -6,12 +6,45 @@
  */
 
 import * as chrono from 'chrono-node';
+import type { LocationConfig } from '../weather/locations';
+import type { PersonaConfig } from '../script/personas';
+import { describeMoonPhase, getAstronomy, getSkyPhase, isMoonUp, type AstronomyContext } from './astronomy';
 
 /**
  * Time of day periods for broadcast context
  */
 export type TimeOfDay = 'early-morning' | 'morning' | 'afternoon' | 'evening' | 'late-night';
 
+/**
+ * Location fields the time context needs; coordinates enable the astronomy
+ */
+export type TimeContextLocation = Pick<LocationConfig, 'timezone' | 'greeting' | 'shortName'> &
+  Partial<Pick<LocationConfig, 'lat' | 'lon'>>;
+
+/**
+ * Persona fields the greeting needs
+ */
+export type GreetingHost = Pick<PersonaConfig, 'name'>;
+
+// Used when no location is supplied (the original Denver-only behavior)
+const DEFAULT_TIME_LOCATION: TimeContextLocation = {
+  timezone: 'America/Denver',
+  greeting: 'Denver',
+  shortName: 'Denver',
+  lat: 39.77,
+  lon: -104.89,
+};
+
+/**
+ * Local sun event times as decimal hours (e.g. 6.75 = 6:45); null when the
+ * event doesn't happen that day
+ */
+export interface DaylightHours {
+  civilDawn: number | null;
+  sunrise: number | null;
+  sunset: number | null;
+}
+
 /**
  * Complete broadcast time context
  */
@@ -20,6 +53,12 @@ export interface BroadcastTimeContext {
   date: string;
   /** Target broadcast time (HH:MM) */
   time: string;
+  /** IANA timezone the date/time are expressed in */
+  timezone: string;
+  /** Timezone abbreviation at the broadcast instant, DST-aware (e.g. MST/MDT) */
+  timezoneAbbreviation: string;
+  /** Spoken location name (e.g. "Denver") */
+  locationName: string;
   /** Hour in 24h format */
   hour: number;
   /** Time of day category */
@@ -36,11 +75,15 @@ export interface BroadcastTimeContext {
   forecastFocus: string;
   /** Is this a late-night Art Bell style broadcast? */
   isLateNight: boolean;
+  /** Sun and moon for the location and date (absent without coordinates) */
+  astronomy?: AstronomyContext;
 }
 
 /**
  * Parse a natural language time expression into a Date
  *
+ * Wall-clock times ("9pm") are interpreted in `timezone`.
+ *
  * Examples:
  * - "now", "right now"
  * - "tonight at 9pm", "tonight 9"
@@ -48,14 +91,22 @@ export interface BroadcastTimeContext {
  * - "tomorrow at 6am"
  * - "this evening"
  */
-export function parseNaturalTime(input: string, referenceDate: Date = new Date()): Date {
+export function parseNaturalTime(
+  input: string,
+  referenceDate: Date = new Date(),
+  timezone: string = DEFAULT_TIME_LOCATION.timezone
+): Date {
   // Handle "now" explicitly
   if (input.toLowerCase().trim() === 'now' || input.toLowerCase().trim() === 'right now') {
     return referenceDate;
   }
 
   // Use chrono to parse natural language
-  const results = chrono.parse(input, referenceDate, { forwardDate: true });
+  const results = chrono.parse(
+    input,
+    { instant: referenceDate, timezone: getTimezoneOffsetMinutes(timezone, referenceDate) },
+    { forwardDate: true }
+  );
 
   if (results.length === 0) {
     throw new Error(`Could not parse time expression: "${input}"`);
@@ -66,31 +117,46 @@ export function parseNaturalTime(input: string, referenceDate: Date = new Date()
 }
 
 /**
- * Determine the time of day from an hour
+ * Determine the time of day from a (possibly fractional) local hour
+ *
+ * Without daylight hours the boundaries are fixed clock times. With them,
+ * morning starts at sunrise, evening an hour before sunset (golden hour),
+ * and early morning no later than civil dawn. Late night stays 22:00 so the
+ * Art Bell hours don't move with the seasons.
  */
-export function getTimeOfDay(hour: number): TimeOfDay {
-  if (hour >= 5 && hour < 9) return 'early-morning';
-  if (hour >= 9 && hour < 12) return 'morning';
-  if (hour >= 12 && hour < 17) return 'afternoon';
-  if (hour >= 17 && hour < 22) return 'evening';
-  return 'late-night'; // 22:00 - 4:59
+export function getTimeOfDay(hour: number, daylight?: DaylightHours): TimeOfDay {
+  const earlyMorningStart = Math.min(5, daylight?.civilDawn ?? 5);
+  const morningStart = clampHour(daylight?.sunrise ?? 9, earlyMorningStart, 12);
+  // A sunset past local midnight (high latitudes in summer) reads as an early hour
+  const sunset = daylight?.sunset != null && daylight.sunset > 12 ? daylight.sunset : null;
+  const eveningStart = clampHour(sunset !== null ? sunset - 1 : 17, 12, 22);
+
+  if (hour >= earlyMorningStart && hour < morningStart) return 'early-morning';
+  if (hour >= morningStart && hour < 12) return 'morning';
+  if (hour >= 12 && hour < eveningStart) return 'afternoon';
+  if (hour >= eveningStart && hour < 22) return 'evening';
+  return 'late-night'; // 22:00 until early morning
+}
+
+function clampHour(hour: number, min: number, max: number): number {
+  return Math.min(Math.max(hour, min), max);
 }
 
 /**
- * Get greeting appropriate for time of day
+ * Get greeting appropriate for time of day; late at night the host introduces themselves
  */
-function getGreeting(timeOfDay: TimeOfDay): string {
+function getGreeting(timeOfDay: TimeOfDay, audience: string, host?: GreetingHost): string {
   switch (timeOfDay) {
     case 'early-morning':
-      return 'Good morning, early risers of Denver';
+      return `Good morning, early risers of ${audience}`;
     case 'morning':
-      return 'Good morning, Denver';
+      return `Good morning, ${audience}`;
     case 'afternoon':
-      return 'Good afternoon, Denver';
+      return `Good afternoon, ${audience}`;
     case 'evening':
-      return 'Good evening, Denver';
+      return `Good evening, ${audience}`;
     case 'late-night':
-      return 'Good evening, Denver. This is Elliot Skyfall, and you\'re listening to the voice of the skies';
+      return host ? `Good evening, ${audience}. This is ${host.name}` : `Good evening, ${audience}`;
   }
 }
 
@@ -113,9 +179,35 @@ function getAtmosphericTone(timeOfDay: TimeOfDay): string {
 }
 
 /**
- * Get image mood keywords for the time of day
+ * Get image mood keywords for the time of day, corrected for the actual sky
  */
-function getImageMood(timeOfDay: TimeOfDay): string[] {
+function getImageMood(timeOfDay: TimeOfDay, astronomy?: AstronomyContext): string[] {
+  const mood = getBaseImageMood(timeOfDay);
+  if (!astronomy) {
+    return mood;
+  }
+
+  const skyPhase = getSkyPhase(astronomy);
+  if (skyPhase !== 'night') {
+    return mood;
+  }
+
+  // Winter evenings are already dark; drop the sunset palette
+  const nightMood = timeOfDay === 'evening'
+    ? ['early darkness', 'deep blue night sky', 'city lights', 'lit windows']
+    : mood;
+
+  const { moon } = astronomy;
+  if (isMoonUp(astronomy) && moon.illumination >= 50) {
+    return [...nightMood, describeMoonPhase(moon), 'silvery moonlight'];
+  }
+  if (isMoonUp(astronomy) && moon.illumination >= 5) {
+    return [...nightMood, `thin ${describeMoonPhase(moon)}`];
+  }
+  return [...nightMood, 'moonless sky'];
+}
+
+function getBaseImageMood(timeOfDay: TimeOfDay): string[] {
   switch (timeOfDay) {
     case 'early-morning':
       return ['pre-dawn', 'deep blue sky', 'first light on horizon', 'quiet streets', 'stars fading'];
@@ -151,7 +243,7 @@ function getForecastFocus(timeOfDay: TimeOfDay, hour: number): string {
 /**
  * Get human-readable description of the target time
  */
-function getTimeDescription(date: Date, timeOfDay: TimeOfDay): string {
+function getTimeDescription(date: Date, timeOfDay: TimeOfDay, timezone: string): string {
   const options: Intl.DateTimeFormatOptions = {
     weekday: 'long',
     month: 'long',
@@ -161,7 +253,7 @@ function getTimeDescription(date: Date, timeOfDay: TimeOfDay): string {
     timeZoneName: 'short',
   };
 
-  const formatted = date.toLocaleString('en-US', { ...options, timeZone: 'America/Denver' });
+  const formatted = date.toLocaleString('en-US', { ...options, timeZone: timezone });
 
   const timeOfDayName = {
     'early-morning': 'early morning',
@@ -174,15 +266,49 @@ function getTimeDescription(date: Date, timeOfDay: TimeOfDay): string {
   return `${timeOfDayName} broadcast for ${formatted}`;
 }
 
+/**
+ * Get the timezone abbreviation in effect at an instant (e.g. MST vs MDT)
+ */
+export function getTimezoneAbbreviation(timezone: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(p => p.type === 'timeZoneName')?.value || timezone;
+}
+
+/**
+ * Get a timezone's UTC offset in minutes at an instant (e.g. -420 for MST)
+ */
+function getTimezoneOffsetMinutes(timezone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hour12: false,
+  }).formatToParts(date);
+  const getPart = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  const asUtc = Date.UTC(getPart('year'), getPart('month') - 1, getPart('day'), getPart('hour') % 24, getPart('minute'));
+  const instant = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
 /**
  * Build complete broadcast time context from a natural language expression
  */
-export function buildTimeContext(input: string, referenceDate: Date = new Date()): BroadcastTimeContext {
-  const targetDate = parseNaturalTime(input, referenceDate);
+export function buildTimeContext(
+  input: string,
+  location: TimeContextLocation = DEFAULT_TIME_LOCATION,
+  referenceDate: Date = new Date(),
+  host?: GreetingHost
+): BroadcastTimeContext {
+  const { timezone } = location;
+  const targetDate = parseNaturalTime(input, referenceDate, timezone);
 
-  // Get components in Denver timezone
-  const denverFormatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/Denver',
+  // Get components in the location's timezone
+  const localFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
@@ -191,37 +317,77 @@ export function buildTimeContext(input: string, referenceDate: Date = new Date()
     hour12: false,
   });
 
-  const parts = denverFormatter.formatToParts(targetDate);
+  const parts = localFormatter.formatToParts(targetDate);
   const getPart = (type: string) => parts.find(p => p.type === type)?.value || '';
 
   const year = getPart('year');
   const month = getPart('month');
   const day = getPart('day');
-  const hour = parseInt(getPart('hour'), 10);
+  const hour = parseInt(getPart('hour'), 10) % 24; // Some runtimes format midnight as 24
   const minute = getPart('minute');
 
   const date = `${year}-${month}-${day}`;
   const time = `${hour.toString().padStart(2, '0')}:${minute}`;
 
-  const timeOfDay = getTimeOfDay(hour);
+  const astronomy = location.lat !== undefined && location.lon !== undefined
+    ? getAstronomy(
+      { lat: location.lat, lon: location.lon },
+      getLocalDayStart(date, timezone, targetDate),
+      targetDate
+    )
+    : undefined;
+
+  const timeOfDay = getTimeOfDay(hour + parseInt(minute, 10) / 60, astronomy && getDaylightHours(astronomy, timezone));
 
   return {
     date,
     time,
+    timezone,
+    timezoneAbbreviation: getTimezoneAbbreviation(timezone, targetDate),
+    locationName: location.shortName,
     hour,
     timeOfDay,
-    description: getTimeDescription(targetDate, timeOfDay),
-    greeting: getGreeting(timeOfDay),
+    description: getTimeDescription(targetDate, timeOfDay, timezone),
+    greeting: getGreeting(timeOfDay, location.greeting, host),
     atmosphericTone: getAtmosphericTone(timeOfDay),
-    imageMood: getImageMood(timeOfDay),
+    imageMood: getImageMood(timeOfDay, astronomy),
     forecastFocus: getForecastFocus(timeOfDay, hour),
     isLateNight: timeOfDay === 'late-night',
+    astronomy,
+  };
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD date, using the offset in effect at `instant`
+ */
+function getLocalDayStart(date: string, timezone: string, instant: Date): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) - getTimezoneOffsetMinutes(timezone, instant) * 60000);
+}
+
+/**
+ * Sun events as local decimal hours
+ */
+function getDaylightHours(astronomy: AstronomyContext, timezone: string): DaylightHours {
+  const toLocalHour = (event: Date | null): number | null => {
+    if (!event) return null;
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hour12: false,
+    }).formatToParts(event);
+    const getPart = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+    return (getPart('hour') % 24) + getPart('minute') / 60;
   };
+
+  const { civilDawn, sunrise, sunset } = astronomy.sun;
+  return { civilDawn: toLocalHour(civilDawn), sunrise: toLocalHour(sunrise), sunset: toLocalHour(sunset) };
 }
 
 /**
  * Build time context for "now"
  */
-export function buildCurrentTimeContext(): BroadcastTimeContext {
-  return buildTimeContext('now');
+export function buildCurrentTimeContext(location?: TimeContextLocation, host?: GreetingHost): BroadcastTimeContext {
+  return buildTimeContext('now', location, new Date(), host);
 }
@@ -17,16 +17,34 @@ import {
   spring,
 } from 'remotion';
 import { useAudioData, visualizeAudio } from '@remotion/media-utils';
-import type { VideoTimeline, TimelineSegment } from './types';
+import type { AirQualitySummary, VideoAlert, VideoBranding, VideoTimeline, TimelineSegment, WeatherSummary } from './types';
 
 export interface WeatherBroadcastProps {
   timeline: VideoTimeline;
 }
 
+// Elliot Skyfall's gold-and-orange late-night look, used when the timeline has no branding
+const DEFAULT_BRANDING: VideoBranding = {
+  hostName: 'Elliot Skyfall',
+  showName: 'Daily Weather',
+  signOff: 'Keep watching the skies...',
+  primary: '#fbbf24',
+  accent: '#f97316',
+  background: '#0a0a0a',
+};
+
+/**
+ * rgba() for a #rrggbb color
+ */
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
 /**
  * Microphone SVG Logo - matches the late-night broadcast aesthetic
  */
-const MicrophoneLogo: React.FC<{ size?: number }> = ({ size = 48 }) => (
+const MicrophoneLogo: React.FC<{ size?: number; branding: VideoBranding }> = ({ size = 48, branding }) => (
   <svg
     width={size}
     height={size}
@@ -38,27 +56,27 @@ const MicrophoneLogo: React.FC<{ size?: number }> = ({ size = 48 }) => (
     <path
       d="M12 2C10.3431 2 9 3.34315 9 5V12C9 13.6569 10.3431 15 12 15C13.6569 15 15 13.6569 15 12V5C15 3.34315 13.6569 2 12 2Z"
       fill="url(#mic-gradient)"
-      stroke="#fbbf24"
+      stroke={branding.primary}
       strokeWidth="1.5"
     />
     {/* Stand base */}
     <path
       d="M8 21H16"
-      stroke="#f97316"
+      stroke={branding.accent}
       strokeWidth="2"
       strokeLinecap="round"
     />
     {/* Stand pole */}
     <path
       d="M12 18V21"
-      stroke="#f97316"
+      stroke={branding.accent}
       strokeWidth="2"
       strokeLinecap="round"
     />
     {/* Sound waves left */}
     <path
       d="M6 9C5.5 10 5.5 11.5 6 12.5"
-      stroke="#fbbf24"
+      stroke={branding.primary}
       strokeWidth="1.5"
       strokeLinecap="round"
       opacity="0.6"
@@ -66,7 +84,7 @@ const MicrophoneLogo: React.FC<{ size?: number }> = ({ size = 48 }) => (
     {/* Sound waves right */}
     <path
       d="M18 9C18.5 10 18.5 11.5 18 12.5"
-      stroke="#fbbf24"
+      stroke={branding.primary}
       strokeWidth="1.5"
       strokeLinecap="round"
       opacity="0.6"
@@ -74,14 +92,14 @@ const MicrophoneLogo: React.FC<{ size?: number }> = ({ size = 48 }) => (
     {/* Mic arc */}
     <path
       d="M5 12C5 15.866 8.13401 19 12 19C15.866 19 19 15.866 19 12"
-      stroke="#f97316"
+      stroke={branding.accent}
       strokeWidth="1.5"
       strokeLinecap="round"
     />
     <defs>
       <linearGradient id="mic-gradient" x1="9" y1="2" x2="15" y2="15" gradientUnits="userSpaceOnUse">
-        <stop stopColor="#fbbf24" />
-        <stop offset="1" stopColor="#f97316" />
+        <stop stopColor={branding.primary} />
+        <stop offset="1" stopColor={branding.accent} />
       </linearGradient>
     </defs>
   </svg>
@@ -468,6 +486,90 @@ const WindCompass: React.FC<{
   );
 };
 
+/**
+ * Air Quality Dial - AQI ring in the EPA category color
+ */
+const AirQualityDial: React.FC<{
+  airQuality: AirQualitySummary;
+  size?: number;
+}> = ({ airQuality, size = 80 }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  const fillSpring = spring({
+    frame,
+    fps,
+    config: { damping: 15, stiffness: 30 },
+  });
+
+  // Ring fills over the 0-300 AQI range (Hazardous and beyond is a full ring)
+  const circumference = 2 * Math.PI * 38;
+  const fraction = Math.min(1, (airQuality.aqi ?? 0) / 300);
+  const dashOffset = circumference * (1 - fraction * fillSpring);
+
+  return (
+    <div style={{ width: size, height: size, position: 'relative' }}>
+      <svg width={size} height={size} viewBox="0 0 100 100">
+        {/* Outer ring */}
+        <circle
+          cx="50"
+          cy="50"
+          r="45"
+          fill="rgba(0,0,0,0.6)"
+          stroke="rgba(255,255,255,0.2)"
+          strokeWidth="2"
+        />
+
+        {/* AQI track and fill */}
+        <circle cx="50" cy="50" r="38" fill="none" stroke="rgba(255,255,255,0.12)" strokeWidth="6" />
+        <circle
+          cx="50"
+          cy="50"
+          r="38"
+          fill="none"
+          stroke={airQuality.color}
+          strokeWidth="6"
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={dashOffset}
+          transform="rotate(-90, 50, 50)"
+        />
+
+        <text
+          x="50"
+          y="50"
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fill={airQuality.color}
+          fontSize="24"
+          fontFamily="Inter, monospace"
+          fontWeight="700"
+        >
+          {airQuality.aqi ?? '—'}
+        </text>
+      </svg>
+
+      {/* Label readout */}
+      <div
+        style={{
+          position: 'absolute',
+          bottom: 8,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          fontFamily: '"Inter", monospace',
+          fontSize: size * 0.14,
+          fontWeight: 700,
+          color: airQuality.smoke ? '#f97316' : 'rgba(255,255,255,0.7)',
+          textShadow: '0 2px 4px rgba(0,0,0,0.8)',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {airQuality.smoke ? 'SMOKE' : 'AQI'}
+      </div>
+    </div>
+  );
+};
+
 /**
  * Weather Dials Panel - Bottom right corner display
  */
@@ -475,7 +577,8 @@ const WeatherDials: React.FC<{
   temperature?: number;
   windDirection?: string;
   windSpeed?: number;
-}> = ({ temperature, windDirection, windSpeed }) => {
+  airQuality?: AirQualitySummary;
+}> = ({ temperature, windDirection, windSpeed, airQuality }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -486,7 +589,7 @@ const WeatherDials: React.FC<{
     config: { damping: 20, stiffness: 50 },
   });
 
-  if (!temperature && !windDirection) return null;
+  if (!temperature && !windDirection && !airQuality) return null;
 
   return (
     <div
@@ -506,6 +609,9 @@ const WeatherDials: React.FC<{
       {windDirection && windSpeed !== undefined && (
         <WindCompass direction={windDirection} speed={windSpeed} size={70} />
       )}
+      {airQuality && (
+        <AirQualityDial airQuality={airQuality} size={70} />
+      )}
     </div>
   );
 };
@@ -515,7 +621,12 @@ const WeatherDials: React.FC<{
  * Displays logo, show name, timestamp, and CatalystAI credit
  * Mic icon pulses with audio waveform
  */
-const ShowBranding: React.FC<{ broadcastDate: string; audioPath: string }> = ({ broadcastDate, audioPath }) => {
+const ShowBranding: React.FC<{
+  broadcastDate: string;
+  timezone?: string;
+  audioPath: string;
+  branding: VideoBranding;
+}> = ({ broadcastDate, timezone, audioPath, branding }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -525,6 +636,7 @@ const ShowBranding: React.FC<{ broadcastDate: string; audioPath: string }> = ({
     hour: 'numeric',
     minute: '2-digit',
     timeZoneName: 'short',
+    timeZone: timezone,
   });
 
   // Load audio data for visualization
@@ -586,16 +698,16 @@ const ShowBranding: React.FC<{ broadcastDate: string; audioPath: string }> = ({
             borderRadius: '50%',
             background: 'rgba(0,0,0,0.6)',
             backdropFilter: 'blur(8px)',
-            border: '2px solid rgba(249, 115, 22, 0.4)',
+            border: `2px solid ${withAlpha(branding.accent, 0.4)}`,
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
-            boxShadow: `0 0 ${20 + glowIntensity * 30}px rgba(249, 115, 22, ${glowIntensity}), inset 0 0 20px rgba(0,0,0,0.5)`,
+            boxShadow: `0 0 ${20 + glowIntensity * 30}px ${withAlpha(branding.accent, glowIntensity)}, inset 0 0 20px rgba(0,0,0,0.5)`,
             transform: `scale(${pulseScale})`,
             transition: 'transform 0.05s ease-out',
           }}
         >
-          <MicrophoneLogo size={28} />
+          <MicrophoneLogo size={28} branding={branding} />
         </div>
 
         {/* Show name stack */}
@@ -612,14 +724,14 @@ const ShowBranding: React.FC<{ broadcastDate: string; audioPath: string }> = ({
               lineHeight: 1.2,
             }}
           >
-            ELLIOT SKYFALL
+            {branding.hostName}
           </div>
           <div
             style={{
               fontFamily: '"Inter", sans-serif',
               fontSize: 12,
               fontWeight: 500,
-              color: '#fbbf24',
+              color: branding.primary,
               letterSpacing: '0.15em',
               textTransform: 'uppercase',
               textShadow: '0 2px 8px rgba(0,0,0,0.8)',
@@ -633,7 +745,7 @@ const ShowBranding: React.FC<{ broadcastDate: string; audioPath: string }> = ({
             style={{
               width: '100%',
               height: 1,
-              background: 'linear-gradient(90deg, #f97316, transparent)',
+              background: `linear-gradient(90deg, ${branding.accent}, transparent)`,
               marginTop: 5,
               marginBottom: 3,
             }}
@@ -722,10 +834,6 @@ function getWeatherIcon(text: string): string {
   if (lower.includes('cloudy') || lower.includes('overcast')) return '☁️';
   if (lower.includes('fog') || lower.includes('mist') || lower.includes('haze')) return '🌫️';
 
-  // Hazards
-  if (lower.includes('warning') || lower.includes('hazard') || lower.includes('alert')) return '⚠️';
-  if (lower.includes('watch')) return '👁️';
-
   // Time-based
   if (lower.includes('night') || lower.includes('tonight') || lower.includes('overnight')) return '🌙';
   if (lower.includes('sunrise') || lower.includes('morning')) return '🌅';
@@ -828,17 +936,64 @@ function extractWindData(caption?: string): { direction?: string; speed?: number
 }
 
 /**
- * Check if caption indicates a hazard/warning segment
+ * Check if caption is about air quality or smoke
  */
-function isHazardSegment(caption?: string): boolean {
+function isAirQualitySegment(caption?: string): boolean {
   if (!caption) return false;
+  return /air quality|\baqi\b|smoke|ozone/i.test(caption);
+}
+
+/**
+ * Find the active alert a caption is about, if any
+ *
+ * A caption matches when it names the event ("Winter Storm Warning") or,
+ * for multi-word hazards, the hazard without its product type ("Winter
+ * Storm", "Red Flag"). Words like "warning" alone never match.
+ */
+function findSegmentAlert(caption: string | undefined, alerts: VideoAlert[] | undefined): VideoAlert | undefined {
+  if (!caption || !alerts) return undefined;
   const lower = caption.toLowerCase();
-  return lower.includes('warning') ||
-         lower.includes('watch') ||
-         lower.includes('advisory') ||
-         lower.includes('hazard') ||
-         lower.includes('alert') ||
-         lower.includes('red flag');
+
+  return alerts.find(alert => {
+    const event = alert.event.toLowerCase();
+    const hazard = event.replace(/\s+(warning|watch|advisory|statement|emergency)$/, '');
+    return lower.includes(event) || (hazard !== event && hazard.includes(' ') && lower.includes(hazard));
+  });
+}
+
+/**
+ * Get hazard text color for a CAP severity (defaults to warning red)
+ */
+function getSeverityColor(severity?: string): string {
+  switch (severity) {
+    case 'Extreme':
+      return '#dc2626';
+    case 'Severe':
+      return '#ef4444';
+    case 'Moderate':
+      return '#f97316';
+    case 'Minor':
+      return '#fbbf24';
+    default:
+      return '#ef4444';
+  }
+}
+
+/**
+ * Format a departure from normal, e.g. "+8° vs normal"
+ */
+function formatDeparture(departure: number): string {
+  if (departure === 0) return 'Normal';
+  return `${departure > 0 ? '+' : '−'}${Math.abs(departure)}° vs normal`;
+}
+
+/**
+ * Warm departures in orange, cool in blue, near normal muted
+ */
+function getDepartureColor(departure: number): string {
+  if (departure >= 3) return '#fb923c';
+  if (departure <= -3) return '#60a5fa';
+  return 'rgba(255,255,255,0.5)';
 }
 
 /**
@@ -847,15 +1002,22 @@ function isHazardSegment(caption?: string): boolean {
 const TextOverlay: React.FC<{
   caption?: string;
   durationFrames: number;
-}> = ({ caption, durationFrames }) => {
+  branding: VideoBranding;
+  alert?: VideoAlert;
+}> = ({ caption, durationFrames, branding, alert }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
   if (!caption) return null;
 
-  const { title, subtitle, icon } = parseCaption(caption);
+  const { title, subtitle, icon: weatherIcon } = parseCaption(caption);
   const { temp, rest } = extractTemperature(subtitle);
 
+  // Segments about an active alert take the alert's severity color
+  const icon = alert ? '⚠️' : weatherIcon;
+  const highlight = alert ? getSeverityColor(alert.severity) : branding.primary;
+  const accent = alert ? getSeverityColor(alert.severity) : branding.accent;
+
   // Animation timing
   const exitStart = durationFrames - fps * 0.5;
 
@@ -918,9 +1080,9 @@ const TextOverlay: React.FC<{
         <div
           style={{
             width: accentWidth,
-            background: 'linear-gradient(180deg, #fbbf24 0%, #f97316 100%)',
+            background: `linear-gradient(180deg, ${highlight} 0%, ${accent} 100%)`,
             borderRadius: '4px 0 0 4px',
-            boxShadow: '0 0 20px rgba(249, 115, 22, 0.6)',
+            boxShadow: `0 0 20px ${withAlpha(accent, 0.6)}`,
           }}
         />
 
@@ -930,7 +1092,7 @@ const TextOverlay: React.FC<{
             background: 'rgba(0, 0, 0, 0.5)',
             backdropFilter: 'blur(12px)',
             borderRadius: '0 12px 12px 0',
-            border: '1px solid rgba(255,255,255,0.1)',
+            border: `1px solid ${alert ? withAlpha(accent, 0.5) : 'rgba(255,255,255,0.1)'}`,
             borderLeft: 'none',
             padding: '16px 28px 16px 20px',
             display: 'flex',
@@ -966,7 +1128,7 @@ const TextOverlay: React.FC<{
                   fontFamily: '"Inter", sans-serif',
                   fontSize: 32,
                   fontWeight: 700,
-                  color: '#fbbf24',
+                  color: highlight,
                   marginTop: 4,
                   textShadow: '0 2px 8px rgba(0,0,0,0.8)',
                   lineHeight: 1,
@@ -988,13 +1150,33 @@ const TextOverlay: React.FC<{
 
           {/* Text content */}
           <div style={{ opacity: contentOpacity }}>
+            {/* Alert event and severity */}
+            {alert && (
+              <div
+                style={{
+                  display: 'inline-block',
+                  fontFamily: '"Inter", sans-serif',
+                  fontSize: 12,
+                  fontWeight: 700,
+                  color: '#ffffff',
+                  background: accent,
+                  borderRadius: 4,
+                  padding: '2px 8px',
+                  letterSpacing: '0.08em',
+                  textTransform: 'uppercase',
+                  marginBottom: 6,
+                }}
+              >
+                {alert.event}{alert.severity && alert.severity !== 'Unknown' ? ` • ${alert.severity}` : ''}
+              </div>
+            )}
             {/* Category label */}
             <div
               style={{
                 fontFamily: '"Inter", sans-serif',
                 fontSize: 13,
                 fontWeight: 600,
-                color: '#fbbf24',
+                color: highlight,
                 letterSpacing: '0.12em',
                 textTransform: 'uppercase',
                 marginBottom: 4,
@@ -1034,8 +1216,12 @@ const GraphicSegment: React.FC<{
   isFirst: boolean;
   isLast: boolean;
   broadcastDate: string;
+  timezone?: string;
   audioPath: string;
-}> = ({ segment, isFirst, isLast, broadcastDate, audioPath }) => {
+  airQuality?: AirQualitySummary;
+  alerts?: VideoAlert[];
+  branding: VideoBranding;
+}> = ({ segment, isFirst, isLast, broadcastDate, timezone, audioPath, airQuality, alerts, branding }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -1095,10 +1281,22 @@ const GraphicSegment: React.FC<{
       <TextOverlay
         caption={segment.caption}
         durationFrames={segment.durationFrames}
+        branding={branding}
+        alert={findSegmentAlert(segment.caption, alerts)}
       />
 
+      {/* AQI dial on air quality segments */}
+      {airQuality && isAirQualitySegment(segment.caption) && (
+        <WeatherDials
+          temperature={temperature}
+          windDirection={windData.direction}
+          windSpeed={windData.speed}
+          airQuality={airQuality}
+        />
+      )}
+
       {/* Show branding - lower right */}
-      <ShowBranding broadcastDate={broadcastDate} audioPath={audioPath} />
+      <ShowBranding broadcastDate={broadcastDate} timezone={timezone} audioPath={audioPath} branding={branding} />
     </AbsoluteFill>
   );
 };
@@ -1106,18 +1304,20 @@ const GraphicSegment: React.FC<{
 /**
  * Format broadcast date for display
  */
-function formatBroadcastDate(isoString: string): { date: string; time: string } {
+function formatBroadcastDate(isoString: string, timezone?: string): { date: string; time: string } {
   const d = new Date(isoString);
   const options: Intl.DateTimeFormatOptions = {
     weekday: 'long',
     year: 'numeric',
     month: 'long',
     day: 'numeric',
+    timeZone: timezone,
   };
   const timeOptions: Intl.DateTimeFormatOptions = {
     hour: 'numeric',
     minute: '2-digit',
     timeZoneName: 'short',
+    timeZone: timezone,
   };
   return {
     date: d.toLocaleDateString('en-US', options),
@@ -1125,25 +1325,24 @@ function formatBroadcastDate(isoString: string): { date: string; time: string }
   };
 }
 
+// Regional tiles that fit across the summary slide
+const MAX_CITY_TILES = 6;
+
 /**
  * Summary slide shown at the end
  */
 const SummarySlide: React.FC<{
   broadcastDate: string;
+  timezone?: string;
   location: string;
-  weatherSummary?: {
-    temperature: string;
-    conditions: string;
-    wind: string;
-    hazards: string[];
-    outlook: string;
-  };
+  weatherSummary?: WeatherSummary;
   durationFrames: number;
-}> = ({ broadcastDate, location, weatherSummary, durationFrames }) => {
+  branding: VideoBranding;
+}> = ({ broadcastDate, timezone, location, weatherSummary, durationFrames, branding }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
-  const { date, time } = formatBroadcastDate(broadcastDate);
+  const { date, time } = formatBroadcastDate(broadcastDate, timezone);
 
   // Fade in animation
   const fadeIn = interpolate(frame, [0, fps * 0.8], [0, 1], { extrapolateRight: 'clamp' });
@@ -1161,7 +1360,7 @@ const SummarySlide: React.FC<{
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#0a0a0a',
+        backgroundColor: branding.background,
         opacity: fadeIn,
         display: 'flex',
         flexDirection: 'column',
@@ -1175,10 +1374,10 @@ const SummarySlide: React.FC<{
         style={{
           width: interpolate(titleSpring, [0, 1], [0, 200]),
           height: 4,
-          background: 'linear-gradient(90deg, #f97316 0%, #fbbf24 50%, #f97316 100%)',
+          background: `linear-gradient(90deg, ${branding.accent} 0%, ${branding.primary} 50%, ${branding.accent} 100%)`,
           marginBottom: 40,
           borderRadius: 2,
-          boxShadow: '0 0 30px rgba(249, 115, 22, 0.6)',
+          boxShadow: `0 0 30px ${withAlpha(branding.accent, 0.6)}`,
         }}
       />
 
@@ -1193,12 +1392,12 @@ const SummarySlide: React.FC<{
           marginBottom: 8,
           textTransform: 'uppercase',
           letterSpacing: '0.1em',
-          textShadow: '0 4px 30px rgba(249, 115, 22, 0.4)',
+          textShadow: `0 4px 30px ${withAlpha(branding.accent, 0.4)}`,
           opacity: titleSpring,
           transform: `translateY(${interpolate(titleSpring, [0, 1], [30, 0])}px)`,
         }}
       >
-        Elliot Skyfall
+        {branding.hostName}
       </h1>
 
       {/* Subtitle */}
@@ -1215,7 +1414,7 @@ const SummarySlide: React.FC<{
           opacity: titleSpring,
         }}
       >
-        Daily Weather
+        {branding.showName}
       </p>
 
       {/* Date and time */}
@@ -1267,12 +1466,17 @@ const SummarySlide: React.FC<{
         >
           <div style={{ display: 'flex', gap: 60, justifyContent: 'center' }}>
             <div style={{ textAlign: 'center' }}>
-              <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 48, fontWeight: 700, color: '#fbbf24', margin: 0 }}>
+              <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 48, fontWeight: 700, color: branding.primary, margin: 0 }}>
                 {weatherSummary.temperature}
               </p>
               <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 16, color: 'rgba(255,255,255,0.6)', margin: 0, marginTop: 4 }}>
                 {weatherSummary.conditions}
               </p>
+              {weatherSummary.normalHigh != null && weatherSummary.normalLow != null && (
+                <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 14, color: 'rgba(255,255,255,0.45)', margin: 0, marginTop: 4 }}>
+                  Normal {Math.round(weatherSummary.normalHigh)}° / {Math.round(weatherSummary.normalLow)}°
+                </p>
+              )}
             </div>
             <div style={{ textAlign: 'center' }}>
               <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 24, fontWeight: 500, color: '#ffffff', margin: 0 }}>
@@ -1285,11 +1489,80 @@ const SummarySlide: React.FC<{
           </div>
           {weatherSummary.hazards.length > 0 && (
             <div style={{ marginTop: 20, textAlign: 'center' }}>
-              <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 18, fontWeight: 600, color: '#ef4444', margin: 0 }}>
+              <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 18, fontWeight: 600, color: getSeverityColor(weatherSummary.hazardSeverity), margin: 0 }}>
                 {weatherSummary.hazards.join(' • ')}
               </p>
             </div>
           )}
+          {weatherSummary.outlookDays && weatherSummary.outlookDays.length > 0 && (
+            <div
+              style={{
+                display: 'flex',
+                gap: 40,
+                justifyContent: 'center',
+                marginTop: 24,
+                paddingTop: 20,
+                borderTop: '1px solid rgba(255,255,255,0.1)',
+              }}
+            >
+              {weatherSummary.outlookDays.map((day) => (
+                <div key={day.name} style={{ textAlign: 'center', minWidth: 120 }}>
+                  <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 14, fontWeight: 600, color: 'rgba(255,255,255,0.6)', margin: 0, textTransform: 'uppercase', letterSpacing: '0.1em' }}>
+                    {day.name}
+                  </p>
+                  <p style={{ fontSize: 28, margin: '6px 0' }}>{getWeatherIcon(day.summary)}</p>
+                  <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 18, fontWeight: 600, color: '#ffffff', margin: 0 }}>
+                    {day.high !== null ? `${day.high}°` : '—'}
+                    <span style={{ color: 'rgba(255,255,255,0.5)', fontWeight: 400 }}>
+                      {' / '}{day.low !== null ? `${day.low}°` : '—'}
+                    </span>
+                  </p>
+                  {day.highDeparture != null && (
+                    <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 13, fontWeight: 500, color: getDepartureColor(day.highDeparture), margin: 0, marginTop: 4 }}>
+                      {formatDeparture(day.highDeparture)}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {weatherSummary.cities && weatherSummary.cities.length > 1 && (
+            <div
+              style={{
+                display: 'flex',
+                gap: 16,
+                justifyContent: 'center',
+                marginTop: 24,
+                paddingTop: 20,
+                borderTop: '1px solid rgba(255,255,255,0.1)',
+              }}
+            >
+              {weatherSummary.cities.slice(0, MAX_CITY_TILES).map((city) => (
+                <div
+                  key={city.name}
+                  style={{
+                    textAlign: 'center',
+                    minWidth: 110,
+                    padding: '10px 14px',
+                    borderRadius: 10,
+                    background: 'rgba(255,255,255,0.04)',
+                    border: `1px solid ${city.hasHazards ? 'rgba(239,68,68,0.6)' : 'rgba(255,255,255,0.08)'}`,
+                  }}
+                >
+                  <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 13, fontWeight: 600, color: 'rgba(255,255,255,0.6)', margin: 0, textTransform: 'uppercase', letterSpacing: '0.08em' }}>
+                    {city.name}
+                  </p>
+                  <p style={{ fontSize: 22, margin: '4px 0' }}>{getWeatherIcon(city.conditions)}</p>
+                  <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 22, fontWeight: 700, color: branding.primary, margin: 0 }}>
+                    {city.temperature}°
+                  </p>
+                  <p style={{ fontFamily: '"Inter", sans-serif', fontSize: 13, color: 'rgba(255,255,255,0.5)', margin: 0, marginTop: 2 }}>
+                    {city.high !== null ? `${city.high}°` : '—'} / {city.low !== null ? `${city.low}°` : '—'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -1306,7 +1579,7 @@ const SummarySlide: React.FC<{
           transform: `translateY(${interpolate(signoffSpring, [0, 1], [15, 0])}px)`,
         }}
       >
-        "Keep watching the skies..."
+        "{branding.signOff}"
       </p>
 
       {/* Credits - Brought to you by Catalyst AI */}
@@ -1389,7 +1662,7 @@ const SummarySlide: React.FC<{
           bottom: 60,
           width: interpolate(signoffSpring, [0, 1], [0, 100]),
           height: 2,
-          background: 'linear-gradient(90deg, transparent, rgba(249, 115, 22, 0.5), transparent)',
+          background: `linear-gradient(90deg, transparent, ${withAlpha(branding.accent, 0.5)}, transparent)`,
         }}
       />
     </AbsoluteFill>
@@ -1400,7 +1673,7 @@ const SummarySlide: React.FC<{
  * Progress bar component - bottom of screen
  * Shows progress through the entire broadcast
  */
-const ProgressBar: React.FC<{ totalDurationFrames: number }> = ({ totalDurationFrames }) => {
+const ProgressBar: React.FC<{ totalDurationFrames: number; branding: VideoBranding }> = ({ totalDurationFrames, branding }) => {
   const frame = useCurrentFrame();
 
   const progress = Math.min(1, frame / totalDurationFrames);
@@ -1421,8 +1694,8 @@ const ProgressBar: React.FC<{ totalDurationFrames: number }> = ({ totalDurationF
         style={{
           height: '100%',
           width: `${progress * 100}%`,
-          background: 'linear-gradient(90deg, #f97316, #fbbf24)',
-          boxShadow: '0 0 10px rgba(249, 115, 22, 0.6)',
+          background: `linear-gradient(90deg, ${branding.accent}, ${branding.primary})`,
+          boxShadow: `0 0 10px ${withAlpha(branding.accent, 0.6)}`,
           transition: 'width 0.033s linear',
         }}
       />
@@ -1461,6 +1734,7 @@ export const WeatherBroadcast: React.FC<WeatherBroadcastProps> = ({
   timeline,
 }) => {
   const { fps } = useVideoConfig();
+  const branding = timeline.branding ?? DEFAULT_BRANDING;
 
   // Calculate frames for summary and fade
   const summaryFrames = Math.floor(SUMMARY_DURATION * fps);
@@ -1476,7 +1750,7 @@ export const WeatherBroadcast: React.FC<WeatherBroadcastProps> = ({
   const fadeStart = summaryStart + summaryFrames;
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#0a0a0a' }}>
+    <AbsoluteFill style={{ backgroundColor: branding.background }}>
       {/* Background layer - graphic segments */}
       <AbsoluteFill>
         {timeline.segments.map((segment, index) => (
@@ -1490,7 +1764,11 @@ export const WeatherBroadcast: React.FC<WeatherBroadcastProps> = ({
               isFirst={index === 0}
               isLast={false} // Never skip fade since summary follows
               broadcastDate={timeline.broadcastDate}
+              timezone={timeline.timezone}
               audioPath={timeline.audioPath}
+              airQuality={timeline.airQuality}
+              alerts={timeline.alerts}
+              branding={branding}
             />
           </Sequence>
         ))}
@@ -1500,9 +1778,11 @@ export const WeatherBroadcast: React.FC<WeatherBroadcastProps> = ({
       <Sequence from={summaryStart} durationInFrames={summaryFrames + fadeFrames}>
         <SummarySlide
           broadcastDate={timeline.broadcastDate}
+          timezone={timeline.timezone}
           location={timeline.location}
           weatherSummary={timeline.weatherSummary}
           durationFrames={summaryFrames}
+          branding={branding}
         />
       </Sequence>
 
@@ -1515,7 +1795,7 @@ export const WeatherBroadcast: React.FC<WeatherBroadcastProps> = ({
       <Audio src={staticFile(timeline.audioPath)} />
 
       {/* Progress bar - spans entire video */}
-      <ProgressBar totalDurationFrames={fadeStart + fadeFrames} />
+      <ProgressBar totalDurationFrames={fadeStart + fadeFrames} branding={branding} />
     </AbsoluteFill>
   );
 };
@@ -6,7 +6,7 @@
 
 import type { GraphicCue } from '../script/graphic-cue-parser';
 import type { CharacterAlignment } from '../audio/synthesizer';
-import type { VideoTimeline, TimelineSegment, WeatherSummary } from './types';
+import type { AirQualitySummary, VideoAlert, VideoBranding, VideoTimeline, TimelineSegment, WeatherSummary } from './types';
 import { join, resolve } from 'node:path';
 
 const DEFAULT_FPS = 30;
@@ -21,7 +21,11 @@ export interface TimelineBuildOptions {
   // Metadata for summary slide
   broadcastDate?: string; // Defaults to current date/time
   location?: string;
+  timezone?: string;
   weatherSummary?: WeatherSummary;
+  airQuality?: AirQualitySummary;
+  alerts?: VideoAlert[];
+  branding?: VideoBranding;
 }
 
 /**
@@ -53,7 +57,11 @@ export function buildTimeline(options: TimelineBuildOptions): VideoTimeline {
       audioDuration: options.audioDuration,
       broadcastDate: options.broadcastDate || new Date().toISOString(),
       location: options.location || 'Denver, Colorado',
+      timezone: options.timezone || 'America/Denver',
       weatherSummary: options.weatherSummary,
+      airQuality: options.airQuality,
+      alerts: options.alerts,
+      branding: options.branding,
     };
   }
 
@@ -105,7 +113,11 @@ export function buildTimeline(options: TimelineBuildOptions): VideoTimeline {
     // Use actual current date/time for broadcast, not the weather data date
     broadcastDate: options.broadcastDate || new Date().toISOString(),
     location: options.location || 'Denver, Colorado',
+    timezone: options.timezone || 'America/Denver',
     weatherSummary: options.weatherSummary,
+    airQuality: options.airQuality,
+    alerts: options.alerts,
+    branding: options.branding,
   };
 }
 
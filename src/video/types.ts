@@ -17,7 +17,50 @@ export interface WeatherSummary {
   conditions: string;
   wind: string;
   hazards: string[];
+  hazardSeverity?: string; // Highest CAP severity among hazards (Extreme, Severe, Moderate, Minor)
   outlook: string;
+  outlookDays?: OutlookDay[];
+  normalHigh?: number | null; // Climate normals for the broadcast date
+  normalLow?: number | null;
+  cities?: CityTile[]; // Regional roundup, broadcast location first
+}
+
+export interface OutlookDay {
+  name: string; // e.g. "Monday"
+  high: number | null;
+  low: number | null;
+  summary: string;
+  highDeparture?: number | null; // Forecast high minus the normal high (°F)
+}
+
+export interface CityTile {
+  name: string; // Spoken short name, e.g. "Boulder"
+  temperature: number;
+  conditions: string;
+  high: number | null;
+  low: number | null;
+  hasHazards: boolean;
+}
+
+export interface AirQualitySummary {
+  aqi: number | null; // Headline AQI; null when only a category is known
+  category: string; // EPA category, e.g. "Unhealthy for Sensitive Groups"
+  color: string; // EPA category color
+  smoke: boolean;
+}
+
+export interface VideoAlert {
+  event: string; // e.g. "Winter Storm Warning"
+  severity?: string; // CAP severity (Extreme, Severe, Moderate, Minor)
+}
+
+export interface VideoBranding {
+  hostName: string; // Corner badge and end card title
+  showName: string; // End card subtitle
+  signOff: string; // End card sign-off
+  primary: string; // Hex colors
+  accent: string;
+  background: string;
 }
 
 export interface VideoTimeline {
@@ -29,7 +72,11 @@ export interface VideoTimeline {
   // Metadata for summary slide
   broadcastDate: string; // ISO date string of actual broadcast
   location: string;
+  timezone?: string; // IANA timezone for displayed dates/times (defaults to America/Denver)
   weatherSummary?: WeatherSummary;
+  airQuality?: AirQualitySummary; // Drives the AQI dial on air quality segments
+  alerts?: VideoAlert[]; // Active alerts and hazards; segments that name one get hazard styling
+  branding?: VideoBranding; // Host name and colors (defaults to Elliot Skyfall's)
 }
 
 export interface VideoRenderOptions {
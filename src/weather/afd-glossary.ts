@@ -0,0 +1,127 @@
+/**
+ * AFD Glossary
+ *
+ * Forecaster shorthand and technical terms found in Area Forecast
+ * Discussions. Built-in entries can be extended or overridden with a
+ * JSON file (AFD_GLOSSARY_FILE) keyed by term.
+ */
+
+import { z } from 'zod';
+import { existsSync, readFileSync } from 'node:fs';
+import { getConfig } from '../utils/config';
+
+/**
+ * Schema for a single glossary entry
+ */
+export const glossaryEntrySchema = z.object({
+  expansion: z.string().min(1).optional(), // Replaces the term in the text, e.g. QPF -> "forecast precipitation"
+  meaning: z.string().min(1).optional(), // Plain-language note for the first use and the "what it means" list
+  matchCase: z.boolean().optional(), // Only match the term as written (for acronyms that are also words)
+});
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+/**
+ * Glossary keyed by upper-case term
+ */
+export type Glossary = Record<string, GlossaryEntry>;
+
+const glossaryFileSchema = z.record(z.string().min(1), glossaryEntrySchema);
+
+/**
+ * Built-in glossary
+ */
+export const DEFAULT_GLOSSARY: Glossary = {
+  // Upper-air patterns
+  'H5 TROF': { expansion: 'upper-level trough', meaning: 'a dip in the jet stream that brings cooler, unsettled weather' },
+  'H5 RIDGE': { expansion: 'upper-level ridge', meaning: 'a bulge in the jet stream that brings warm, dry, stable weather' },
+  'H5': { expansion: 'upper-level (500 millibar)' },
+  'H7': { expansion: 'mid-level (700 millibar)' },
+  'H85': { expansion: 'low-level (850 millibar)' },
+  'TROF': { expansion: 'trough', meaning: 'a dip in the jet stream that brings cooler, unsettled weather' },
+  'TROUGH': { meaning: 'a dip in the jet stream that brings cooler, unsettled weather' },
+  'RIDGE': { meaning: 'a bulge in the jet stream that brings warm, dry, stable weather' },
+  'SHORTWAVE': { expansion: 'disturbance', meaning: 'a small ripple in the flow aloft that can spark clouds and precipitation' },
+  'CLOSED LOW': { meaning: 'a storm system cut off from the jet stream that can stall and linger' },
+  'CUTOFF LOW': { meaning: 'a storm system cut off from the jet stream that can stall and linger' },
+  'ZONAL FLOW': { meaning: 'west-to-east winds aloft that keep storms moving quickly' },
+  'JET STREAK': { meaning: 'a core of strong winds in the jet stream that can help storms develop' },
+  'LLJ': { expansion: 'low-level jet', meaning: 'a band of fast winds near the ground that feeds moisture into storms' },
+
+  // Terrain and flow
+  'UPSLOPE': { expansion: 'upslope flow', meaning: 'moist air pushed up against the mountains, which favors clouds and snow' },
+  'DOWNSLOPE': { expansion: 'downslope winds', meaning: 'air sinking off the mountains, which warms and dries as it descends' },
+  'CHINOOK': { meaning: 'warm, dry downslope winds off the mountains' },
+  'MTN WAVE': { expansion: 'mountain wave', meaning: 'strong winds rippling over the peaks that can gust hard in the foothills' },
+  'CAA': { expansion: 'cold air moving in', meaning: 'colder air is being carried into the area' },
+  'WAA': { expansion: 'warm air moving in', meaning: 'warmer air is being carried into the area' },
+  'FROPA': { expansion: 'frontal passage', meaning: 'the moment a front moves through, often with a wind shift' },
+  'BL': { expansion: 'boundary layer', matchCase: true },
+
+  // Moisture and instability
+  'QPF': { expansion: 'forecast precipitation' },
+  'PWAT': { expansion: 'precipitable water', meaning: 'how much moisture is in the air column - higher means heavier rain or snow is possible' },
+  'MSTR': { expansion: 'moisture' },
+  'RH': { expansion: 'humidity' },
+  'CAPE': { expansion: 'atmospheric instability', meaning: 'energy available for thunderstorms - higher means stronger storms are possible', matchCase: true },
+  'MLCAPE': { expansion: 'atmospheric instability', meaning: 'energy available for thunderstorms - higher means stronger storms are possible' },
+  'SBCAPE': { expansion: 'atmospheric instability', meaning: 'energy available for thunderstorms - higher means stronger storms are possible' },
+  'LAPSE RATES': { meaning: 'how quickly the air cools with height - steep rates favor showers and storms' },
+  'DGZ': { expansion: 'snow-growth zone', meaning: 'the layer where snowflakes grow best - deep moisture there means fluffier, heavier snow' },
+  'SFC': { expansion: 'surface' },
+  'ACCUM': { expansion: 'accumulation' },
+  'TSTMS': { expansion: 'thunderstorms' },
+  'TSRA': { expansion: 'thunderstorms with rain' },
+  'SHRA': { expansion: 'rain showers' },
+  'SHSN': { expansion: 'snow showers' },
+
+  // Models and guidance
+  'NWP': { expansion: 'computer model guidance' },
+  'GFS': { expansion: 'American (GFS) model' },
+  'ECMWF': { expansion: 'European model' },
+  'NAM': { expansion: 'NAM model', matchCase: true },
+  'HRRR': { expansion: 'high-resolution HRRR model' },
+  'MOS': { expansion: 'model statistics', matchCase: true },
+  'ENSEMBLES': { meaning: 'many runs of the models with slightly different starting points - agreement means higher confidence' },
+
+  // Aviation
+  'VFR': { expansion: 'good flying conditions' },
+  'MVFR': { expansion: 'marginal flying conditions' },
+  'IFR': { expansion: 'poor flying conditions (low clouds or visibility)' },
+  'CIGS': { expansion: 'cloud ceilings' },
+  'VSBY': { expansion: 'visibility' },
+  'TAF': { expansion: 'airport forecast', matchCase: true },
+};
+
+/**
+ * Load the glossary (built-in entries plus the optional glossary file)
+ */
+export function loadGlossary(): Glossary {
+  const { glossaryFile } = getConfig();
+
+  if (!existsSync(glossaryFile)) {
+    return { ...DEFAULT_GLOSSARY };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(glossaryFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read glossary file ${glossaryFile}: ${(error as Error).message}`);
+  }
+
+  const result = glossaryFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || 'value'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid glossary file ${glossaryFile}:\n${issues}`);
+  }
+
+  const glossary: Glossary = { ...DEFAULT_GLOSSARY };
+  for (const [term, entry] of Object.entries(result.data)) {
+    glossary[term.toUpperCase()] = entry;
+  }
+
+  return glossary;
+}
@@ -4,52 +4,266 @@
  * Parse NWS Area Forecast Discussion text into structured data.
  */
 
-import type { AFDData, Hazard } from './types';
+import type { AFDData, AFDSection, AFDSectionName, Hazard } from './types';
+
+/**
+ * Section headings mapped to their AFDData keys
+ */
+const SECTION_NAMES: Array<[RegExp, AFDSectionName]> = [
+  [/^KEY MESSAGES$/, 'keyMessages'],
+  [/^SYNOPSIS$/, 'synopsis'],
+  [/^UPDATE$/, 'update'],
+  [/^DISCUSSION$/, 'discussion'],
+  [/^NEAR TERM/, 'nearTerm'],
+  [/^SHORT TERM/, 'shortTerm'],
+  [/^(LONG TERM|EXTENDED)/, 'longTerm'],
+  [/^AVIATION/, 'aviation'],
+  [/^FIRE WEATHER$/, 'fireWeather'],
+  [/^HYDROLOGY$/, 'hydrology'],
+  [/^MARINE$/, 'marine'],
+  [/^CLIMATE$/, 'climate'],
+  [/WATCHES\/WARNINGS\/ADVISORIES$/, 'watchesWarnings'],
+];
+
+// ".SHORT TERM /Tonight through Monday/..." - the period is optional, and
+// text may continue on the heading line after the dots
+const SECTION_HEADING = /^\.([A-Z][A-Z0-9 &/-]*?)(?:\s+\/([^/]*)\/)?\s*\.{3}\s*(.*)$/;
 
 /**
  * Parse raw AFD text into structured data
+ *
+ * `issueTime` is the product's issuance time when the source provides it
+ * (the API's /products metadata); otherwise it is read from the header line.
  */
-export function parseAFD(rawText: string): AFDData {
-  const lines = rawText.split('\n');
+export function parseAFD(rawText: string, issueTime?: string): AFDData {
+  const text = rawText.replace(/\r\n?/g, '\n');
+  const sections = parseSections(text);
+  const authors = parseAuthors(text);
+
+  for (const section of Object.values(sections)) {
+    section.author = authors.bySection.get(section.title) ?? authors.default;
+  }
+
+  const officeName = extractOfficeName(text);
 
   return {
-    keyMessages: extractKeyMessages(rawText),
-    discussion: extractDiscussion(rawText),
-    hazards: extractHazards(rawText),
-    aviation: extractAviation(rawText),
-    issueTime: extractIssueTime(rawText),
-    forecaster: extractForecaster(rawText),
+    keyMessages: extractKeyMessages(sections, text),
+    discussion: extractDiscussion(sections, text),
+    hazards: extractHazards(sections.watchesWarnings?.text ?? text),
+    aviation: sections.aviation ? cleanText(sections.aviation.text) : '',
+    sections,
+    officeName,
+    issueTime: issueTime || extractIssueTime(text),
+    forecaster: authors.default ?? [...authors.bySection.values()][0] ?? `NWS ${officeName}`,
     rawText,
   };
 }
 
+// Header timezones, as hours from UTC
+const TIMEZONE_OFFSETS: Record<string, number> = {
+  EST: -5, EDT: -4, CST: -6, CDT: -5, MST: -7, MDT: -6, PST: -8, PDT: -7,
+  AKST: -9, AKDT: -8, HST: -10, UTC: 0, GMT: 0,
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
 /**
- * Extract key messages section
+ * Convert an AFD issue time to a Date: an ISO timestamp from the API's
+ * product metadata, or the header form "205 PM MST Sun Dec 7 2025".
+ * Returns null when the time can't be read.
  */
-function extractKeyMessages(text: string): string[] {
-  const messages: string[] = [];
+export function parseIssueTime(issueTime: string): Date | null {
+  const header = issueTime.trim().match(/^(\d{1,2})(\d{2})\s*(AM|PM)\s+([A-Z]{3,4})\s+[A-Z]{3}\s+([A-Z]{3})\s+(\d{1,2})\s+(\d{4})$/i);
+  if (!header) {
+    const time = Date.parse(issueTime);
+    return /^\d{4}-\d{2}-\d{2}T/.test(issueTime) && !Number.isNaN(time) ? new Date(time) : null;
+  }
+
+  const [, hours, minutes, meridiem, zone, month, day, year] = header;
+  const offset = TIMEZONE_OFFSETS[zone.toUpperCase()];
+  const monthIndex = MONTHS.indexOf(month.toUpperCase());
+  if (offset === undefined || monthIndex < 0) {
+    return null;
+  }
+
+  const hour24 = (parseInt(hours, 10) % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+  return new Date(Date.UTC(parseInt(year, 10), monthIndex, parseInt(day, 10), hour24 - offset, parseInt(minutes, 10)));
+}
+
+/**
+ * Placeholder AFD for providers that have no forecast discussion
+ *
+ * Key messages, discussion and hazards are empty, so the script
+ * formatter leaves those sections out.
+ */
+export function createEmptyAFD(officeName: string, issueTime: string): AFDData {
+  return {
+    keyMessages: [],
+    discussion: '',
+    hazards: [],
+    aviation: '',
+    sections: {},
+    officeName,
+    issueTime,
+    forecaster: officeName,
+    rawText: '',
+  };
+}
+
+/**
+ * Split the product into its dot-headed sections
+ *
+ * A section runs from its heading to the next heading, the "&&" section
+ * separator or the "$$" end of product. Repeated sections keep the first
+ * (most recent) occurrence.
+ */
+function parseSections(text: string): Partial<Record<AFDSectionName, AFDSection>> {
+  const sections: Partial<Record<AFDSectionName, AFDSection>> = {};
+  let current: { name: AFDSectionName | null; section: AFDSection; lines: string[] } | null = null;
 
-  // Look for .KEY MESSAGES... or similar patterns
-  const keyMessagesMatch = text.match(/\.KEY MESSAGES\.\.\.([\s\S]*?)(?=\n\n\.|\n\n&&|$)/i);
+  const finish = () => {
+    if (current?.name && !sections[current.name]) {
+      const lines = [...current.lines];
 
-  if (keyMessagesMatch) {
-    const section = keyMessagesMatch[1];
-    // Split by bullet points or numbered items
-    const items = section.split(/\n\s*[-*•]\s*|\n\s*\d+\.\s*/);
+      // "Issued at 205 PM MST Sun Dec 7 2025" leads most section bodies
+      const firstIndex = lines.findIndex(line => line.trim() !== '');
+      const issued = firstIndex >= 0 ? lines[firstIndex].trim().match(/^Issued at (.+)$/i) : null;
+      if (issued) {
+        current.section.issuedAt = issued[1].trim();
+        lines.splice(firstIndex, 1);
+      }
+
+      current.section.text = joinBody(lines);
+      sections[current.name] = current.section;
+    }
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+
+    if (trimmed === '&&' || trimmed === '$$') {
+      finish();
+      continue;
+    }
+
+    const heading = line.match(SECTION_HEADING);
+    if (heading) {
+      finish();
+      const title = heading[1].trim();
+      const period = heading[2]?.trim();
+      const section: AFDSection = { title, text: '' };
+
+      // Some offices put the update time in the slashes instead of a period
+      const issuedInPeriod = period?.match(/^Issued (?:at )?(.+)$/i);
+      if (issuedInPeriod) {
+        section.issuedAt = issuedInPeriod[1].trim();
+      } else if (period) {
+        section.validPeriod = period;
+      }
 
-    for (const item of items) {
-      const cleaned = item.trim().replace(/\s+/g, ' ');
+      current = { name: sectionName(title), section, lines: heading[3] ? [heading[3]] : [] };
+      continue;
+    }
+
+    current?.lines.push(line);
+  }
+
+  finish();
+  return sections;
+}
+
+function sectionName(title: string): AFDSectionName | null {
+  return SECTION_NAMES.find(([pattern]) => pattern.test(title))?.[1] ?? null;
+}
+
+/**
+ * Join hard-wrapped lines, keeping paragraph breaks and bullet items
+ */
+function joinBody(lines: string[]): string {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      paragraphs.push(current.join(' '));
+      current = [];
+    }
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      flush();
+    } else if (/^([-*•]|\d+\.)\s/.test(trimmed)) {
+      flush();
+      current.push(trimmed);
+    } else {
+      current.push(trimmed);
+    }
+  }
+
+  flush();
+  return paragraphs.join('\n');
+}
+
+/**
+ * Parse the sign-off block after the last "$$"
+ *
+ * Offices either list an author per section ("SHORT TERM...Meier") or
+ * sign the whole product with a single name or initials.
+ */
+function parseAuthors(text: string): { default?: string; bySection: Map<string, string> } {
+  const bySection = new Map<string, string>();
+  const end = text.lastIndexOf('$$');
+  if (end < 0) {
+    return { bySection };
+  }
+
+  let fallback: string | undefined;
+  for (const line of text.slice(end + 2).split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const perSection = trimmed.match(/^([A-Z][A-Z /]*?)\.{3}\s*(.+)$/);
+    if (perSection) {
+      // "SHORT TERM/LONG TERM...Smith" credits both sections
+      for (const title of perSection[1].split('/')) {
+        bySection.set(title.trim(), perSection[2].trim());
+      }
+    } else if (!fallback && /^[A-Za-z][A-Za-z .'/-]{0,40}$/.test(trimmed)) {
+      fallback = trimmed;
+    }
+  }
+
+  return { default: fallback, bySection };
+}
+
+/**
+ * Extract key messages section
+ */
+function extractKeyMessages(sections: Partial<Record<AFDSectionName, AFDSection>>, text: string): string[] {
+  const messages: string[] = [];
+
+  if (sections.keyMessages) {
+    // Bullets and numbered items are already on their own lines
+    for (const item of sections.keyMessages.text.split('\n')) {
+      const cleaned = item.replace(/^([-*•]|\d+\.)\s*/, '').trim();
       if (cleaned.length > 10) {
         messages.push(cleaned);
       }
     }
   }
 
-  // If no key messages found, extract first substantive paragraph
+  // If no key messages found, fall back to the synopsis, the lead discussion
+  // paragraph or, for text without sections, the first paragraph
   if (messages.length === 0) {
-    const firstParagraph = text.match(/\n\n([A-Z][^.]+\.[^.]+\.)/);
+    const lead = sections.synopsis ?? sections.discussion ?? sections.nearTerm ?? sections.shortTerm;
+    const firstParagraph = lead
+      ? lead.text.split('\n')[0]
+      : text.match(/\n\n([A-Z][^.]+\.[^.]+\.)/)?.[1];
     if (firstParagraph) {
-      messages.push(firstParagraph[1].trim());
+      messages.push(cleanText(firstParagraph));
     }
   }
 
@@ -59,14 +273,10 @@ function extractKeyMessages(text: string): string[] {
 /**
  * Extract main discussion section
  */
-function extractDiscussion(text: string): string {
-  // Look for .DISCUSSION... or .SHORT TERM... sections
-  const discussionMatch = text.match(
-    /(?:\.DISCUSSION\.\.\.|\.SHORT TERM\.\.\.)([\s\S]*?)(?=\n\n\.|\n\n&&|$)/i
-  );
-
-  if (discussionMatch) {
-    return cleanText(discussionMatch[1]);
+function extractDiscussion(sections: Partial<Record<AFDSectionName, AFDSection>>, text: string): string {
+  const section = sections.discussion ?? sections.nearTerm ?? sections.shortTerm ?? sections.synopsis;
+  if (section) {
+    return cleanText(section.text);
   }
 
   // Fallback: extract everything between header and aviation
@@ -99,11 +309,23 @@ function extractHazards(text: string): Hazard[] {
     const matches = text.matchAll(pattern);
     for (const match of matches) {
       const fullMatch = match[0];
+      const type = extractHazardType(fullMatch);
+      const timing = extractTiming(fullMatch);
+      const areas = extractAreas(text, fullMatch, match.index || 0);
+
+      // Offices list the same hazard once per state ("CT...", "NY...") - keep one
+      const existing = hazards.find(hazard => hazard.type === type && hazard.timing === timing);
+      if (existing) {
+        existing.areas = [...new Set([...existing.areas, ...areas])];
+        continue;
+      }
+
       hazards.push({
-        type: extractHazardType(fullMatch),
-        areas: extractAreas(text, match.index || 0),
-        timing: extractTiming(fullMatch),
+        type,
+        areas,
+        timing,
         description: cleanText(fullMatch),
+        source: 'afd',
       });
     }
   }
@@ -120,25 +342,48 @@ function extractHazardType(text: string): string {
 }
 
 /**
- * Extract affected areas near hazard mention
+ * Extract affected areas for a hazard mention
+ *
+ * Zone codes come from the statement itself ("... for COZ033>036."), so
+ * one line of the watches/warnings block doesn't pick up the next line's zones.
  */
-function extractAreas(text: string, position: number): string[] {
-  // Look for zone codes or area names near the hazard mention
-  const nearbyText = text.slice(Math.max(0, position - 200), position + 500);
-
-  // Match zone codes like COZ039, COZ040
-  const zoneMatches = nearbyText.match(/[A-Z]{2}Z\d{3}/g);
-  if (zoneMatches) {
-    return [...new Set(zoneMatches)];
+function extractAreas(text: string, statement: string, position: number): string[] {
+  const zones = expandZoneCodes(statement);
+  if (zones.length > 0) {
+    return zones;
   }
 
+  // Look for area names near the hazard mention
+  const nearbyText = text.slice(Math.max(0, position - 200), position + 500);
+
   // Match area names
   const areaMatch = nearbyText.match(/(?:for|across|in)\s+(?:the\s+)?([^.]+?)(?:from|through|after|\.)/i);
   if (areaMatch) {
     return [areaMatch[1].trim()];
   }
 
-  return ['Denver Metro Area'];
+  return [];
+}
+
+/**
+ * Expand UGC zone lists: "COZ033>035-039" -> COZ033, COZ034, COZ035, COZ039
+ */
+function expandZoneCodes(text: string): string[] {
+  const zones: string[] = [];
+
+  for (const [list, prefix] of text.matchAll(/\b([A-Z]{2}Z)\d{3}(?:[>-]\d{3})*/g)) {
+    let last = 0;
+    for (const [, separator, digits] of list.slice(3).matchAll(/(^|[>-])(\d{3})/g)) {
+      const number = parseInt(digits, 10);
+      const start = separator === '>' ? last + 1 : number;
+      for (let zone = start; zone <= number; zone++) {
+        zones.push(`${prefix}${String(zone).padStart(3, '0')}`);
+      }
+      last = number;
+    }
+  }
+
+  return [...new Set(zones)];
 }
 
 /**
@@ -152,29 +397,33 @@ function extractTiming(text: string): string {
 }
 
 /**
- * Extract aviation section
+ * Extract issue time from header
  */
-function extractAviation(text: string): string {
-  const aviationMatch = text.match(/\.AVIATION\.\.\.([\s\S]*?)(?=\n\n\.|\n\n&&|$)/i);
-  return aviationMatch ? cleanText(aviationMatch[1]) : '';
+function extractIssueTime(text: string): string {
+  return extractHeaderIssueTime(text) ?? new Date().toISOString();
 }
 
 /**
- * Extract issue time from header
+ * The issue time in the product header, e.g. "413 PM MST Sun Dec 7 2025"
  */
-function extractIssueTime(text: string): string {
-  // Match patterns like "413 PM MST Sun Dec 7 2025"
+export function extractHeaderIssueTime(text: string): string | null {
   const timeMatch = text.match(/(\d{1,4}\s*(?:AM|PM)\s*[A-Z]{3}\s*\w+\s*\w+\s*\d+\s*\d{4})/i);
-  return timeMatch ? timeMatch[1].trim() : new Date().toISOString();
+  return timeMatch ? timeMatch[1].trim() : null;
 }
 
 /**
- * Extract forecaster initials
+ * Extract the issuing office from the header,
+ * e.g. "National Weather Service Denver/Boulder CO" -> "Denver/Boulder CO"
  */
-function extractForecaster(text: string): string {
-  // Look for initials at end like "...Smith" or ".../Smith"
-  const forecasterMatch = text.match(/(?:\.{3}|\/)\s*(\w+)\s*$/m);
-  return forecasterMatch ? forecasterMatch[1] : 'NWS Boulder';
+function extractOfficeName(text: string): string {
+  const officeMatch = text.match(/National Weather Service\s+(.+)/i);
+  if (officeMatch) {
+    return officeMatch[1].trim();
+  }
+
+  // "AFDBOU" product identifier line
+  const pilMatch = text.match(/^AFD([A-Z]{3})\s*$/m);
+  return pilMatch ? pilMatch[1] : 'Unknown';
 }
 
 /**
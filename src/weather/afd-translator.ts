@@ -0,0 +1,138 @@
+/**
+ * AFD Translator
+ *
+ * Expand forecaster shorthand in AFD text using the glossary, annotate
+ * technical terms on first use, and collect a plain-language
+ * "what it means" list for the script.
+ */
+
+import { loadGlossary, type Glossary } from './afd-glossary';
+import type { AFDData } from './types';
+
+// Keep the prompt section short
+const MAX_WHAT_IT_MEANS = 8;
+
+/**
+ * A glossary term found in the text
+ */
+export interface TranslatedTerm {
+  term: string; // Glossary key, e.g. "H5 TROF"
+  expansion?: string;
+  meaning?: string;
+}
+
+/**
+ * Translated text with the terms it contained, in order of first use
+ */
+export interface TranslationResult {
+  text: string;
+  terms: TranslatedTerm[];
+}
+
+/**
+ * Plain-language view of an AFD for the script
+ */
+export interface TranslatedAFD {
+  keyMessages: string[];
+  discussion: string;
+  whatItMeans: string[];
+  terms: TranslatedTerm[];
+}
+
+/**
+ * Translate the key messages and discussion of an AFD
+ *
+ * Terms are annotated only on their first use across both.
+ */
+export function translateAFD(afd: AFDData, glossary: Glossary = loadGlossary()): TranslatedAFD {
+  const seen = new Set<string>();
+  const terms: TranslatedTerm[] = [];
+
+  const keyMessages = afd.keyMessages.map(message => {
+    const result = translateText(message, glossary, seen);
+    terms.push(...result.terms);
+    return result.text;
+  });
+
+  const discussion = translateText(afd.discussion, glossary, seen);
+  terms.push(...discussion.terms);
+
+  return {
+    keyMessages,
+    discussion: discussion.text,
+    whatItMeans: buildWhatItMeans(terms),
+    terms,
+  };
+}
+
+/**
+ * Expand glossary terms in a piece of text
+ *
+ * Longer terms win ("H5 TROF" before "H5"), a trailing plural "S" is
+ * accepted, and terms already in `seen` are expanded without repeating
+ * their annotation.
+ */
+export function translateText(
+  text: string,
+  glossary: Glossary,
+  seen: Set<string> = new Set()
+): TranslationResult {
+  const keys = Object.keys(glossary).sort((a, b) => b.length - a.length);
+  if (keys.length === 0 || !text) {
+    return { text, terms: [] };
+  }
+
+  const alternatives = keys.map(key => escapeRegExp(key).replace(/ +/g, '\\s+')).join('|');
+  const pattern = new RegExp(`(?<![A-Za-z0-9])(${alternatives})(s?)(?![A-Za-z0-9])`, 'gi');
+  const terms: TranslatedTerm[] = [];
+
+  const translated = text.replace(pattern, (match: string, word: string, plural: string) => {
+    const normalized = word.toUpperCase().replace(/\s+/g, ' ');
+    const term = glossary[normalized + plural.toUpperCase()] ? normalized + plural.toUpperCase() : normalized;
+    const entry = glossary[term];
+
+    // Case-sensitive acronyms must be written in capitals (e.g. "BL" but not "bl")
+    if (!entry || (entry.matchCase && word !== word.toUpperCase())) {
+      return match;
+    }
+
+    const isPlural = term === normalized && plural !== '';
+    let replacement = entry.expansion
+      ? entry.expansion + (isPlural && !/\s/.test(entry.expansion) ? 's' : '')
+      : match;
+
+    if (!seen.has(term)) {
+      seen.add(term);
+      terms.push({ term, expansion: entry.expansion, meaning: entry.meaning });
+      if (entry.meaning) {
+        replacement += ` (${entry.meaning})`;
+      }
+    }
+
+    return replacement;
+  });
+
+  return { text: translated, terms };
+}
+
+/**
+ * Turn annotated terms into "what it means" lines, one per distinct meaning
+ */
+function buildWhatItMeans(terms: TranslatedTerm[]): string[] {
+  const lines: string[] = [];
+  const meanings = new Set<string>();
+
+  for (const term of terms) {
+    if (!term.meaning || meanings.has(term.meaning)) continue;
+    meanings.add(term.meaning);
+
+    const label = term.expansion ?? term.term.toLowerCase();
+    lines.push(`${label.charAt(0).toUpperCase()}${label.slice(1)}: ${term.meaning}`);
+  }
+
+  return lines.slice(0, MAX_WHAT_IT_MEANS);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
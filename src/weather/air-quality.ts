@@ -0,0 +1,270 @@
+/**
+ * Air Quality
+ *
+ * AQI observations and forecasts from the AirNow API (or any service
+ * returning AirNow-style JSON) plus wildfire smoke flags. Smoke is flagged
+ * from every source that can see it: the observation's present weather,
+ * NWS alerts, the AFD and the AirNow forecast discussion.
+ *
+ * AirNow needs an API key (AIRNOW_API_KEY); without one only the smoke
+ * flags are produced.
+ */
+
+import { getConfig } from '../utils/config';
+import { cachedFetch } from '../utils/http-cache';
+import type { LocationConfig } from './locations';
+import type {
+  AirQualityData,
+  AirQualityForecastDay,
+  AirQualityReading,
+  AqiCategory,
+  WeatherData,
+} from './types';
+
+// Radius (miles) AirNow searches for a reporting area around the location
+const AIRNOW_DISTANCE_MILES = 25;
+
+/**
+ * An AQI category with its range, color and health message
+ */
+export interface AqiCategoryInfo {
+  name: AqiCategory;
+  number: number; // AirNow category number (1-6)
+  min: number;
+  max: number;
+  color: string; // EPA color, for the AQI dial
+  guidance: string; // Plain-language health message
+}
+
+/**
+ * EPA AQI categories, best to worst
+ */
+export const AQI_CATEGORIES: AqiCategoryInfo[] = [
+  { name: 'Good', number: 1, min: 0, max: 50, color: '#00e400', guidance: 'air quality is satisfactory' },
+  { name: 'Moderate', number: 2, min: 51, max: 100, color: '#ffff00', guidance: 'unusually sensitive people should consider limiting prolonged outdoor exertion' },
+  { name: 'Unhealthy for Sensitive Groups', number: 3, min: 101, max: 150, color: '#ff7e00', guidance: 'children, older adults and people with heart or lung disease should limit prolonged outdoor exertion' },
+  { name: 'Unhealthy', number: 4, min: 151, max: 200, color: '#ff0000', guidance: 'everyone should limit prolonged outdoor exertion; sensitive groups should avoid it' },
+  { name: 'Very Unhealthy', number: 5, min: 201, max: 300, color: '#8f3f97', guidance: 'everyone should avoid prolonged outdoor exertion' },
+  { name: 'Hazardous', number: 6, min: 301, max: 500, color: '#7e0023', guidance: 'everyone should avoid all outdoor physical activity' },
+];
+
+/**
+ * Raw AirNow observation (current/latLong endpoint)
+ */
+export interface AirNowObservation {
+  DateObserved: string; // "2026-07-20 " (AirNow pads with a space)
+  HourObserved: number;
+  LocalTimeZone: string;
+  ReportingArea: string;
+  ParameterName: string;
+  AQI: number;
+  Category: { Number: number; Name: string };
+}
+
+/**
+ * Raw AirNow forecast (forecast/latLong endpoint)
+ */
+export interface AirNowForecast {
+  DateForecast: string;
+  ReportingArea: string;
+  ParameterName: string;
+  AQI: number; // -1 when only a category is forecast
+  Category: { Number: number; Name: string };
+  ActionDay: boolean;
+  Discussion?: string;
+}
+
+/**
+ * Category for an AQI value
+ */
+export function getAqiCategory(aqi: number): AqiCategory {
+  return (AQI_CATEGORIES.find(category => aqi <= category.max) ?? AQI_CATEGORIES[AQI_CATEGORIES.length - 1]).name;
+}
+
+/**
+ * Details for a category name
+ */
+export function getAqiCategoryInfo(category: AqiCategory): AqiCategoryInfo {
+  return AQI_CATEGORIES.find(info => info.name === category) ?? AQI_CATEGORIES[0];
+}
+
+/**
+ * Fetch and assemble air quality for a location
+ *
+ * Never throws: AirNow failures are logged and the smoke flags from the
+ * weather data are still returned. Undefined when there is nothing to report.
+ */
+export async function getAirQuality(location: LocationConfig, data: WeatherData): Promise<AirQualityData | undefined> {
+  let observations: AirNowObservation[] = [];
+  let forecasts: AirNowForecast[] = [];
+
+  if (getConfig().airNowApiKey) {
+    try {
+      [observations, forecasts] = await Promise.all([
+        fetchAirNow<AirNowObservation[]>('/aq/observation/latLong/current/', location),
+        fetchAirNow<AirNowForecast[]>('/aq/forecast/latLong/', location),
+      ]);
+    } catch (error) {
+      console.log(`  Warning: Failed to fetch air quality (${(error as Error).message})`);
+    }
+  }
+
+  const airQuality = buildAirQuality(observations, forecasts, data);
+  return airQuality.current.length > 0 || airQuality.forecast.length > 0 || airQuality.smoke ? airQuality : undefined;
+}
+
+/**
+ * Combine AirNow readings with smoke evidence from the weather data
+ */
+export function buildAirQuality(
+  observations: AirNowObservation[],
+  forecasts: AirNowForecast[],
+  data: WeatherData
+): AirQualityData {
+  const current = observations.map(toReading);
+  const forecast: AirQualityForecastDay[] = forecasts.map(item => ({
+    ...toReading(item),
+    date: item.DateForecast.trim(),
+    actionDay: item.ActionDay,
+    discussion: item.Discussion?.trim() || undefined,
+  }));
+
+  const overall = current.reduce<AirQualityReading | null>(
+    (worst, reading) => (!worst || (reading.aqi ?? 0) > (worst.aqi ?? 0) ? reading : worst),
+    null
+  );
+  const first = observations[0];
+  const smokeReasons = detectSmoke(data, forecast);
+
+  return {
+    reportingArea: first?.ReportingArea ?? forecasts[0]?.ReportingArea,
+    observedAt: first
+      ? `${first.DateObserved.trim()} ${String(first.HourObserved).padStart(2, '0')}:00 ${first.LocalTimeZone}`
+      : undefined,
+    current,
+    overall,
+    forecast,
+    smoke: smokeReasons.length > 0,
+    smokeReasons,
+  };
+}
+
+/**
+ * Evidence of wildfire smoke in the weather data and AQI forecast
+ */
+export function detectSmoke(data: WeatherData, forecast: AirQualityForecastDay[] = []): string[] {
+  const reasons: string[] = [];
+  const { current } = data.forecast;
+
+  if (/\bsmoke\b/i.test(current.conditions) || /\bFU\b/.test(current.rawMetar ?? '')) {
+    reasons.push('smoke in the current observation');
+  }
+
+  const smokeAlerts = (data.alerts ?? []).filter(alert =>
+    /smoke/i.test(alert.type) || (/air quality/i.test(alert.type) && /smoke|wildfire/i.test(alert.description)));
+  if (smokeAlerts.length > 0) {
+    reasons.push(`NWS ${smokeAlerts.map(alert => alert.type).join(', ')}`);
+  }
+
+  // Only the headline parts of the discussion; smoke in the rest (aviation,
+  // fire weather) is too often a passing or negated mention
+  const { afd } = data;
+  const headlines = [
+    ...afd.keyMessages,
+    ...afd.hazards.map(hazard => `${hazard.type}. ${hazard.description}`),
+    afd.sections.watchesWarnings?.text ?? '',
+  ];
+  if (headlines.some(mentionsSmoke)) {
+    reasons.push('forecast discussion mentions smoke');
+  }
+
+  if (forecast.some(day => /smoke|wildfire/i.test(day.discussion ?? ''))) {
+    reasons.push('air quality forecast mentions smoke');
+  }
+
+  return reasons;
+}
+
+/**
+ * Whether text mentions smoke other than to rule it out ("no smoke
+ * expected", "smoke is not expected", "smoke has cleared")
+ */
+function mentionsSmoke(text: string): boolean {
+  return text.split(/(?<=[.;!?])\s+/).some(sentence =>
+    /\bsmoke\b/i.test(sentence) &&
+    !/\b(no|not|without|none)\b[^.]*\bsmoke\b/i.test(sentence) &&
+    !/\bsmoke\b[^.]*\b(not|isn't|no longer|cleared?|clearing)\b/i.test(sentence));
+}
+
+/**
+ * Format air quality for the script
+ */
+export function formatAirQualityForScript(airQuality: AirQualityData): string {
+  let output = `AIR QUALITY${airQuality.reportingArea ? ` (${airQuality.reportingArea})` : ''}:\n`;
+
+  if (airQuality.overall) {
+    const { overall } = airQuality;
+    const others = airQuality.current
+      .filter(reading => reading !== overall)
+      .map(reading => `${describePollutant(reading.pollutant)} AQI ${reading.aqi} (${reading.category})`);
+    output += `- Now: AQI ${overall.aqi} (${overall.category}), driven by ${describePollutant(overall.pollutant)}`;
+    output += others.length > 0 ? `; ${others.join(', ')}\n` : '\n';
+    if (overall.category !== 'Good') {
+      output += `- Health guidance: ${getAqiCategoryInfo(overall.category).guidance}\n`;
+    }
+  }
+
+  for (const day of airQuality.forecast) {
+    const aqi = day.aqi !== null && day.aqi >= 0 ? `AQI ${day.aqi}, ` : '';
+    output += `- Forecast ${day.date}: ${describePollutant(day.pollutant)} ${aqi}${day.category}${day.actionDay ? ' - ACTION DAY' : ''}\n`;
+  }
+
+  if (airQuality.smoke) {
+    output += `- WILDFIRE SMOKE affecting the area (${airQuality.smokeReasons.join('; ')})\n`;
+  }
+
+  return output;
+}
+
+function toReading(item: AirNowObservation | AirNowForecast): AirQualityReading {
+  const aqi = item.AQI >= 0 ? item.AQI : null;
+  const byNumber = AQI_CATEGORIES.find(category => category.number === item.Category.Number);
+  return {
+    pollutant: item.ParameterName,
+    aqi,
+    category: byNumber?.name ?? (aqi !== null ? getAqiCategory(aqi) : 'Good'),
+  };
+}
+
+function describePollutant(parameter: string): string {
+  switch (parameter.toUpperCase()) {
+    case 'O3':
+    case 'OZONE':
+      return 'ozone';
+    case 'PM2.5':
+      return 'fine particles (PM2.5)';
+    case 'PM10':
+      return 'coarse particles (PM10)';
+    default:
+      return parameter;
+  }
+}
+
+async function fetchAirNow<T>(path: string, location: Pick<LocationConfig, 'lat' | 'lon'>): Promise<T> {
+  const { airNowUrl, airNowApiKey } = getConfig();
+  const params = new URLSearchParams({
+    format: 'application/json',
+    latitude: String(location.lat),
+    longitude: String(location.lon),
+    distance: String(AIRNOW_DISTANCE_MILES),
+    API_KEY: airNowApiKey ?? '',
+  });
+
+  const response = await cachedFetch(`${airNowUrl}${path}?${params}`, { endpoint: 'airnow' });
+  if (!response.ok) {
+    // Keep the API key out of logs
+    throw new Error(`AirNow request failed: ${response.status} ${response.statusText} (${path})`);
+  }
+
+  return JSON.parse(response.body) as T;
+}
@@ -0,0 +1,134 @@
+/**
+ * Alerts
+ *
+ * Fetch active NWS watches, warnings and advisories (CAP/GeoJSON) for a
+ * location and map them into Hazard records.
+ */
+
+import { fetchNwsJson, NWS_API_BASE } from './nws-api';
+import type { AlertSeverity, Hazard, WeatherData } from './types';
+import type { LocationConfig } from './locations';
+
+/**
+ * Alert feature as returned by /alerts/active
+ */
+interface NWSAlertFeature {
+  properties: {
+    id: string;
+    areaDesc: string;
+    geocode?: { UGC?: string[] };
+    onset: string | null;
+    effective: string | null;
+    expires: string | null;
+    ends: string | null;
+    status: string;
+    messageType: string;
+    severity: string;
+    certainty: string;
+    urgency: string;
+    event: string;
+    headline: string | null;
+    description: string | null;
+    instruction: string | null;
+  };
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  Extreme: 0,
+  Severe: 1,
+  Moderate: 2,
+  Minor: 3,
+  Unknown: 4,
+};
+
+/**
+ * Fetch active alerts for the location's forecast zone (or point if no zone is configured)
+ */
+export async function fetchActiveAlerts(location: LocationConfig): Promise<Hazard[]> {
+  const query = location.forecastZone
+    ? `zone=${location.forecastZone}`
+    : `point=${location.lat.toFixed(4)},${location.lon.toFixed(4)}`;
+  const json = await fetchNwsJson<{ features: NWSAlertFeature[] }>(
+    `${NWS_API_BASE}/alerts/active?${query}`,
+    'nws-alerts'
+  );
+
+  return parseAlerts(json);
+}
+
+/**
+ * Parse an alerts GeoJSON document into hazards, most severe first
+ */
+export function parseAlerts(json: { features?: NWSAlertFeature[] }): Hazard[] {
+  const hazards = (json.features || [])
+    .map(feature => feature.properties)
+    .filter(alert => alert.status === 'Actual' && alert.messageType !== 'Cancel')
+    .map(alertToHazard);
+
+  // The same event is often issued for several overlapping zones - keep one
+  const seen = new Set<string>();
+  const unique = hazards.filter(hazard => {
+    const key = `${hazard.event}|${hazard.onset}|${hazard.expires}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique.sort(
+    (a, b) => SEVERITY_RANK[a.severity || 'Unknown'] - SEVERITY_RANK[b.severity || 'Unknown']
+  );
+}
+
+/**
+ * Hazards to present for a weather package
+ *
+ * Alerts are authoritative when they were fetched (even if none are active);
+ * AFD-derived hazards are only used when alerts are unavailable.
+ */
+export function getActiveHazards(data: WeatherData): Hazard[] {
+  return data.alerts ?? data.afd.hazards;
+}
+
+/**
+ * Map CAP alert properties into a Hazard
+ */
+function alertToHazard(alert: NWSAlertFeature['properties']): Hazard {
+  const onset = alert.onset || alert.effective || undefined;
+  const expires = alert.ends || alert.expires || undefined;
+
+  return {
+    type: alert.event,
+    areas: alert.areaDesc.split(';').map(area => area.trim()).filter(Boolean),
+    timing: formatTiming(onset, expires),
+    description: alert.headline || firstParagraph(alert.description),
+    source: 'alert',
+    event: alert.event,
+    severity: normalizeSeverity(alert.severity),
+    urgency: alert.urgency,
+    certainty: alert.certainty,
+    onset,
+    expires,
+    zones: alert.geocode?.UGC || [],
+    instruction: alert.instruction ? cleanText(alert.instruction) : undefined,
+  };
+}
+
+function formatTiming(onset?: string, expires?: string): string {
+  if (onset && expires) return `${onset} until ${expires}`;
+  if (expires) return `until ${expires}`;
+  if (onset) return `from ${onset}`;
+  return '';
+}
+
+function normalizeSeverity(severity: string): AlertSeverity {
+  return severity in SEVERITY_RANK ? (severity as AlertSeverity) : 'Unknown';
+}
+
+function firstParagraph(text: string | null): string {
+  if (!text) return '';
+  return cleanText(text.split(/\n\s*\n/)[0]);
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
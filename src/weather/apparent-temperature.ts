@@ -0,0 +1,58 @@
+/**
+ * Apparent Temperature
+ *
+ * NWS wind chill and heat index formulas, for sources that do not
+ * provide "feels like" values directly.
+ */
+
+/**
+ * Wind chill (°F) - defined only at or below 50°F with wind of at least 3 mph
+ */
+export function windChill(temperatureF: number, windSpeedMph: number): number | null {
+  if (temperatureF > 50 || windSpeedMph < 3) {
+    return null;
+  }
+
+  const v = Math.pow(windSpeedMph, 0.16);
+  return Math.round(35.74 + 0.6215 * temperatureF - 35.75 * v + 0.4275 * temperatureF * v);
+}
+
+/**
+ * Heat index (°F) - defined only at or above 80°F
+ *
+ * Rothfusz regression with the NWS low- and high-humidity adjustments.
+ */
+export function heatIndex(temperatureF: number, humidity: number): number | null {
+  if (temperatureF < 80) {
+    return null;
+  }
+
+  const t = temperatureF;
+  const rh = humidity;
+
+  // Simple formula first; the regression only applies above ~80°F
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((simple + t) / 2 < 80) {
+    return Math.round(simple);
+  }
+
+  let hi = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh
+    - 0.00683783 * t * t - 0.05481717 * rh * rh + 0.00122874 * t * t * rh
+    + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+
+  if (rh < 13 && t >= 80 && t <= 112) {
+    hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t >= 80 && t <= 87) {
+    hi += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+
+  return Math.round(hi);
+}
+
+/**
+ * "Feels like" temperature: wind chill when cold, heat index when hot,
+ * otherwise the air temperature
+ */
+export function feelsLike(temperatureF: number, windSpeedMph: number, humidity: number): number {
+  return windChill(temperatureF, windSpeedMph) ?? heatIndex(temperatureF, humidity) ?? temperatureF;
+}
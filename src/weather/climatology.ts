@@ -0,0 +1,437 @@
+/**
+ * Climatology
+ *
+ * Daily normals and records per location, loaded from CSV exports such as
+ * NOAA NOWData ("Daily normals" and "Daily records" tables). Files come from
+ * the location's `climateFiles` or every .csv under CLIMATE_DIR/<location key>/;
+ * rows from all files are merged by calendar day.
+ *
+ * Columns are recognized by header keywords, so exports with extra columns
+ * or title lines above the header load as-is:
+ * - Date / Day: "10-19", "10/19", "Oct 19" or a full YYYY-MM-DD
+ * - Normal high / low: "Normal Max", "Mean Max Temperature Normal", "Normal High"...
+ * - Record high / low: "Highest Max Temperature", "Record High", "Lowest Min"...
+ * Record years come from "78 (1950)" style values or a "Year" column right
+ * after the record column. "M" and blank cells are missing values.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfig } from '../utils/config';
+import type { LocationConfig } from './locations';
+import type { WeatherData } from './types';
+
+// Forecast within this many degrees of a record is "near record"
+const NEAR_RECORD_MARGIN = 3; // °F
+// Departures smaller than this are "near normal" in the script
+const NEAR_NORMAL_MARGIN = 3; // °F
+
+/**
+ * Normals and records for one calendar day (°F)
+ */
+export interface ClimateDay {
+  monthDay: string; // MM-DD
+  normalHigh: number | null;
+  normalLow: number | null;
+  recordHigh: number | null;
+  recordHighYear: number | null;
+  recordLow: number | null;
+  recordLowYear: number | null;
+}
+
+/**
+ * Climate dataset for a location, keyed by MM-DD
+ */
+export interface Climatology {
+  sources: string[];
+  days: Map<string, ClimateDay>;
+}
+
+/**
+ * A temperature compared against the normal and record for its day
+ */
+export interface TemperatureAnomaly {
+  value: number;
+  normal: number | null;
+  departure: number | null; // value - normal, rounded
+  record: number | null; // Record high for highs, record low for lows
+  recordYear: number | null;
+  recordStatus: 'breaks' | 'ties' | 'near' | null;
+}
+
+/**
+ * Forecast high/low for one day against its climatology
+ */
+export interface DayClimateComparison {
+  date: string;
+  name: string;
+  high: TemperatureAnomaly | null;
+  low: TemperatureAnomaly | null;
+}
+
+/**
+ * Current temperature against the normal range for the broadcast date
+ */
+export interface CurrentClimateComparison {
+  temperature: number;
+  normalHigh: number | null;
+  normalLow: number | null;
+  departure: number | null; // Degrees outside the normal range; 0 within it
+}
+
+/**
+ * Everything the script and summary slide need from the climatology
+ */
+export interface ClimateComparison {
+  date: string; // Broadcast date (YYYY-MM-DD)
+  normals: ClimateDay | null;
+  current: CurrentClimateComparison | null;
+  days: DayClimateComparison[];
+}
+
+type ColumnRole = 'date' | 'normalHigh' | 'normalLow' | 'recordHigh' | 'recordLow';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Climate files configured for a location
+ */
+export function getClimateFiles(location: LocationConfig): string[] {
+  if (location.climateFiles) {
+    return location.climateFiles;
+  }
+
+  const dir = join(getConfig().climateDir, location.key);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(name => name.toLowerCase().endsWith('.csv'))
+    .sort()
+    .map(name => join(dir, name));
+}
+
+/**
+ * Load the climatology for a location; null when it has no dataset
+ */
+export function loadClimatology(location: LocationConfig): Climatology | null {
+  const files = getClimateFiles(location);
+  if (files.length === 0) {
+    return null;
+  }
+
+  const days = new Map<string, ClimateDay>();
+  for (const file of files) {
+    if (!existsSync(file)) {
+      throw new Error(`Climate file not found: ${file}`);
+    }
+    for (const day of parseClimateCsv(readFileSync(file, 'utf-8'), file)) {
+      const existing = days.get(day.monthDay);
+      days.set(day.monthDay, existing ? mergeClimateDays(existing, day) : day);
+    }
+  }
+
+  return { sources: files, days };
+}
+
+/**
+ * Parse a climate CSV export into per-day rows
+ */
+export function parseClimateCsv(csv: string, label = 'climate CSV'): ClimateDay[] {
+  const rows = csv.split(/\r?\n/).filter(line => line.trim() !== '').map(parseCsvLine);
+
+  const headerIndex = rows.findIndex(row => {
+    const roles = row.map(classifyColumn);
+    return roles.includes('date') && roles.some(role => role !== null && role !== 'date');
+  });
+  if (headerIndex === -1) {
+    throw new Error(`No date and temperature columns found in ${label}`);
+  }
+
+  const header = rows[headerIndex];
+  const roles = header.map(classifyColumn);
+  const dateColumn = roles.indexOf('date');
+  // A "Year" column belongs to the record column just before it
+  const yearColumns = new Map<number, number>();
+  header.forEach((name, index) => {
+    if (index > 0 && /\byear\b/i.test(name) && roles[index] === null) {
+      yearColumns.set(index - 1, index);
+    }
+  });
+
+  const days: ClimateDay[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const monthDay = parseMonthDay(row[dateColumn] ?? '');
+    if (!monthDay) continue; // Summary rows, footnotes
+
+    const day = emptyClimateDay(monthDay);
+    roles.forEach((role, index) => {
+      if (role === null || role === 'date') return;
+      const { value, year } = parseClimateValue(row[index] ?? '');
+      const yearColumn = yearColumns.get(index);
+      const recordYear = year ?? (yearColumn !== undefined ? parseYear(row[yearColumn] ?? '') : null);
+
+      day[role] = value;
+      if (role === 'recordHigh') day.recordHighYear = recordYear;
+      if (role === 'recordLow') day.recordLowYear = recordYear;
+    });
+    days.push(day);
+  }
+
+  if (days.length === 0) {
+    throw new Error(`No daily rows found in ${label}`);
+  }
+
+  return days;
+}
+
+/**
+ * Normals and records for a date; Feb 29 falls back to Feb 28
+ */
+export function getClimateDay(climatology: Climatology, date: string): ClimateDay | null {
+  const monthDay = date.slice(5, 10);
+  return climatology.days.get(monthDay)
+    ?? (monthDay === '02-29' ? climatology.days.get('02-28') ?? null : null);
+}
+
+/**
+ * Compare current conditions and the daily forecast with the climatology
+ */
+export function compareWithClimatology(
+  data: WeatherData,
+  climatology: Climatology,
+  date: string
+): ClimateComparison {
+  const normals = getClimateDay(climatology, date);
+  const { temperature } = data.forecast.current;
+
+  const current: CurrentClimateComparison | null = normals
+    ? {
+      temperature,
+      normalHigh: normals.normalHigh,
+      normalLow: normals.normalLow,
+      departure: rangeDeparture(temperature, normals.normalLow, normals.normalHigh),
+    }
+    : null;
+
+  const days = (data.forecast.daily || []).map(day => {
+    const climate = getClimateDay(climatology, day.date);
+    return {
+      date: day.date,
+      name: day.name,
+      high: day.high !== null && climate ? compareTemperature(day.high, climate.normalHigh, climate.recordHigh, climate.recordHighYear, 'high') : null,
+      low: day.low !== null && climate ? compareTemperature(day.low, climate.normalLow, climate.recordLow, climate.recordLowYear, 'low') : null,
+    };
+  });
+
+  return { date, normals, current, days };
+}
+
+/**
+ * Format the comparison for the script, e.g. "10°F above normal"
+ */
+export function formatClimateComparison(comparison: ClimateComparison): string {
+  const { normals, current } = comparison;
+  let output = `CLIMATE CONTEXT (normals and records for ${comparison.date}):\n`;
+
+  if (normals) {
+    const normalRange = [
+      normals.normalHigh !== null ? `normal high ${formatTemp(normals.normalHigh)}` : null,
+      normals.normalLow !== null ? `normal low ${formatTemp(normals.normalLow)}` : null,
+    ].filter(Boolean).join(', ');
+    if (normalRange) output += `- Normals: ${normalRange}\n`;
+
+    const records = [
+      normals.recordHigh !== null ? `record high ${formatTemp(normals.recordHigh)}${formatYear(normals.recordHighYear)}` : null,
+      normals.recordLow !== null ? `record low ${formatTemp(normals.recordLow)}${formatYear(normals.recordLowYear)}` : null,
+    ].filter(Boolean).join(', ');
+    if (records) output += `- Records: ${records}\n`;
+  }
+
+  if (current && current.departure !== null) {
+    output += current.departure === 0
+      ? `- Right now: ${formatTemp(current.temperature)}, within the normal range for the date\n`
+      : `- Right now: ${formatTemp(current.temperature)}, ${describeDeparture(current.departure)} the normal range\n`;
+  }
+
+  for (const day of comparison.days.slice(0, 3)) {
+    const parts = [
+      day.high ? `high ${formatTemp(day.high.value)} ${describeAnomaly(day.high, 'high')}` : null,
+      day.low ? `low ${formatTemp(day.low.value)} ${describeAnomaly(day.low, 'low')}` : null,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      output += `- ${day.name}: ${parts.join('; ')}\n`;
+    }
+  }
+
+  return output;
+}
+
+function compareTemperature(
+  value: number,
+  normal: number | null,
+  record: number | null,
+  recordYear: number | null,
+  kind: 'high' | 'low'
+): TemperatureAnomaly {
+  let recordStatus: TemperatureAnomaly['recordStatus'] = null;
+  if (record !== null) {
+    // Positive when the forecast is beyond the record
+    const beyond = kind === 'high' ? value - record : record - value;
+    if (beyond > 0) recordStatus = 'breaks';
+    else if (beyond === 0) recordStatus = 'ties';
+    else if (beyond >= -NEAR_RECORD_MARGIN) recordStatus = 'near';
+  }
+
+  return {
+    value,
+    normal,
+    departure: normal !== null ? Math.round(value - normal) : null,
+    record,
+    recordYear,
+    recordStatus,
+  };
+}
+
+function describeAnomaly(anomaly: TemperatureAnomaly, kind: 'high' | 'low'): string {
+  const parts: string[] = [];
+  if (anomaly.departure !== null) {
+    parts.push(Math.abs(anomaly.departure) < NEAR_NORMAL_MARGIN
+      ? `near the normal of ${formatTemp(anomaly.normal!)}`
+      : `${describeDeparture(anomaly.departure)} the normal of ${formatTemp(anomaly.normal!)}`);
+  }
+  if (anomaly.recordStatus && anomaly.record !== null) {
+    const verb = { breaks: 'would break', ties: 'would tie', near: 'is close to' }[anomaly.recordStatus];
+    parts.push(`${verb} the record ${kind} of ${formatTemp(anomaly.record)}${formatYear(anomaly.recordYear)}`);
+  }
+  return parts.length > 0 ? `(${parts.join(', ')})` : '';
+}
+
+function describeDeparture(departure: number): string {
+  const degrees = Math.abs(departure);
+  return `${degrees} degree${degrees === 1 ? '' : 's'} ${departure > 0 ? 'above' : 'below'}`;
+}
+
+function rangeDeparture(value: number, low: number | null, high: number | null): number | null {
+  if (low === null || high === null) return null;
+  if (value > high) return Math.round(value - high);
+  if (value < low) return Math.round(value - low);
+  return 0;
+}
+
+function formatTemp(value: number): string {
+  return `${Math.round(value)}°F`;
+}
+
+function formatYear(year: number | null): string {
+  return year !== null ? ` (${year})` : '';
+}
+
+function classifyColumn(name: string): ColumnRole | null {
+  const header = name.toLowerCase();
+  const isHigh = /\b(max|maximum|high|highest)\b/.test(header);
+  const isLow = /\b(min|minimum|low|lowest)\b/.test(header);
+
+  if (/^(date|day|month-day)$/.test(header.trim())) return 'date';
+  if (/\b(precip|snow|year|rank)\b/.test(header)) return null;
+  if (header.includes('normal') || header.includes('mean') || header.includes('average')) {
+    if (isHigh && !isLow) return 'normalHigh';
+    if (isLow && !isHigh) return 'normalLow';
+    return null;
+  }
+  // "Highest Max" is the record high; "Highest Min" (warmest low) isn't tracked
+  if (/highest max|record max|record high/.test(header) || (header.includes('record') && isHigh && !isLow)) return 'recordHigh';
+  if (/lowest min|record min|record low/.test(header) || (header.includes('record') && isLow && !isHigh)) return 'recordLow';
+  return null;
+}
+
+function parseMonthDay(value: string): string | null {
+  const text = value.trim();
+  let month: number | undefined;
+  let day: number | undefined;
+
+  let match = text.match(/^\d{4}-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    [month, day] = [Number(match[1]), Number(match[2])];
+  } else if ((match = text.match(/^(\d{1,2})[-/](\d{1,2})(?:[-/]\d{2,4})?$/))) {
+    [month, day] = [Number(match[1]), Number(match[2])];
+  } else if ((match = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})$/))) {
+    [month, day] = [MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1, Number(match[2])];
+  } else if ((match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3,})$/))) {
+    [month, day] = [MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1, Number(match[1])];
+  }
+
+  if (!month || !day || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  return `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseClimateValue(value: string): { value: number | null; year: number | null } {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(?:\((\d{4})\))?/);
+  if (!match) {
+    return { value: null, year: null }; // "M", "-", blank
+  }
+  return { value: Number(match[1]), year: match[2] ? Number(match[2]) : null };
+}
+
+function parseYear(value: string): number | null {
+  const match = value.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+function emptyClimateDay(monthDay: string): ClimateDay {
+  return {
+    monthDay,
+    normalHigh: null,
+    normalLow: null,
+    recordHigh: null,
+    recordHighYear: null,
+    recordLow: null,
+    recordLowYear: null,
+  };
+}
+
+// Later files fill in what earlier ones left missing
+function mergeClimateDays(base: ClimateDay, extra: ClimateDay): ClimateDay {
+  return {
+    monthDay: base.monthDay,
+    normalHigh: base.normalHigh ?? extra.normalHigh,
+    normalLow: base.normalLow ?? extra.normalLow,
+    recordHigh: base.recordHigh ?? extra.recordHigh,
+    recordHighYear: base.recordHigh !== null ? base.recordHighYear : extra.recordHighYear,
+    recordLow: base.recordLow ?? extra.recordLow,
+    recordLowYear: base.recordLow !== null ? base.recordLowYear : extra.recordLowYear,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Daily Forecast
+ *
+ * Parse the NWS 7-day forecast into daily periods, and aggregate the
+ * hourly series when no 7-day forecast is available.
+ */
+
+import type { DailyForecast, HourlyForecast } from './types';
+
+/**
+ * Forecast period as returned by /gridpoints/{office}/{x},{y}/forecast
+ */
+interface NWSForecastPeriod {
+  name: string;
+  startTime: string;
+  isDaytime: boolean;
+  temperature: number;
+  temperatureUnit: string;
+  probabilityOfPrecipitation?: { value: number | null };
+  shortForecast: string;
+  detailedForecast: string;
+  icon: string;
+}
+
+/**
+ * Summary statistics over a run of forecast hours (null when no hour has the element)
+ */
+export interface HourlyAggregate {
+  high: number | null;
+  low: number | null;
+  maxPrecipProbability: number | null;
+  maxWindSpeed: number | null;
+  dominantDescription: string;
+}
+
+/**
+ * Parse a 7-day forecast JSON document into daily periods
+ *
+ * NWS issues alternating day/night periods; a day's high comes from its
+ * daytime period and its low from the following night.
+ */
+export function parseDailyForecastJson(raw: string, maxDays: number = 7): DailyForecast[] {
+  const json = JSON.parse(raw) as { properties?: { periods?: NWSForecastPeriod[] } };
+  const periods = json.properties?.periods || [];
+  const days = new Map<string, DailyForecast>();
+
+  for (const period of periods) {
+    const date = period.startTime.slice(0, 10);
+    const temperature = period.temperatureUnit === 'C'
+      ? Math.round(period.temperature * 9 / 5 + 32)
+      : period.temperature;
+    const precip = period.probabilityOfPrecipitation?.value ?? 0;
+
+    let day = days.get(date);
+    if (!day) {
+      day = {
+        date,
+        name: period.name,
+        high: null,
+        low: null,
+        precipProbability: precip,
+        summary: period.shortForecast,
+        detailedForecast: period.detailedForecast,
+        icon: iconCodeFromUrl(period.icon),
+      };
+      days.set(date, day);
+    }
+
+    if (period.isDaytime) {
+      // Daytime wording and name take precedence over the night
+      day.high = temperature;
+      day.name = period.name;
+      day.summary = period.shortForecast;
+      day.detailedForecast = period.detailedForecast;
+      day.icon = iconCodeFromUrl(period.icon);
+    } else {
+      day.low = temperature;
+    }
+    day.precipProbability = Math.max(day.precipProbability, precip);
+  }
+
+  return [...days.values()].slice(0, maxDays);
+}
+
+/**
+ * Aggregate a run of hourly forecasts
+ */
+export function aggregateHourly(hours: HourlyForecast[]): HourlyAggregate {
+  if (hours.length === 0) {
+    throw new Error('Cannot aggregate an empty hourly series');
+  }
+
+  const temps = present(hours.map(h => h.temperature));
+  const precips = present(hours.map(h => h.precipProbability));
+  const winds = present(hours.map(h => h.windSpeed));
+
+  return {
+    high: temps.length > 0 ? Math.max(...temps) : null,
+    low: temps.length > 0 ? Math.min(...temps) : null,
+    maxPrecipProbability: precips.length > 0 ? Math.max(...precips) : null,
+    maxWindSpeed: winds.length > 0 ? Math.max(...winds) : null,
+    dominantDescription: mostCommon(hours.map(h => h.weatherDescription)),
+  };
+}
+
+/**
+ * Group hourly forecasts by date and aggregate each day
+ *
+ * Used as the outlook when the 7-day forecast is unavailable; only covers
+ * the span of the hourly series (about two days).
+ */
+export function aggregateHourlyByDay(hourly: HourlyForecast[]): DailyForecast[] {
+  const byDate = new Map<string, HourlyForecast[]>();
+
+  for (const hour of hourly) {
+    const hours = byDate.get(hour.date) || [];
+    hours.push(hour);
+    byDate.set(hour.date, hours);
+  }
+
+  return [...byDate.entries()].map(([date, hours]) => {
+    const agg = aggregateHourly(hours);
+    return {
+      date,
+      name: weekdayName(date),
+      high: agg.high,
+      low: agg.low,
+      precipProbability: agg.maxPrecipProbability ?? 0,
+      summary: agg.dominantDescription,
+      detailedForecast: '',
+      icon: iconCodeFromDescription(agg.dominantDescription),
+    };
+  });
+}
+
+/**
+ * Format daily periods as outlook lines for the script
+ */
+export function formatOutlook(daily: DailyForecast[]): string {
+  return daily
+    .map(day => {
+      const temps = [
+        day.high !== null ? `High ${day.high}°F` : null,
+        day.low !== null ? `Low ${day.low}°F` : null,
+      ].filter(Boolean).join(' / ');
+      const precip = day.precipProbability > 0 ? ` (precip ${day.precipProbability}%)` : '';
+      return `- ${day.name}: ${temps}, ${day.summary}${precip}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Extract the condition code from an NWS icon URL
+ * e.g. https://api.weather.gov/icons/land/day/snow,40?size=medium -> "snow"
+ */
+function iconCodeFromUrl(url: string): string {
+  const match = url.match(/\/(?:day|night)\/([a-z_]+)/);
+  return match ? match[1] : 'few';
+}
+
+/**
+ * Map a weather description to the nearest NWS icon code
+ */
+function iconCodeFromDescription(description: string): string {
+  const lower = description.toLowerCase();
+
+  if (lower.includes('thunder')) return 'tsra';
+  if (lower.includes('snow')) return 'snow';
+  if (lower.includes('sleet') || lower.includes('freezing')) return 'fzra';
+  if (lower.includes('rain') || lower.includes('shower')) return 'rain';
+  if (lower.includes('fog')) return 'fog';
+  if (lower.includes('mostly cloudy')) return 'bkn';
+  if (lower.includes('partly')) return 'sct';
+  if (lower.includes('cloudy') || lower.includes('overcast')) return 'ovc';
+  if (lower.includes('mostly clear') || lower.includes('mostly sunny')) return 'few';
+  return 'skc';
+}
+
+function present(values: Array<number | null>): number[] {
+  return values.filter((value): value is number => value !== null);
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Weekday of a calendar date, e.g. "2025-12-08" -> "Monday"
+ */
+export function weekdayName(date: string): string {
+  // Noon UTC keeps the calendar date stable regardless of the runtime timezone
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+}
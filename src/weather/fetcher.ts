@@ -1,127 +1,69 @@
 /**
  * Weather Fetcher
  *
- * Fetch weather data from NWS with retry logic and fallback support.
+ * Fetch weather data from the location's provider with fallback support.
  */
 
 import { parseAFD } from './afd-parser';
-import { parseForecast } from './forecast-parser';
-import type { WeatherData, WeatherFetchResult, AFDData, ForecastData } from './types';
+import { getActiveHazards } from './alerts';
+import { getWeatherProvider } from './provider';
+import { formatOutlook } from './daily-forecast';
+import { translateAFD } from './afd-translator';
+import { DEFAULT_GLOSSARY, loadGlossary, type Glossary } from './afd-glossary';
+import { formatWeatherDiff, type WeatherDiff } from './snapshot-diff';
+import { formatClimateComparison, type ClimateComparison } from './climatology';
+import { formatAirQualityForScript, getAirQuality } from './air-quality';
+import type {
+  WeatherData,
+  WeatherFetchResult,
+  WeatherFetchOptions,
+} from './types';
 import type { BroadcastTimeContext } from '../utils/time-context';
+import { describeMoonPhase, getSkyPhase, isMoonUp, type AstronomyContext } from '../utils/astronomy';
+import { getConfig } from '../utils/config';
+import type { LocationConfig } from './locations';
 import { getDb, schema } from '../storage/db';
 import { nanoid } from 'nanoid';
-import { desc, eq } from 'drizzle-orm';
-
-// Location configurations for NWS data
-export interface LocationConfig {
-  name: string;
-  nwsOffice: string;
-  lat: number;
-  lon: number;
-  timezone: string;
-}
-
-export const LOCATIONS: Record<string, LocationConfig> = {
-  denver: {
-    name: 'Denver, Colorado',
-    nwsOffice: 'BOU', // Boulder NWS office
-    lat: 39.77,
-    lon: -104.89,
-    timezone: 'America/Denver',
-  },
-  nyc: {
-    name: 'New York City',
-    nwsOffice: 'OKX', // New York NWS office
-    lat: 40.7128,
-    lon: -74.0060,
-    timezone: 'America/New_York',
-  },
-};
-
-// Current location (can be changed via setLocation)
-let currentLocation: LocationConfig = LOCATIONS.denver;
-
-/**
- * Set the active location for weather fetching
- */
-export function setLocation(locationKey: string): void {
-  const loc = LOCATIONS[locationKey.toLowerCase()];
-  if (!loc) {
-    throw new Error(`Unknown location: ${locationKey}. Available: ${Object.keys(LOCATIONS).join(', ')}`);
-  }
-  currentLocation = loc;
-}
+import { and, desc, eq, gte } from 'drizzle-orm';
 
 /**
- * Get the current location
+ * Fetch weather data with fallback
+ *
+ * Retries happen per HTTP request under each endpoint's policy (see
+ * http-cache), so the provider is called once here.
  */
-export function getCurrentLocation(): LocationConfig {
-  return currentLocation;
-}
+export async function fetchWeatherData(
+  location: LocationConfig,
+  episodeId?: string,
+  options: WeatherFetchOptions = {}
+): Promise<WeatherFetchResult> {
+  const provider = getWeatherProvider(location);
+  let lastError: Error | null = null;
 
-/**
- * Build NWS URLs for current location
- */
-function getNWSUrls(): { afd: string; forecast: string } {
-  const { nwsOffice, lat, lon } = currentLocation;
-  return {
-    afd: `https://forecast.weather.gov/product.php?site=${nwsOffice}&issuedby=${nwsOffice}&product=AFD&format=txt&version=1&glossary=0`,
-    forecast: `https://forecast.weather.gov/MapClick.php?lat=${lat}&lon=${lon}&unit=0&lg=english&FcstType=digital`,
-  };
-}
+  try {
+    console.log('  Fetching weather data...');
+    const weatherData = await provider.fetchWeather(location, options);
 
-// Retry configuration
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 1000;
+    // Air quality comes from its own source for every provider
+    weatherData.airQuality = await getAirQuality(location, weatherData);
 
-/**
- * Fetch weather data with retry and fallback
- */
-export async function fetchWeatherData(episodeId?: string): Promise<WeatherFetchResult> {
-  let lastError: Error | null = null;
+    // Save snapshot for future fallback
+    await saveWeatherSnapshot(weatherData, episodeId);
 
-  // Try to fetch fresh data with retries
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      console.log(`  Fetching weather data (attempt ${attempt}/${MAX_RETRIES})...`);
-
-      const [afd, forecast] = await Promise.all([
-        fetchAFD(),
-        fetchForecast(),
-      ]);
-
-      const weatherData: WeatherData = {
-        afd,
-        forecast,
-        fetchedAt: new Date().toISOString(),
-        isStale: false,
-      };
-
-      // Save snapshot for future fallback
-      await saveWeatherSnapshot(weatherData, episodeId);
-
-      return {
-        success: true,
-        data: weatherData,
-        usedFallback: false,
-      };
-
-    } catch (error) {
-      lastError = error as Error;
-      console.log(`  Attempt ${attempt} failed: ${lastError.message}`);
-
-      if (attempt < MAX_RETRIES) {
-        // Exponential backoff
-        const delay = RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-        console.log(`  Retrying in ${delay}ms...`);
-        await sleep(delay);
-      }
-    }
+    return {
+      success: true,
+      data: weatherData,
+      usedFallback: false,
+    };
+  } catch (error) {
+    lastError = error as Error;
+    console.log(`  Fetch failed: ${lastError.message}`);
   }
 
-  // All retries failed - try fallback
+  // Fresh fetch failed - try fallback
   console.log('  Fresh fetch failed, attempting fallback to cached data...');
-  const fallback = await getFallbackData();
+  const maxAgeHours = getConfig().fallbackMaxAgeHours;
+  const fallback = await getFallbackData(location, maxAgeHours);
 
   if (fallback) {
     return {
@@ -131,64 +73,15 @@ export async function fetchWeatherData(episodeId?: string): Promise<WeatherFetch
     };
   }
 
-  // No fallback available
+  // No fallback available - never substitute another location's or an older snapshot
   return {
     success: false,
-    error: lastError?.message || 'Unknown error fetching weather data',
+    error: `${lastError?.message || 'Unknown error fetching weather data'}; ` +
+      `no cached snapshot for ${location.name} from the last ${maxAgeHours} hours (FALLBACK_MAX_AGE_HOURS)`,
     usedFallback: false,
   };
 }
 
-/**
- * Fetch Area Forecast Discussion
- */
-async function fetchAFD(): Promise<AFDData> {
-  const urls = getNWSUrls();
-  const response = await fetch(urls.afd, {
-    headers: {
-      'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`AFD fetch failed: ${response.status} ${response.statusText}`);
-  }
-
-  const text = await response.text();
-
-  // Extract the actual forecast text from HTML wrapper
-  const preMatch = text.match(/<pre[^>]*>([\s\S]*?)<\/pre>/i);
-  const rawText = preMatch ? preMatch[1] : text;
-
-  // Clean HTML entities
-  const cleanedText = rawText
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&amp;/g, '&')
-    .replace(/<[^>]+>/g, ''); // Remove any remaining HTML tags
-
-  return parseAFD(cleanedText);
-}
-
-/**
- * Fetch digital forecast
- */
-async function fetchForecast(): Promise<ForecastData> {
-  const urls = getNWSUrls();
-  const response = await fetch(urls.forecast, {
-    headers: {
-      'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Forecast fetch failed: ${response.status} ${response.statusText}`);
-  }
-
-  const html = await response.text();
-  return parseForecast(html);
-}
-
 /**
  * Save weather snapshot to database for future fallback
  */
@@ -202,6 +95,7 @@ async function saveWeatherSnapshot(
     await db.insert(schema.weatherSnapshots).values({
       id: nanoid(),
       episodeId: episodeId || null,
+      location: data.location || null,
       afdRaw: data.afd.rawText,
       forecastRaw: data.forecast.rawHtml,
       parsedData: JSON.stringify(data),
@@ -215,25 +109,24 @@ async function saveWeatherSnapshot(
 }
 
 /**
- * Get fallback data from most recent snapshot
+ * Get fallback data from the most recent snapshot for a location,
+ * ignoring snapshots older than `maxAgeHours`
  */
-async function getFallbackData(): Promise<WeatherData | null> {
+async function getFallbackData(location: LocationConfig, maxAgeHours: number): Promise<WeatherData | null> {
   try {
-    const db = getDb();
-
-    const snapshots = await db
-      .select()
-      .from(schema.weatherSnapshots)
-      .orderBy(desc(schema.weatherSnapshots.fetchedAt))
-      .limit(1);
+    const snapshot = await getLatestSnapshot(location.key, maxAgeHours);
 
-    if (snapshots.length === 0) {
+    if (!snapshot) {
       return null;
     }
 
-    const snapshot = snapshots[0];
     const parsedData = JSON.parse(snapshot.parsedData || '{}') as WeatherData;
 
+    // Re-parse the AFD so older snapshots pick up the current section structure
+    if (snapshot.afdRaw) {
+      parsedData.afd = parseAFD(snapshot.afdRaw, snapshot.nwsIssuedAt || undefined);
+    }
+
     // Calculate staleness
     const fetchedAt = new Date(snapshot.fetchedAt);
     const staleAge = Math.round((Date.now() - fetchedAt.getTime()) / (1000 * 60 * 60)); // Hours
@@ -250,31 +143,48 @@ async function getFallbackData(): Promise<WeatherData | null> {
 }
 
 /**
- * Check if we have recent weather data (within last 6 hours)
+ * Check if we have recent weather data for a location (within last 6 hours by default)
  */
-export async function hasRecentWeatherData(): Promise<boolean> {
+export async function hasRecentWeatherData(locationKey: string, maxAgeHours: number = 6): Promise<boolean> {
   try {
-    const db = getDb();
-
-    const snapshots = await db
-      .select()
-      .from(schema.weatherSnapshots)
-      .orderBy(desc(schema.weatherSnapshots.fetchedAt))
-      .limit(1);
-
-    if (snapshots.length === 0) {
-      return false;
-    }
-
-    const fetchedAt = new Date(snapshots[0].fetchedAt);
-    const ageHours = (Date.now() - fetchedAt.getTime()) / (1000 * 60 * 60);
-
-    return ageHours < 6;
+    return (await getLatestSnapshot(locationKey, maxAgeHours)) !== null;
   } catch {
     return false;
   }
 }
 
+/**
+ * Most recent snapshot for a location fetched within `maxAgeHours`
+ */
+async function getLatestSnapshot(locationKey: string, maxAgeHours: number) {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000).toISOString();
+
+  const snapshots = await db
+    .select()
+    .from(schema.weatherSnapshots)
+    .where(and(
+      eq(schema.weatherSnapshots.location, locationKey),
+      gte(schema.weatherSnapshots.fetchedAt, cutoff)
+    ))
+    .orderBy(desc(schema.weatherSnapshots.fetchedAt))
+    .limit(1);
+
+  return snapshots[0] ?? null;
+}
+
+/**
+ * Load the AFD glossary, falling back to the built-in entries if the file is invalid
+ */
+function getGlossary(): Glossary {
+  try {
+    return loadGlossary();
+  } catch (error) {
+    console.log(`  Warning: ${error instanceof Error ? error.message : error}`);
+    return DEFAULT_GLOSSARY;
+  }
+}
+
 /**
  * Get the forecast focus description based on time of day
  */
@@ -299,10 +209,64 @@ function getForecastFocusLabel(timeContext?: BroadcastTimeContext): string {
   }
 }
 
+// Sky cover (%) at or below which the moon and stars can be mentioned
+const CLEAR_SKY_COVER = 30;
+
+/**
+ * Format the sun and moon for the script, with local clock times
+ */
+function formatAstronomy(astronomy: AstronomyContext, timezone: string, skyCover: number): string {
+  const clock = (date: Date | null) =>
+    date ? date.toLocaleTimeString('en-US', { timeZone: timezone, hour: 'numeric', minute: '2-digit' }) : 'none';
+  const { sun, moon } = astronomy;
+
+  let output = `SKY AND ASTRONOMY (calculated for the broadcast location and date):\n`;
+  if (sun.sunrise && sun.sunset) {
+    output += `- Sunrise ${clock(sun.sunrise)}, sunset ${clock(sun.sunset)}`;
+    output += sun.civilDawn && sun.civilDusk
+      ? ` (first light ${clock(sun.civilDawn)}, last light ${clock(sun.civilDusk)})\n`
+      : ' (twilight all night)\n';
+  } else {
+    output += `- The sun does not ${astronomy.sunAltitude > 0 ? 'set' : 'rise'} today\n`;
+  }
+  // Rise and set in the order they happen on the calendar day
+  const moonEvents = [
+    { label: 'rises', time: moon.moonrise },
+    { label: 'sets', time: moon.moonset },
+  ].sort((a, b) => (a.time?.getTime() ?? Infinity) - (b.time?.getTime() ?? Infinity));
+  output += `- Moon: ${moon.phaseName}, ${moon.illumination}% illuminated; `;
+  output += moonEvents.map(event => `${event.label} ${clock(event.time)}`).join(', ') + '\n';
+
+  const sunState = {
+    day: 'sun is up',
+    'golden-hour': 'sun is low on the horizon',
+    twilight: 'sun is just below the horizon (twilight)',
+    night: 'sky is dark',
+  }[getSkyPhase(astronomy)];
+  output += `- At broadcast time: the ${sunState}; the moon is ${isMoonUp(astronomy) ? 'above' : 'below'} the horizon\n`;
+
+  if (getSkyPhase(astronomy) === 'night' && skyCover <= CLEAR_SKY_COVER) {
+    output += isMoonUp(astronomy) && moon.illumination >= 5
+      ? `- Skies are mostly clear: the ${describeMoonPhase(moon)} should be visible\n`
+      : `- Skies are mostly clear and the moon is not out: a good night for stars\n`;
+  }
+
+  return output;
+}
+
 /**
  * Format weather data for script generation
+ *
+ * `diff` compares against the previous broadcast and adds a
+ * "SINCE LAST BROADCAST" section when present; `climate` adds normals,
+ * records and departures from normal.
  */
-export function formatWeatherForScript(data: WeatherData, timeContext?: BroadcastTimeContext): string {
+export function formatWeatherForScript(
+  data: WeatherData,
+  timeContext?: BroadcastTimeContext,
+  diff?: WeatherDiff,
+  climate?: ClimateComparison
+): string {
   const { afd, forecast, isStale, staleAge } = data;
   const current = forecast.current;
 
@@ -315,43 +279,87 @@ export function formatWeatherForScript(data: WeatherData, timeContext?: Broadcas
 
   // Time context reminder
   if (timeContext) {
-    output += `[BROADCAST TIME: ${timeContext.timeOfDay} broadcast for ${timeContext.date} at ${timeContext.time} MST]\n`;
+    output += `[BROADCAST TIME: ${timeContext.timeOfDay} broadcast for ${timeContext.date} at ${timeContext.time} ${timeContext.timezoneAbbreviation} in ${timeContext.locationName}]\n`;
     output += `[FORECAST EMPHASIS: ${timeContext.forecastFocus}]\n\n`;
   }
 
   // Current conditions
-  output += `CURRENT CONDITIONS (${current.observationTime}):\n`;
+  if (current.source === 'observed') {
+    output += `CURRENT CONDITIONS (observed at ${current.stationId || 'nearest station'}, ${current.observationTime}):\n`;
+  } else {
+    output += `CURRENT CONDITIONS (FORECAST-DERIVED - no observation available; describe as expected conditions, not as observed):\n`;
+  }
   output += `- Temperature: ${current.temperature}°F\n`;
+  if (current.feelsLike !== undefined) {
+    output += `- Feels Like: ${current.feelsLike}°F (${current.feelsLike < current.temperature ? 'wind chill' : 'heat index'})\n`;
+  }
   output += `- Conditions: ${current.conditions}\n`;
-  output += `- Wind: ${current.windDirection} at ${current.windSpeed} mph\n`;
+  output += `- Wind: ${current.windDirection} at ${current.windSpeed} mph${current.windGust ? `, gusting to ${current.windGust} mph` : ''}\n`;
   output += `- Humidity: ${current.humidity}%\n`;
   output += `- Sky Cover: ${current.skyCover}%\n\n`;
 
+  if (timeContext?.astronomy) {
+    output += formatAstronomy(timeContext.astronomy, timeContext.timezone, current.skyCover) + '\n';
+  }
+
+  if (climate) {
+    output += formatClimateComparison(climate) + '\n';
+  }
+
+  if (diff) {
+    output += formatWeatherDiff(diff) + '\n';
+  }
+
+  // Forecaster shorthand is expanded before it reaches the script prompt
+  const translated = translateAFD(afd, getGlossary());
+
   // Key messages from AFD
-  if (afd.keyMessages.length > 0) {
-    output += `KEY MESSAGES FROM NWS BOULDER:\n`;
-    for (const msg of afd.keyMessages) {
+  if (translated.keyMessages.length > 0) {
+    output += `KEY MESSAGES FROM NWS ${afd.officeName.toUpperCase()}:\n`;
+    for (const msg of translated.keyMessages) {
       output += `- ${msg}\n`;
     }
     output += '\n';
   }
 
   // Hazards
-  if (afd.hazards.length > 0) {
-    output += `ACTIVE HAZARDS:\n`;
-    for (const hazard of afd.hazards) {
-      output += `- ${hazard.type}: ${hazard.description}\n`;
+  const hazards = getActiveHazards(data);
+  if (hazards.length > 0) {
+    output += data.alerts ? `ACTIVE NWS ALERTS:\n` : `HAZARDS MENTIONED IN FORECAST DISCUSSION (alerts feed unavailable):\n`;
+    for (const hazard of hazards) {
+      const rating = hazard.severity ? ` [${hazard.severity} / ${hazard.urgency} / ${hazard.certainty}]` : '';
+      output += `- ${hazard.type}${rating}: ${hazard.description}\n`;
       if (hazard.timing) {
         output += `  Timing: ${hazard.timing}\n`;
       }
+      if (hazard.areas.length > 0) {
+        output += `  Areas: ${hazard.areas.slice(0, 6).join('; ')}${hazard.areas.length > 6 ? '; ...' : ''}\n`;
+      }
+      if (hazard.instruction) {
+        output += `  Instruction: ${hazard.instruction.slice(0, 300)}\n`;
+      }
     }
     output += '\n';
+  } else if (data.alerts) {
+    output += `ACTIVE NWS ALERTS: None in effect\n\n`;
+  }
+
+  if (data.airQuality) {
+    output += formatAirQualityForScript(data.airQuality) + '\n';
   }
 
   // Forecast discussion excerpt
-  if (afd.discussion) {
+  if (translated.discussion) {
     output += `FORECAST DISCUSSION:\n`;
-    output += afd.discussion.slice(0, 1500) + '...\n\n';
+    output += translated.discussion.slice(0, 1500) + '...\n\n';
+  }
+
+  if (translated.whatItMeans.length > 0) {
+    output += `WHAT IT MEANS (plain language):\n`;
+    for (const line of translated.whatItMeans) {
+      output += `- ${line}\n`;
+    }
+    output += '\n';
   }
 
   // Hourly outlook with time-context-aware label
@@ -359,15 +367,23 @@ export function formatWeatherForScript(data: WeatherData, timeContext?: Broadcas
   output += `${forecastLabel}:\n`;
   for (let i = 0; i < Math.min(12, forecast.hourly.length); i++) {
     const h = forecast.hourly[i];
-    output += `- Hour ${h.hour}: ${h.temperature}°F, ${h.weatherDescription}, Wind ${h.windDirection} ${h.windSpeed}mph\n`;
+    const apparent = h.windChill ?? h.heatIndex;
+    const temp = h.temperature !== null
+      ? `${h.temperature}°F${apparent !== null && apparent !== h.temperature ? ` (feels like ${apparent}°F)` : ''}`
+      : 'temp n/a';
+    const wind = h.windSpeed !== null
+      ? `Wind ${[h.windDirection, `${h.windSpeed}mph`].filter(Boolean).join(' ')}${h.windGust ? ` gusting ${h.windGust}mph` : ''}`
+      : 'Wind n/a';
+    const qpf = h.qpf ? `, ${h.qpf}" precip` : '';
+    output += `- ${h.date} Hour ${h.hour}: ${temp}, ${h.weatherDescription}, ${wind}${qpf}\n`;
   }
 
-  return output;
-}
+  // Extended outlook (skip today - it's covered by the hourly outlook)
+  const outlookDays = (forecast.daily || []).slice(1);
+  if (outlookDays.length > 0) {
+    output += `\nEXTENDED OUTLOOK:\n`;
+    output += formatOutlook(outlookDays) + '\n';
+  }
 
-/**
- * Sleep helper
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return output;
 }
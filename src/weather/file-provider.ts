@@ -0,0 +1,72 @@
+/**
+ * File Provider
+ *
+ * Weather from a local JSON file, for fully offline runs and fixtures.
+ * The file is either a complete WeatherData package (e.g. the parsed_data
+ * of a stored snapshot) or an Open-Meteo forecast response.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createEmptyAFD } from './afd-parser';
+import { parseOpenMeteoForecast } from './open-meteo';
+import { weatherDataSchema, type WeatherData } from './types';
+import type { WeatherProvider } from './provider';
+import type { LocationConfig } from './locations';
+
+export const fileProvider: WeatherProvider = {
+  name: 'file',
+
+  async fetchWeather(location: LocationConfig) {
+    if (!location.weatherFile) {
+      throw new Error(`Location ${location.key} has no weatherFile for the file provider`);
+    }
+
+    return loadWeatherFile(location.weatherFile, location.key);
+  },
+};
+
+/**
+ * Read and validate a weather file
+ */
+export function loadWeatherFile(path: string, locationKey?: string): WeatherData {
+  if (!existsSync(path)) {
+    throw new Error(`Weather file not found: ${path}`);
+  }
+
+  let raw: string;
+  let json: Record<string, unknown>;
+  try {
+    raw = readFileSync(path, 'utf-8');
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Could not read weather file ${path}: ${(error as Error).message}`);
+  }
+
+  // Open-Meteo responses have a top-level hourly series and no AFD
+  if (!('afd' in json) && 'hourly' in json) {
+    const forecast = parseOpenMeteoForecast(raw);
+    return {
+      afd: createEmptyAFD('Open-Meteo', forecast.current.observationTime),
+      forecast,
+      provider: 'file',
+      location: locationKey,
+      fetchedAt: new Date(forecast.current.observationTime).toISOString(),
+      isStale: false,
+    };
+  }
+
+  const result = weatherDataSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || 'value'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid weather file ${path}:\n${issues}`);
+  }
+
+  return {
+    ...result.data,
+    provider: 'file',
+    location: locationKey ?? result.data.location,
+    isStale: false,
+  };
+}
@@ -4,117 +4,289 @@
  * Parse NWS digital forecast HTML into structured data.
  */
 
-import type { ForecastData, HourlyForecast, CurrentConditions } from './types';
+import { aggregateHourlyByDay } from './daily-forecast';
+import type { ForecastData, HourlyForecast, CurrentConditions, PrecipLikelihood } from './types';
 
 /**
  * Parse digital forecast HTML into structured data
+ *
+ * If no hour with a temperature can be parsed, a default hour is
+ * substituted so downstream formatting still works, and the result is
+ * flagged with `isPlaceholder`.
  */
-export function parseForecast(html: string): ForecastData {
-  const hourly = parseHourlyData(html);
+export function parseForecast(html: string, referenceDate: Date = new Date()): ForecastData {
+  const parsed = parseHourlyData(html, referenceDate);
+  const isPlaceholder = parsed.every(h => h.temperature === null);
+  const hourly = parsed.length > 0 ? parsed : [createDefaultHourlyForecast()];
   const current = extractCurrentConditions(hourly);
 
   return {
     hourly,
+    daily: aggregateHourlyByDay(hourly),
     current,
     rawHtml: html,
+    ...(isPlaceholder ? { isPlaceholder } : {}),
   };
 }
 
+// Offsets for the zone abbreviations used in the table's "Hour (MST)" header
+const US_TIMEZONE_OFFSETS: Record<string, string> = {
+  EST: '-05:00', EDT: '-04:00',
+  CST: '-06:00', CDT: '-05:00',
+  MST: '-07:00', MDT: '-06:00',
+  PST: '-08:00', PDT: '-07:00',
+  AKST: '-09:00', AKDT: '-08:00',
+  HST: '-10:00',
+};
+
+// Precipitation likelihoods from least to most certain
+const LIKELIHOOD_RANK: Record<PrecipLikelihood, number> = {
+  SChc: 1,
+  Chc: 2,
+  Lkly: 3,
+  Ocnl: 4,
+  Def: 5,
+};
+
+// Spoken names for the precipitation type rows
+const PRECIP_TYPE_NAMES = {
+  rain: 'rain',
+  snow: 'snow',
+  freezingRain: 'freezing rain',
+  sleet: 'sleet',
+  thunder: 'thunderstorms',
+} as const;
+
+/**
+ * Rows of one 24-hour block of the digital forecast table, keyed by label
+ */
+type DigitalTableBlock = Map<string, string[]>;
+
 /**
  * Parse hourly forecast data from HTML table
+ *
+ * The digital forecast page renders 48 hours as two stacked 24-hour tables.
+ * Each block starts with a Date row (a date appears only in the first
+ * column of each day), followed by an "Hour (MST)" row and one row per
+ * weather element.
  */
-function parseHourlyData(html: string): HourlyForecast[] {
+function parseHourlyData(html: string, referenceDate: Date): HourlyForecast[] {
   const hourly: HourlyForecast[] = [];
+  const blocks = parseDigitalTableBlocks(html);
 
-  // Extract table rows - the digital forecast uses a specific table format
-  // Each row is a weather element, each column is an hour
+  let currentDate: string | null = null;
+  let previousHour: number | null = null;
 
-  // Temperature row
-  const tempMatch = html.match(/Temperature[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const temps = extractRowValues(tempMatch?.[1] || '');
+  for (const block of blocks) {
+    const hours = findRow(block, /^hour/);
+    const hourLabel = findRowLabel(block, /^hour/) || '';
+    const offset = US_TIMEZONE_OFFSETS[hourLabel.match(/\(([A-Z]+)\)/)?.[1] || ''] || '';
 
-  // Dewpoint row
-  const dewMatch = html.match(/Dewpoint[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const dews = extractRowValues(dewMatch?.[1] || '');
+    const dates = findRow(block, /^date/);
+    const temps = findRow(block, /^temperature/);
+    const dews = findRow(block, /^dewpoint/);
+    const humidity = findRow(block, /^relative humidity/);
+    const winds = findRow(block, /^(surface wind|wind speed)/);
+    const dirs = findRow(block, /^wind dir/);
+    const gusts = findRow(block, /^gust/);
+    const windChills = findRow(block, /^wind chill/);
+    const heatIndices = findRow(block, /^heat index/);
+    const skies = findRow(block, /^sky cover/);
+    const precips = findRow(block, /^precipitation potential/);
+    const rains = findRow(block, /^rain/);
+    const snows = findRow(block, /^snow/);
+    const thunders = findRow(block, /^thunder/);
+    const freezingRains = findRow(block, /^freezing rain/);
+    const sleets = findRow(block, /^sleet/);
+    const qpfs = findRow(block, /^(qpf|quantitative precip)/);
 
-  // Humidity row
-  const humidMatch = html.match(/Relative Humidity[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const humidity = extractRowValues(humidMatch?.[1] || '');
+    for (let i = 0; i < hours.length && hourly.length < 48; i++) {
+      const hour = parseCellNumber(hours[i]);
+      if (hour === null) continue;
 
-  // Wind speed row
-  const windMatch = html.match(/Wind Speed[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const winds = extractRowValues(windMatch?.[1] || '');
+      // A date cell starts a new day; otherwise an hour wrapping past 23 does
+      const dateCell = parseDateCell(dates[i], referenceDate);
+      if (dateCell) {
+        currentDate = dateCell;
+      } else if (currentDate && previousHour !== null && hour < previousHour) {
+        currentDate = addDays(currentDate, 1);
+      }
+      previousHour = hour;
 
-  // Wind direction row
-  const dirMatch = html.match(/Wind Direction[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const dirs = extractStringValues(dirMatch?.[1] || '');
+      const date = currentDate || toIsoDate(referenceDate);
+      const point: Omit<HourlyForecast, 'weatherDescription'> = {
+        timestamp: `${date}T${String(hour).padStart(2, '0')}:00:00${offset}`,
+        hour,
+        date,
+        temperature: parseCellNumber(temps[i]),
+        dewpoint: parseCellNumber(dews[i]),
+        humidity: parseCellNumber(humidity[i]),
+        windSpeed: parseCellNumber(winds[i]),
+        windDirection: parseCellDirection(dirs[i]),
+        windGust: parseCellNumber(gusts[i]),
+        windChill: parseCellNumber(windChills[i]),
+        heatIndex: parseCellNumber(heatIndices[i]),
+        skyCover: parseCellNumber(skies[i]),
+        precipProbability: parseCellNumber(precips[i]),
+        rain: parseCellLikelihood(rains[i]),
+        snow: parseCellLikelihood(snows[i]),
+        thunder: parseCellLikelihood(thunders[i]),
+        freezingRain: parseCellLikelihood(freezingRains[i]),
+        sleet: parseCellLikelihood(sleets[i]),
+        qpf: parseCellNumber(qpfs[i]),
+      };
 
-  // Sky cover row
-  const skyMatch = html.match(/Sky Cover[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const skies = extractRowValues(skyMatch?.[1] || '');
+      hourly.push({ ...point, weatherDescription: getWeatherDescription(point) });
+    }
+  }
 
-  // Precipitation probability row
-  const precipMatch = html.match(/Precipitation Potential[^<]*<\/td>([\s\S]*?)<\/tr>/i);
-  const precips = extractRowValues(precipMatch?.[1] || '');
+  return hourly;
+}
 
-  // Date/hour headers
-  const dateMatch = html.match(/<th[^>]*>(\d+)<\/th>/g);
-  const hours = dateMatch
-    ? dateMatch.map(h => parseInt(h.match(/(\d+)/)?.[1] || '0', 10))
-    : [];
+/**
+ * Split the digital forecast table into 24-hour blocks
+ *
+ * Each row's first cell is its label; cells spanning several columns are
+ * repeated so every row lines up with the hour columns.
+ */
+function parseDigitalTableBlocks(html: string): DigitalTableBlock[] {
+  const blocks: DigitalTableBlock[] = [];
+  let block: DigitalTableBlock | null = null;
 
-  // Build hourly forecasts
-  const today = new Date().toISOString().split('T')[0];
-  const maxHours = Math.min(48, temps.length);
+  for (const row of html.match(/<tr[^>]*>[\s\S]*?<\/tr>/gi) || []) {
+    const cells: string[] = [];
+    for (const cell of row.match(/<t[dh][^>]*>[\s\S]*?<\/t[dh]>/gi) || []) {
+      const span = parseInt(cell.match(/colspan\s*=\s*["']?(\d+)/i)?.[1] || '1', 10);
+      const text = cellText(cell);
+      for (let i = 0; i < span; i++) {
+        cells.push(text);
+      }
+    }
 
-  for (let i = 0; i < maxHours; i++) {
-    hourly.push({
-      hour: hours[i] || i,
-      date: today, // Simplified - would need better date handling
-      temperature: temps[i] || 0,
-      dewpoint: dews[i] || 0,
-      humidity: humidity[i] || 0,
-      windSpeed: winds[i] || 0,
-      windDirection: dirs[i] || 'N',
-      skyCover: skies[i] || 0,
-      precipProbability: precips[i] || 0,
-      weatherDescription: getWeatherDescription(skies[i] || 0, precips[i] || 0),
-    });
-  }
+    if (cells.length < 2) continue;
+    const label = cells[0].toLowerCase();
 
-  // If parsing failed, create minimal data
-  if (hourly.length === 0) {
-    hourly.push(createDefaultHourlyForecast());
+    if (label.startsWith('date')) {
+      block = new Map();
+      blocks.push(block);
+    }
+    // Rows before the first Date row are page layout, not forecast data
+    if (block && label) {
+      block.set(cells[0], cells.slice(1));
+    }
   }
 
-  return hourly;
+  return blocks;
+}
+
+function findRowLabel(block: DigitalTableBlock, pattern: RegExp): string | undefined {
+  return [...block.keys()].find(label => pattern.test(label.toLowerCase()));
+}
+
+function findRow(block: DigitalTableBlock, pattern: RegExp): string[] {
+  const label = findRowLabel(block, pattern);
+  return label ? block.get(label) || [] : [];
 }
 
 /**
- * Extract numeric values from table row
+ * Strip tags and entities from a table cell
  */
-function extractRowValues(html: string): number[] {
-  const matches = html.match(/>(\d+)</g);
-  return matches ? matches.map(m => parseInt(m.match(/(\d+)/)?.[1] || '0', 10)) : [];
+function cellText(cell: string): string {
+  return cell
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&deg;/gi, '°')
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
 
 /**
- * Extract string values from table row
+ * Parse a numeric cell; blank or "--" cells are missing data
  */
-function extractStringValues(html: string): string[] {
-  const matches = html.match(/>([NSEW]{1,3})</g);
-  return matches ? matches.map(m => m.replace(/[><]/g, '')) : [];
+function parseCellNumber(value: string | undefined): number | null {
+  if (!value || !/^-?\d+(\.\d+)?$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+}
+
+function parseCellLikelihood(value: string | undefined): PrecipLikelihood | null {
+  return value && value in LIKELIHOOD_RANK ? (value as PrecipLikelihood) : null;
+}
+
+function parseCellDirection(value: string | undefined): string | null {
+  return value && /^[NSEW]{1,3}$/.test(value) ? value : null;
 }
 
 /**
- * Get weather description from sky cover and precip
+ * Parse a "MM/DD" date cell into YYYY-MM-DD
+ *
+ * The table omits the year, so pick the one that puts the date closest
+ * to the reference date (handles the December/January boundary).
  */
-function getWeatherDescription(skyCover: number, precipProb: number): string {
-  if (precipProb > 60) {
-    return skyCover > 80 ? 'Rain likely' : 'Chance of rain';
+function parseDateCell(value: string | undefined, referenceDate: Date): string | null {
+  const match = value?.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (!match) {
+    return null;
   }
-  if (precipProb > 30) {
-    return 'Slight chance of rain';
+
+  const month = parseInt(match[1], 10) - 1;
+  const day = parseInt(match[2], 10);
+  const refYear = referenceDate.getUTCFullYear();
+
+  const candidates = [refYear - 1, refYear, refYear + 1].map(year => new Date(Date.UTC(year, month, day)));
+  candidates.sort(
+    (a, b) => Math.abs(a.getTime() - referenceDate.getTime()) - Math.abs(b.getTime() - referenceDate.getTime())
+  );
+
+  return toIsoDate(candidates[0]);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toIsoDate(d);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Get weather description from the precipitation type rows, falling back
+ * to sky cover when no precipitation is forecast
+ */
+function getWeatherDescription(point: Omit<HourlyForecast, 'weatherDescription'>): string {
+  const types = (Object.keys(PRECIP_TYPE_NAMES) as Array<keyof typeof PRECIP_TYPE_NAMES>)
+    .filter(type => point[type] !== null)
+    .map(type => ({ name: PRECIP_TYPE_NAMES[type], likelihood: point[type] as PrecipLikelihood }));
+
+  if (types.length > 0) {
+    // Describe the most likely type(s), e.g. "Chance of rain and snow"
+    const top = Math.max(...types.map(t => LIKELIHOOD_RANK[t.likelihood]));
+    const leading = types.filter(t => LIKELIHOOD_RANK[t.likelihood] === top);
+    const names = leading.map(t => t.name).join(' and ');
+
+    switch (leading[0].likelihood) {
+      case 'SChc': return `Slight chance of ${names}`;
+      case 'Chc': return `Chance of ${names}`;
+      case 'Lkly': return `${capitalize(names)} likely`;
+      case 'Ocnl': return `Occasional ${names}`;
+      case 'Def': return capitalize(names);
+    }
+  }
+
+  // Tables without type rows still carry a probability
+  const { skyCover, precipProbability } = point;
+  if (precipProbability !== null && precipProbability > 60) {
+    return 'Precipitation likely';
+  }
+  if (precipProbability !== null && precipProbability > 30) {
+    return 'Chance of precipitation';
+  }
+  if (skyCover === null) {
+    return 'Conditions unavailable';
   }
   if (skyCover > 80) {
     return 'Cloudy';
@@ -128,38 +300,77 @@ function getWeatherDescription(skyCover: number, precipProb: number): string {
   return 'Clear';
 }
 
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 /**
  * Extract current conditions from hourly data
+ *
+ * Forecast-derived conditions are flagged with source 'forecast' so they
+ * are never presented as an observation. Uses the first hour with a
+ * temperature; elements missing for that hour are taken from the next
+ * hour that has them.
  */
-function extractCurrentConditions(hourly: HourlyForecast[]): CurrentConditions {
-  const current = hourly[0] || createDefaultHourlyForecast();
+export function extractCurrentConditions(hourly: HourlyForecast[]): CurrentConditions {
+  const index = hourly.findIndex(h => h.temperature !== null);
+  const hours = index >= 0 ? hourly.slice(index) : [createDefaultHourlyForecast()];
+  const current = hours[0];
+  const temperature = current.temperature ?? 40;
+  const feelsLike = current.windChill ?? current.heatIndex;
 
   return {
-    temperature: current.temperature,
-    dewpoint: current.dewpoint,
-    humidity: current.humidity,
-    windSpeed: current.windSpeed,
-    windDirection: current.windDirection,
-    skyCover: current.skyCover,
+    temperature,
+    dewpoint: nextAvailable(hours, 'dewpoint') ?? temperature,
+    humidity: nextAvailable(hours, 'humidity') ?? 50,
+    windSpeed: nextAvailable(hours, 'windSpeed') ?? 0,
+    windDirection: nextAvailable(hours, 'windDirection') ?? 'Calm',
+    windGust: current.windGust ?? undefined,
+    feelsLike: feelsLike !== null && feelsLike !== temperature ? feelsLike : undefined,
+    skyCover: nextAvailable(hours, 'skyCover') ?? 50,
     conditions: current.weatherDescription,
     observationTime: new Date().toISOString(),
+    source: 'forecast',
   };
 }
 
+/**
+ * First non-null value of an element, starting from the first hour
+ */
+function nextAvailable<K extends 'dewpoint' | 'humidity' | 'windSpeed' | 'windDirection' | 'skyCover'>(
+  hours: HourlyForecast[],
+  key: K
+): HourlyForecast[K] {
+  return hours.find(h => h[key] !== null)?.[key] ?? null;
+}
+
 /**
  * Create default hourly forecast for fallback
  */
 function createDefaultHourlyForecast(): HourlyForecast {
+  const now = new Date();
+  now.setMinutes(0, 0, 0);
+
   return {
-    hour: new Date().getHours(),
-    date: new Date().toISOString().split('T')[0],
+    timestamp: now.toISOString(),
+    hour: now.getHours(),
+    date: toIsoDate(now),
     temperature: 40,
     dewpoint: 25,
     humidity: 45,
     windSpeed: 10,
     windDirection: 'W',
+    windGust: null,
+    windChill: null,
+    heatIndex: null,
     skyCover: 50,
     precipProbability: 10,
+    rain: null,
+    snow: null,
+    thunder: null,
+    freezingRain: null,
+    sleet: null,
+    qpf: null,
     weatherDescription: 'Partly cloudy',
   };
 }
@@ -179,16 +390,29 @@ export function parseTextForecast(text: string): Partial<ForecastData> {
 
   // Create minimal forecast
   if (temps.length > 0) {
+    const now = new Date();
+    now.setMinutes(0, 0, 0);
+
     hourly.push({
-      hour: new Date().getHours(),
-      date: new Date().toISOString().split('T')[0],
+      timestamp: now.toISOString(),
+      hour: now.getHours(),
+      date: toIsoDate(now),
       temperature: temps[0],
-      dewpoint: Math.round(temps[0] * 0.7),
-      humidity: 50,
-      windSpeed: 10,
-      windDirection: 'W',
-      skyCover: 50,
-      precipProbability: 0,
+      dewpoint: null,
+      humidity: null,
+      windSpeed: null,
+      windDirection: null,
+      windGust: null,
+      windChill: null,
+      heatIndex: null,
+      skyCover: null,
+      precipProbability: null,
+      rain: null,
+      snow: null,
+      thunder: null,
+      freezingRain: null,
+      sleet: null,
+      qpf: null,
       weatherDescription: 'Conditions from text forecast',
     });
   }
@@ -0,0 +1,207 @@
+/**
+ * Location Registry
+ *
+ * Broadcast markets loaded from a user-editable JSON file, with the
+ * weather provider each one uses and the NWS metadata it needs
+ * (office, gridpoint, zone, station, timezone).
+ */
+
+import { z } from 'zod';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { getConfig } from '../utils/config';
+import { weatherProviderSchema, type WeatherProviderName } from './types';
+
+/**
+ * Location configuration for weather fetching and on-air presentation
+ */
+export interface LocationConfig {
+  key: string; // Registry key, e.g. "denver"
+  name: string; // Display name, e.g. "Denver, Colorado"
+  shortName: string; // Spoken name, e.g. "Denver"
+  greeting: string; // How the audience is addressed, e.g. "Denver" in "Good evening, Denver"
+  provider?: WeatherProviderName; // Weather data provider (default nws)
+  weatherFile?: string; // JSON file read by the file provider
+  climateFiles?: string[]; // Normals/records CSVs (default: every .csv in CLIMATE_DIR/<key>/)
+  region?: string[]; // Location keys for the regional roundup (generate --region)
+  nwsOffice?: string; // Forecast office, e.g. BOU (required by the nws provider)
+  gridX?: number; // Gridpoint within the office grid (resolved from /points if omitted)
+  gridY?: number;
+  forecastZone?: string; // Public forecast zone, e.g. COZ040
+  observationStation?: string; // ASOS/METAR station ID; resolved from /points if omitted
+  lat: number;
+  lon: number;
+  timezone: string; // IANA timezone, e.g. America/Denver
+}
+
+const locationKeySchema = z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be lowercase letters, digits and dashes');
+
+/**
+ * Schema for a single registry entry (the key lives outside the entry)
+ */
+export const locationEntrySchema = z.object({
+  name: z.string().min(1),
+  shortName: z.string().min(1),
+  greeting: z.string().min(1),
+  provider: weatherProviderSchema.optional(),
+  weatherFile: z.string().min(1).optional(),
+  climateFiles: z.array(z.string().min(1)).min(1).optional(),
+  region: z.array(locationKeySchema).optional(),
+  nwsOffice: z.string().regex(/^[A-Z]{3}$/, 'must be a 3-letter NWS office ID (e.g. BOU)').optional(),
+  gridX: z.number().int().nonnegative().optional(),
+  gridY: z.number().int().nonnegative().optional(),
+  forecastZone: z.string().regex(/^[A-Z]{2}Z\d{3}$/, 'must be a zone code like COZ040').optional(),
+  observationStation: z.string().regex(/^[A-Z0-9]{4}$/, 'must be a 4-character station ID (e.g. KDEN)').optional(),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  timezone: z.string().refine(isValidTimezone, 'must be a valid IANA timezone (e.g. America/Denver)'),
+}).superRefine((entry, ctx) => {
+  const provider = entry.provider ?? 'nws';
+  if (provider === 'nws' && !entry.nwsOffice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nwsOffice'], message: 'is required for the nws provider' });
+  }
+  if (provider === 'file' && !entry.weatherFile) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weatherFile'], message: 'is required for the file provider' });
+  }
+});
+
+export type LocationEntry = z.infer<typeof locationEntrySchema>;
+
+const registrySchema = z.record(locationKeySchema, locationEntrySchema);
+
+/**
+ * Built-in locations used when no registry file exists
+ */
+export const DEFAULT_LOCATIONS: Record<string, LocationEntry> = {
+  denver: {
+    name: 'Denver, Colorado',
+    shortName: 'Denver',
+    greeting: 'Denver',
+    nwsOffice: 'BOU', // Boulder NWS office
+    observationStation: 'KDEN',
+    lat: 39.77,
+    lon: -104.89,
+    timezone: 'America/Denver',
+  },
+  nyc: {
+    name: 'New York City',
+    shortName: 'New York',
+    greeting: 'New York',
+    nwsOffice: 'OKX', // New York NWS office
+    observationStation: 'KNYC',
+    lat: 40.7128,
+    lon: -74.0060,
+    timezone: 'America/New_York',
+  },
+};
+
+/**
+ * Load all locations from the registry file (or the built-in defaults)
+ */
+export function loadLocations(): Record<string, LocationEntry> {
+  const { locationsFile } = getConfig();
+
+  if (!existsSync(locationsFile)) {
+    return { ...DEFAULT_LOCATIONS };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(locationsFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read locations file ${locationsFile}: ${(error as Error).message}`);
+  }
+
+  const result = registrySchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid locations file ${locationsFile}:\n${formatIssues(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Look up a location by key
+ */
+export function getLocation(key: string): LocationConfig {
+  const locations = loadLocations();
+  const normalized = key.toLowerCase();
+  const entry = locations[normalized];
+
+  if (!entry) {
+    throw new Error(`Unknown location: ${key}. Available: ${Object.keys(locations).join(', ')}`);
+  }
+
+  return { key: normalized, ...entry };
+}
+
+/**
+ * List all registered locations
+ */
+export function listLocations(): LocationConfig[] {
+  return Object.entries(loadLocations()).map(([key, entry]) => ({ key, ...entry }));
+}
+
+/**
+ * Validate and add (or replace) a location in the registry file
+ */
+export function addLocation(key: string, entry: unknown): LocationConfig {
+  const keyResult = locationKeySchema.safeParse(key);
+  if (!keyResult.success) {
+    throw new Error(`Invalid location key "${key}":\n${formatIssues(keyResult.error)}`);
+  }
+
+  const entryResult = locationEntrySchema.safeParse(entry);
+  if (!entryResult.success) {
+    throw new Error(`Invalid location "${key}":\n${formatIssues(entryResult.error)}`);
+  }
+
+  const locations = loadLocations();
+  locations[key] = entryResult.data;
+  saveLocations(locations);
+
+  return { key, ...entryResult.data };
+}
+
+/**
+ * Remove a location from the registry file
+ */
+export function removeLocation(key: string): void {
+  const locations = loadLocations();
+
+  if (!locations[key]) {
+    throw new Error(`Unknown location: ${key}. Available: ${Object.keys(locations).join(', ')}`);
+  }
+
+  delete locations[key];
+  saveLocations(locations);
+}
+
+/**
+ * Write the registry file
+ */
+function saveLocations(locations: Record<string, LocationEntry>): void {
+  const { locationsFile } = getConfig();
+
+  const dir = dirname(locationsFile);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  writeFileSync(locationsFile, JSON.stringify(locations, null, 2) + '\n');
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.join('.') || 'value'}: ${issue.message}`)
+    .join('\n');
+}
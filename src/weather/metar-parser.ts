@@ -0,0 +1,231 @@
+/**
+ * METAR Parser
+ *
+ * Decode raw METAR/SPECI reports into structured observation data.
+ */
+
+/**
+ * Cloud layer from the sky condition group
+ */
+export interface CloudLayer {
+  cover: 'SKC' | 'CLR' | 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+  baseFt: number | null;
+}
+
+/**
+ * Decoded METAR report
+ */
+export interface DecodedMetar {
+  station: string;
+  observationTime: string; // ISO timestamp
+  windDirectionDegrees: number | null; // null when calm or variable (VRB)
+  windSpeedKt: number;
+  windGustKt?: number;
+  visibilityMiles: number | null;
+  weather: string[]; // Present weather groups, e.g. ['-SN', 'BR']
+  cloudLayers: CloudLayer[];
+  temperatureC: number | null;
+  dewpointC: number | null;
+  altimeterInHg: number | null;
+  raw: string;
+}
+
+/**
+ * Decode a raw METAR string
+ *
+ * The report only carries day-of-month and UTC time, so the full
+ * timestamp is resolved against `referenceDate` (the most recent
+ * matching day on or before it).
+ */
+export function decodeMetar(raw: string, referenceDate: Date = new Date()): DecodedMetar {
+  const text = raw.trim().replace(/=$/, '');
+  const [body, remarks = ''] = text.split(/\s+RMK\s+/);
+  const tokens = body.split(/\s+/).filter(t => t !== 'METAR' && t !== 'SPECI' && t !== 'AUTO' && t !== 'COR');
+
+  const station = tokens.shift() || '';
+  if (!/^[A-Z0-9]{4}$/.test(station)) {
+    throw new Error(`Invalid METAR station identifier: "${station}"`);
+  }
+
+  const decoded: DecodedMetar = {
+    station,
+    observationTime: referenceDate.toISOString(),
+    windDirectionDegrees: null,
+    windSpeedKt: 0,
+    visibilityMiles: null,
+    weather: [],
+    cloudLayers: [],
+    temperatureC: null,
+    dewpointC: null,
+    altimeterInHg: null,
+    raw: text,
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    let match: RegExpMatchArray | null;
+
+    if ((match = token.match(/^(\d{2})(\d{2})(\d{2})Z$/))) {
+      decoded.observationTime = resolveObservationTime(
+        parseInt(match[1], 10),
+        parseInt(match[2], 10),
+        parseInt(match[3], 10),
+        referenceDate
+      );
+    } else if ((match = token.match(/^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS)$/))) {
+      const toKt = match[4] === 'MPS' ? 1.94384 : 1;
+      decoded.windSpeedKt = Math.round(parseInt(match[2], 10) * toKt);
+      // Calm winds (00000KT) have no direction
+      decoded.windDirectionDegrees = match[1] === 'VRB' || decoded.windSpeedKt === 0 ? null : parseInt(match[1], 10);
+      if (match[3]) {
+        decoded.windGustKt = Math.round(parseInt(match[3], 10) * toKt);
+      }
+    } else if (/^\d{3}V\d{3}$/.test(token)) {
+      // Variable wind direction range - direction already captured
+    } else if (/^\d+$/.test(token) && /^\d+\/\d+SM$/.test(tokens[i + 1] || '')) {
+      // Whole + fractional visibility, e.g. "1 1/2SM"
+      decoded.visibilityMiles = parseInt(token, 10) + parseFraction(tokens[i + 1].replace('SM', ''));
+      i++;
+    } else if ((match = token.match(/^(M|P)?(\d+(?:\/\d+)?)SM$/))) {
+      decoded.visibilityMiles = parseFraction(match[2]);
+    } else if (token === 'CAVOK') {
+      decoded.visibilityMiles = 10;
+    } else if ((match = token.match(/^(SKC|CLR|NSC|NCD)$/))) {
+      decoded.cloudLayers.push({ cover: match[1] === 'SKC' ? 'SKC' : 'CLR', baseFt: null });
+    } else if ((match = token.match(/^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/\/\/)(?:CB|TCU)?$/))) {
+      decoded.cloudLayers.push({
+        cover: match[1] as CloudLayer['cover'],
+        baseFt: match[2] === '///' ? null : parseInt(match[2], 10) * 100,
+      });
+    } else if ((match = token.match(/^(M?\d{2})\/(M?\d{2})?$/))) {
+      decoded.temperatureC = parseSignedTemp(match[1]);
+      decoded.dewpointC = match[2] ? parseSignedTemp(match[2]) : null;
+    } else if ((match = token.match(/^A(\d{4})$/))) {
+      decoded.altimeterInHg = parseInt(match[1], 10) / 100;
+    } else if ((match = token.match(/^Q(\d{4})$/))) {
+      decoded.altimeterInHg = Math.round(parseInt(match[1], 10) * 0.02953 * 100) / 100;
+    } else if (isWeatherGroup(token)) {
+      decoded.weather.push(token);
+    }
+  }
+
+  // T-group in remarks gives tenths of a degree, e.g. T10221089 = -2.2 / -8.9
+  const tGroup = remarks.match(/\bT([01])(\d{3})([01])(\d{3})\b/);
+  if (tGroup) {
+    decoded.temperatureC = (tGroup[1] === '1' ? -1 : 1) * parseInt(tGroup[2], 10) / 10;
+    decoded.dewpointC = (tGroup[3] === '1' ? -1 : 1) * parseInt(tGroup[4], 10) / 10;
+  }
+
+  return decoded;
+}
+
+/**
+ * Describe present weather groups in plain language
+ */
+export function describeMetarWeather(groups: string[]): string | null {
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return groups.map(describeWeatherGroup).join(', ');
+}
+
+/**
+ * Estimate total sky cover percentage from cloud layers
+ */
+export function skyCoverFromLayers(layers: CloudLayer[]): number {
+  const coverPercent: Record<CloudLayer['cover'], number> = {
+    SKC: 0,
+    CLR: 0,
+    FEW: 20,
+    SCT: 45,
+    BKN: 75,
+    OVC: 100,
+    VV: 100,
+  };
+
+  return layers.reduce((max, layer) => Math.max(max, coverPercent[layer.cover]), 0);
+}
+
+// Weather phenomena codes (WMO 306 / FMH-1)
+const DESCRIPTORS: Record<string, string> = {
+  MI: 'shallow', PR: 'partial', BC: 'patchy', DR: 'low drifting',
+  BL: 'blowing', SH: 'showers of', TS: 'thunderstorm with', FZ: 'freezing',
+};
+
+const PHENOMENA: Record<string, string> = {
+  DZ: 'drizzle', RA: 'rain', SN: 'snow', SG: 'snow grains', IC: 'ice crystals',
+  PL: 'ice pellets', GR: 'hail', GS: 'small hail', UP: 'unknown precipitation',
+  BR: 'mist', FG: 'fog', FU: 'smoke', VA: 'volcanic ash', DU: 'dust', SA: 'sand',
+  HZ: 'haze', PY: 'spray', PO: 'dust whirls', SQ: 'squalls', FC: 'funnel cloud',
+  SS: 'sandstorm', DS: 'duststorm',
+};
+
+function isWeatherGroup(token: string): boolean {
+  const match = token.match(/^(-|\+|VC)?((?:MI|PR|BC|DR|BL|SH|TS|FZ)?)((?:[A-Z]{2})*)$/);
+  if (!match || (!match[2] && !match[3])) {
+    return false;
+  }
+  const codes = match[3].match(/.{2}/g) || [];
+  // A bare descriptor is only a group as TS, or SH in the vicinity (VCSH)
+  return codes.every(code => code in PHENOMENA) &&
+    (codes.length > 0 || match[2] === 'TS' || (match[1] === 'VC' && match[2] === 'SH'));
+}
+
+function describeWeatherGroup(group: string): string {
+  const match = group.match(/^(-|\+|VC)?((?:MI|PR|BC|DR|BL|SH|TS|FZ)?)((?:[A-Z]{2})*)$/);
+  if (!match) {
+    return group;
+  }
+
+  const [, intensity, descriptor, phenomena] = match;
+  const parts: string[] = [];
+
+  if (intensity === '-') parts.push('light');
+  if (intensity === '+') parts.push('heavy');
+  if (descriptor === 'TS' && !phenomena) {
+    parts.push('thunderstorm');
+  } else if (descriptor === 'SH' && !phenomena) {
+    parts.push('showers');
+  } else if (descriptor) {
+    parts.push(DESCRIPTORS[descriptor]);
+  }
+
+  const names = (phenomena.match(/.{2}/g) || []).map(code => PHENOMENA[code] || code);
+  if (names.length > 0) {
+    parts.push(names.join(' and '));
+  }
+  if (intensity === 'VC') parts.push('in the vicinity');
+
+  const text = parts.join(' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function resolveObservationTime(day: number, hour: number, minute: number, referenceDate: Date): string {
+  const candidate = new Date(Date.UTC(
+    referenceDate.getUTCFullYear(),
+    referenceDate.getUTCMonth(),
+    day,
+    hour,
+    minute
+  ));
+
+  // A day-of-month ahead of the reference belongs to the previous month
+  if (candidate.getTime() - referenceDate.getTime() > 24 * 60 * 60 * 1000) {
+    candidate.setUTCMonth(candidate.getUTCMonth() - 1);
+  }
+
+  return candidate.toISOString();
+}
+
+function parseSignedTemp(value: string): number {
+  return value.startsWith('M') ? -parseInt(value.slice(1), 10) : parseInt(value, 10);
+}
+
+function parseFraction(value: string): number {
+  if (value.includes('/')) {
+    const [num, den] = value.split('/').map(n => parseInt(n, 10));
+    return den ? num / den : 0;
+  }
+  return parseInt(value, 10);
+}
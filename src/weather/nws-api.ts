@@ -0,0 +1,295 @@
+/**
+ * NWS API Client
+ *
+ * Fetch weather data from the api.weather.gov JSON endpoints and map it
+ * into the same AFDData / ForecastData shapes as the HTML scrapers.
+ */
+
+import { parseAFD } from './afd-parser';
+import { extractCurrentConditions } from './forecast-parser';
+import { parseDailyForecastJson, aggregateHourlyByDay } from './daily-forecast';
+import { heatIndex, windChill } from './apparent-temperature';
+import type { AFDData, ForecastData, HourlyForecast, DailyForecast, PrecipLikelihood } from './types';
+import type { LocationConfig } from './locations';
+import { cachedFetch } from '../utils/http-cache';
+
+export const NWS_API_BASE = 'https://api.weather.gov';
+
+const NWS_API_HEADERS = {
+  'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
+  Accept: 'application/geo+json',
+};
+
+/**
+ * Gridpoint metadata resolved from /points
+ */
+export interface NWSPoint {
+  office: string;
+  gridX: number;
+  gridY: number;
+  forecastUrl: string;
+  forecastHourlyUrl: string;
+  observationStationsUrl: string;
+  forecastZone: string;
+  timezone: string;
+}
+
+/**
+ * Hourly forecast period as returned by /gridpoints/{office}/{x},{y}/forecast/hourly
+ */
+interface NWSHourlyPeriod {
+  startTime: string;
+  temperature: number;
+  temperatureUnit: string;
+  probabilityOfPrecipitation?: { value: number | null };
+  dewpoint?: { unitCode: string; value: number | null };
+  relativeHumidity?: { value: number | null };
+  windSpeed: string;
+  windDirection: string;
+  shortForecast: string;
+}
+
+// Points rarely change, so cache them for the life of the process
+const pointCache = new Map<string, NWSPoint>();
+
+/**
+ * GET a JSON document from the NWS API through the HTTP cache
+ *
+ * `endpoint` selects the retry/cache policy and stats bucket.
+ */
+export async function fetchNwsJson<T>(url: string, endpoint: string): Promise<T> {
+  const response = await cachedFetch(url, { endpoint, headers: NWS_API_HEADERS });
+
+  if (!response.ok) {
+    throw new Error(`NWS API request failed: ${response.status} ${response.statusText} (${url})`);
+  }
+
+  return JSON.parse(response.body) as T;
+}
+
+/**
+ * Resolve the NWS gridpoint for a lat/lon
+ */
+export async function fetchPoint(location: Pick<LocationConfig, 'lat' | 'lon'>): Promise<NWSPoint> {
+  const key = `${location.lat.toFixed(4)},${location.lon.toFixed(4)}`;
+  const cached = pointCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const data = await fetchNwsJson<{
+    properties: {
+      gridId: string;
+      gridX: number;
+      gridY: number;
+      forecast: string;
+      forecastHourly: string;
+      observationStations: string;
+      forecastZone: string;
+      timeZone: string;
+    };
+  }>(`${NWS_API_BASE}/points/${key}`, 'nws-points');
+
+  const props = data.properties;
+  const point: NWSPoint = {
+    office: props.gridId,
+    gridX: props.gridX,
+    gridY: props.gridY,
+    forecastUrl: props.forecast,
+    forecastHourlyUrl: props.forecastHourly,
+    observationStationsUrl: props.observationStations,
+    forecastZone: props.forecastZone.split('/').pop() || props.forecastZone,
+    timezone: props.timeZone,
+  };
+
+  pointCache.set(key, point);
+  return point;
+}
+
+/**
+ * Fetch the latest Area Forecast Discussion for the location's office
+ */
+export async function fetchAFDFromApi(location: LocationConfig): Promise<AFDData> {
+  const list = await fetchNwsJson<{ '@graph': Array<{ id: string; issuanceTime: string }> }>(
+    `${NWS_API_BASE}/products/types/AFD/locations/${location.nwsOffice}`,
+    'nws-products'
+  );
+
+  const latest = list['@graph']?.[0];
+  if (!latest) {
+    throw new Error(`No AFD products found for office ${location.nwsOffice}`);
+  }
+
+  const product = await fetchNwsJson<{ productText: string; issuanceTime: string }>(
+    `${NWS_API_BASE}/products/${latest.id}`,
+    'nws-products'
+  );
+
+  if (!product.productText) {
+    throw new Error(`AFD product ${latest.id} has no text`);
+  }
+
+  // The metadata's issuance time is authoritative; the header line is only a fallback
+  return parseAFD(product.productText, product.issuanceTime || latest.issuanceTime);
+}
+
+/**
+ * Fetch the hourly gridpoint forecast for the location
+ */
+export async function fetchForecastFromApi(location: LocationConfig): Promise<ForecastData> {
+  // Registry entries with a gridpoint skip the /points lookup
+  const grid = location.gridX !== undefined && location.gridY !== undefined
+    ? { office: location.nwsOffice, gridX: location.gridX, gridY: location.gridY }
+    : await fetchPoint(location);
+  const gridUrl = `${NWS_API_BASE}/gridpoints/${grid.office}/${grid.gridX},${grid.gridY}`;
+
+  const [hourlyJson, daily] = await Promise.all([
+    fetchNwsJson<{ properties: { periods: NWSHourlyPeriod[] } }>(`${gridUrl}/forecast/hourly`, 'nws-forecast'),
+    fetchDailyForecast(gridUrl),
+  ]);
+
+  const forecast = parseHourlyForecastJson(JSON.stringify(hourlyJson));
+  if (daily) {
+    forecast.daily = daily;
+  }
+
+  return forecast;
+}
+
+/**
+ * Fetch the 7-day forecast, returning null if it is unavailable
+ * (the outlook then falls back to aggregated hourly data)
+ */
+async function fetchDailyForecast(gridUrl: string): Promise<DailyForecast[] | null> {
+  try {
+    const json = await fetchNwsJson<unknown>(`${gridUrl}/forecast`, 'nws-forecast');
+    const daily = parseDailyForecastJson(JSON.stringify(json));
+    return daily.length > 0 ? daily : null;
+  } catch (error) {
+    console.log(`  Warning: 7-day forecast unavailable (${(error as Error).message})`);
+    return null;
+  }
+}
+
+/**
+ * Parse an hourly forecast JSON document into structured data
+ *
+ * The raw JSON is kept in `rawHtml` so snapshots retain the original payload.
+ */
+export function parseHourlyForecastJson(raw: string): ForecastData {
+  const json = JSON.parse(raw) as { properties?: { periods?: NWSHourlyPeriod[] } };
+  const periods = json.properties?.periods || [];
+
+  if (periods.length === 0) {
+    throw new Error('Hourly forecast contained no periods');
+  }
+
+  const hourly = periods.slice(0, 48).map(mapHourlyPeriod);
+
+  return {
+    hourly,
+    daily: aggregateHourlyByDay(hourly),
+    current: extractCurrentConditions(hourly),
+    rawHtml: raw,
+  };
+}
+
+/**
+ * Map a single API period to an HourlyForecast
+ */
+function mapHourlyPeriod(period: NWSHourlyPeriod): HourlyForecast {
+  // startTime carries the local offset, e.g. 2025-12-07T16:00:00-07:00
+  const date = period.startTime.slice(0, 10);
+  const hour = parseInt(period.startTime.slice(11, 13), 10);
+
+  const temperature = period.temperatureUnit === 'C'
+    ? celsiusToFahrenheit(period.temperature)
+    : period.temperature;
+
+  const dewpointC = period.dewpoint?.value;
+  const humidity = period.relativeHumidity?.value ?? null;
+  const windSpeed = parseWindSpeed(period.windSpeed);
+
+  return {
+    timestamp: period.startTime,
+    hour,
+    date,
+    temperature,
+    dewpoint: dewpointC !== null && dewpointC !== undefined ? celsiusToFahrenheit(dewpointC) : null,
+    humidity,
+    windSpeed,
+    windDirection: period.windDirection || null,
+    // The hourly endpoint has no gust, feels-like or QPF fields
+    windGust: null,
+    windChill: windSpeed !== null ? windChill(temperature, windSpeed) : null,
+    heatIndex: humidity !== null ? heatIndex(temperature, humidity) : null,
+    skyCover: estimateSkyCover(period.shortForecast),
+    precipProbability: period.probabilityOfPrecipitation?.value ?? null,
+    ...precipTypesFromForecast(period.shortForecast),
+    qpf: null,
+    weatherDescription: period.shortForecast,
+  };
+}
+
+/**
+ * Parse wind speed strings like "10 mph" or "5 to 15 mph" (takes the upper bound)
+ */
+function parseWindSpeed(text: string): number | null {
+  const numbers = text.match(/\d+/g);
+  if (!numbers) {
+    return null;
+  }
+  return Math.max(...numbers.map(n => parseInt(n, 10)));
+}
+
+/**
+ * Derive precipitation type likelihoods from the short forecast wording,
+ * e.g. "Chance Rain And Snow Showers" -> rain: Chc, snow: Chc
+ */
+function precipTypesFromForecast(
+  shortForecast: string
+): Pick<HourlyForecast, 'rain' | 'snow' | 'thunder' | 'freezingRain' | 'sleet'> {
+  const lower = shortForecast.toLowerCase();
+
+  let likelihood: PrecipLikelihood = 'Def';
+  if (lower.includes('slight chance')) likelihood = 'SChc';
+  else if (lower.includes('chance')) likelihood = 'Chc';
+  else if (lower.includes('likely')) likelihood = 'Lkly';
+  else if (lower.includes('occasional') || lower.includes('periods')) likelihood = 'Ocnl';
+
+  const freezingRain = /freezing (rain|drizzle)/.test(lower);
+  const withoutFreezing = lower.replace(/freezing (rain|drizzle)/g, '');
+  // Bare "Showers" (e.g. "Showers And Thunderstorms") means rain showers
+  const rain = /rain|drizzle/.test(withoutFreezing) || (lower.includes('showers') && !lower.includes('snow'));
+
+  return {
+    rain: rain ? likelihood : null,
+    snow: /snow|flurries/.test(lower) ? likelihood : null,
+    thunder: /thunder|t-storm/.test(lower) ? likelihood : null,
+    freezingRain: freezingRain ? likelihood : null,
+    sleet: lower.includes('sleet') ? likelihood : null,
+  };
+}
+
+/**
+ * Estimate sky cover percentage from the short forecast wording
+ *
+ * The hourly endpoint does not carry sky cover, so we map the NWS
+ * sky condition vocabulary back to its nominal coverage.
+ */
+function estimateSkyCover(shortForecast: string): number {
+  const lower = shortForecast.toLowerCase();
+
+  if (lower.includes('mostly sunny') || lower.includes('mostly clear')) return 20;
+  if (lower.includes('partly')) return 50;
+  if (lower.includes('mostly cloudy')) return 75;
+  if (lower.includes('cloudy') || lower.includes('overcast')) return 95;
+  if (lower.includes('sunny') || lower.includes('clear')) return 5;
+  // Precipitation implies substantial cloud cover
+  if (/rain|snow|shower|storm|drizzle|sleet/.test(lower)) return 90;
+  return 50;
+}
+
+function celsiusToFahrenheit(celsius: number): number {
+  return Math.round(celsius * 9 / 5 + 32);
+}
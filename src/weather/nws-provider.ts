@@ -0,0 +1,172 @@
+/**
+ * NWS Provider
+ *
+ * National Weather Service data for US locations: AFD, hourly and 7-day
+ * forecast from the JSON API (or HTML scraping), the latest observation
+ * and active alerts.
+ */
+
+import { parseAFD } from './afd-parser';
+import { parseForecast } from './forecast-parser';
+import { fetchAFDFromApi, fetchForecastFromApi } from './nws-api';
+import { fetchObservedConditions } from './observations';
+import { fetchActiveAlerts } from './alerts';
+import { getConfig } from '../utils/config';
+import { cachedFetch } from '../utils/http-cache';
+import type { WeatherProvider } from './provider';
+import type { LocationConfig } from './locations';
+import type {
+  AFDData,
+  CurrentConditions,
+  ForecastData,
+  Hazard,
+  WeatherFetchOptions,
+  WeatherSource,
+} from './types';
+
+export const nwsProvider: WeatherProvider = {
+  name: 'nws',
+
+  async fetchWeather(location: LocationConfig, options: WeatherFetchOptions = {}) {
+    if (!location.nwsOffice) {
+      throw new Error(`Location ${location.key} has no nwsOffice; the nws provider only covers US locations`);
+    }
+
+    const { afd, forecast, source } = await fetchFromSource(location, options.source || getConfig().weatherSource);
+    forecast.current = await resolveCurrentConditions(location, forecast);
+    const alerts = await fetchAlerts(location);
+
+    return {
+      afd,
+      forecast,
+      alerts,
+      provider: 'nws',
+      source,
+      location: location.key,
+      fetchedAt: new Date().toISOString(),
+      isStale: false,
+    };
+  },
+};
+
+/**
+ * Build NWS page URLs for a location
+ */
+function getNWSUrls(location: LocationConfig): { afd: string; forecast: string } {
+  const { nwsOffice, lat, lon } = location;
+  return {
+    afd: `https://forecast.weather.gov/product.php?site=${nwsOffice}&issuedby=${nwsOffice}&product=AFD&format=txt&version=1&glossary=0`,
+    forecast: `https://forecast.weather.gov/MapClick.php?lat=${lat}&lon=${lon}&unit=0&lg=english&FcstType=digital`,
+  };
+}
+
+/**
+ * Fetch AFD and forecast from the requested backend
+ *
+ * The JSON API falls back to HTML scraping once its requests have used
+ * up their retries, so a broken API endpoint doesn't cost us the broadcast.
+ */
+async function fetchFromSource(
+  location: LocationConfig,
+  source: WeatherSource
+): Promise<{ afd: AFDData; forecast: ForecastData; source: WeatherSource }> {
+  if (source === 'api') {
+    try {
+      const [afd, forecast] = await Promise.all([
+        fetchAFDFromApi(location),
+        fetchForecastFromApi(location),
+      ]);
+      return { afd, forecast, source: 'api' };
+    } catch (error) {
+      console.log(`  NWS API fetch failed (${(error as Error).message}), falling back to HTML scraping...`);
+    }
+  }
+
+  const [afd, forecast] = await Promise.all([
+    fetchAFD(location),
+    fetchForecast(location),
+  ]);
+  return { afd, forecast, source: 'html' };
+}
+
+/**
+ * Replace forecast-derived current conditions with a real observation
+ *
+ * If no observation is available the forecast-derived conditions are kept;
+ * they are already flagged with source 'forecast'.
+ */
+async function resolveCurrentConditions(
+  location: LocationConfig,
+  forecast: ForecastData
+): Promise<CurrentConditions> {
+  try {
+    return await fetchObservedConditions(location);
+  } catch (error) {
+    console.log(`  Warning: No current observation (${(error as Error).message}), using forecast-derived conditions`);
+    return forecast.current;
+  }
+}
+
+/**
+ * Fetch active alerts, returning undefined if the alerts feed is unavailable
+ * so callers fall back to AFD-derived hazards.
+ */
+async function fetchAlerts(location: LocationConfig): Promise<Hazard[] | undefined> {
+  try {
+    return await fetchActiveAlerts(location);
+  } catch (error) {
+    console.log(`  Warning: Failed to fetch active alerts (${(error as Error).message}), using AFD hazard mentions`);
+    return undefined;
+  }
+}
+
+/**
+ * Fetch Area Forecast Discussion (HTML product page)
+ */
+async function fetchAFD(location: LocationConfig): Promise<AFDData> {
+  const urls = getNWSUrls(location);
+  const response = await cachedFetch(urls.afd, {
+    endpoint: 'nws-afd-page',
+    headers: {
+      'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`AFD fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const text = response.body;
+
+  // Extract the actual forecast text from HTML wrapper
+  const preMatch = text.match(/<pre[^>]*>([\s\S]*?)<\/pre>/i);
+  const rawText = preMatch ? preMatch[1] : text;
+
+  // Clean HTML entities
+  const cleanedText = rawText
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/<[^>]+>/g, ''); // Remove any remaining HTML tags
+
+  return parseAFD(cleanedText);
+}
+
+/**
+ * Fetch digital forecast (HTML tabular page)
+ */
+async function fetchForecast(location: LocationConfig): Promise<ForecastData> {
+  const urls = getNWSUrls(location);
+  const response = await cachedFetch(urls.forecast, {
+    endpoint: 'nws-forecast-page',
+    headers: {
+      'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Forecast fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  return parseForecast(response.body);
+}
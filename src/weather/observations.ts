@@ -0,0 +1,211 @@
+/**
+ * Observations
+ *
+ * Fetch the latest surface observation from the nearest ASOS/METAR station
+ * and map it into CurrentConditions.
+ */
+
+import { fetchNwsJson, fetchPoint, NWS_API_BASE } from './nws-api';
+import { feelsLike } from './apparent-temperature';
+import { decodeMetar, describeMetarWeather, skyCoverFromLayers, type CloudLayer } from './metar-parser';
+import type { CurrentConditions } from './types';
+import type { LocationConfig } from './locations';
+
+// Observations older than this are not "current" any more
+const MAX_OBSERVATION_AGE_HOURS = 3;
+
+/**
+ * Latest observation as returned by /stations/{id}/observations/latest
+ */
+interface NWSObservation {
+  properties: {
+    timestamp: string;
+    rawMessage: string | null;
+    textDescription: string | null;
+    temperature: { value: number | null };
+    dewpoint: { value: number | null };
+    relativeHumidity: { value: number | null };
+    windDirection: { value: number | null };
+    windSpeed: { value: number | null }; // km/h
+    windGust: { value: number | null }; // km/h
+    cloudLayers: Array<{ amount: string }> | null;
+  };
+}
+
+/**
+ * Resolve the observation station for a location
+ *
+ * Uses the configured station if there is one, otherwise the first entry
+ * of the gridpoint's station list (NWS orders them by distance).
+ */
+export async function resolveObservationStation(
+  location: Pick<LocationConfig, 'name' | 'lat' | 'lon' | 'observationStation'>
+): Promise<string> {
+  if (location.observationStation) {
+    return location.observationStation;
+  }
+
+  const point = await fetchPoint(location);
+  const stations = await fetchNwsJson<{ features: Array<{ properties: { stationIdentifier: string } }> }>(
+    point.observationStationsUrl,
+    'nws-stations'
+  );
+
+  const nearest = stations.features?.[0]?.properties.stationIdentifier;
+  if (!nearest) {
+    throw new Error(`No observation stations found near ${location.name}`);
+  }
+
+  return nearest;
+}
+
+/**
+ * Fetch observed current conditions for a location
+ *
+ * Throws if no observation is available or the latest one is stale;
+ * callers fall back to (flagged) forecast-derived conditions.
+ */
+export async function fetchObservedConditions(location: LocationConfig): Promise<CurrentConditions> {
+  const stationId = await resolveObservationStation(location);
+  const observation = await fetchNwsJson<NWSObservation>(
+    `${NWS_API_BASE}/stations/${stationId}/observations/latest`,
+    'nws-observations'
+  );
+
+  const conditions = parseObservation(stationId, observation);
+
+  const ageHours = (Date.now() - new Date(conditions.observationTime).getTime()) / (1000 * 60 * 60);
+  if (ageHours > MAX_OBSERVATION_AGE_HOURS) {
+    throw new Error(`Latest ${stationId} observation is ${ageHours.toFixed(1)} hours old`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Map an observation into CurrentConditions
+ *
+ * The raw METAR is preferred because it is the source of record; the
+ * API's pre-converted fields fill in when no METAR is attached.
+ */
+export function parseObservation(stationId: string, observation: NWSObservation): CurrentConditions {
+  const props = observation.properties;
+
+  if (props.rawMessage) {
+    return conditionsFromMetar(props.rawMessage, props.textDescription, new Date(props.timestamp));
+  }
+
+  if (props.temperature.value === null) {
+    throw new Error(`Observation from ${stationId} has no temperature`);
+  }
+
+  const temperature = celsiusToFahrenheit(props.temperature.value);
+  const dewpoint = props.dewpoint.value !== null ? celsiusToFahrenheit(props.dewpoint.value) : temperature;
+  const humidity = Math.round(props.relativeHumidity.value ?? relativeHumidity(props.temperature.value, props.dewpoint.value ?? props.temperature.value));
+  const windSpeed = Math.round((props.windSpeed.value ?? 0) * 0.621371);
+  const skyCover = skyCoverFromLayers(
+    (props.cloudLayers || []).map(layer => ({ cover: normalizeCover(layer.amount), baseFt: null }))
+  );
+
+  return {
+    temperature,
+    dewpoint,
+    humidity,
+    windSpeed,
+    windDirection: degreesToCompass(props.windDirection.value),
+    windGust: props.windGust.value !== null ? Math.round(props.windGust.value * 0.621371) : undefined,
+    feelsLike: apparentIfDifferent(temperature, windSpeed, humidity),
+    skyCover,
+    conditions: props.textDescription || describeSkyCover(skyCover),
+    observationTime: new Date(props.timestamp).toISOString(),
+    source: 'observed',
+    stationId,
+  };
+}
+
+/**
+ * Build CurrentConditions from a raw METAR report
+ */
+export function conditionsFromMetar(
+  rawMetar: string,
+  textDescription?: string | null,
+  referenceDate: Date = new Date()
+): CurrentConditions {
+  const metar = decodeMetar(rawMetar, referenceDate);
+
+  if (metar.temperatureC === null) {
+    throw new Error(`METAR from ${metar.station} has no temperature group`);
+  }
+
+  const dewpointC = metar.dewpointC ?? metar.temperatureC;
+  const skyCover = skyCoverFromLayers(metar.cloudLayers);
+  const temperature = celsiusToFahrenheit(metar.temperatureC);
+  const humidity = Math.round(relativeHumidity(metar.temperatureC, dewpointC));
+  const windSpeed = Math.round(metar.windSpeedKt * 1.15078);
+
+  return {
+    temperature,
+    dewpoint: celsiusToFahrenheit(dewpointC),
+    humidity,
+    windSpeed,
+    windDirection: metar.windSpeedKt === 0 ? 'Calm' : degreesToCompass(metar.windDirectionDegrees),
+    windGust: metar.windGustKt !== undefined ? Math.round(metar.windGustKt * 1.15078) : undefined,
+    feelsLike: apparentIfDifferent(temperature, windSpeed, humidity),
+    skyCover,
+    conditions: textDescription || describeMetarWeather(metar.weather) || describeSkyCover(skyCover),
+    observationTime: metar.observationTime,
+    source: 'observed',
+    stationId: metar.station,
+    rawMetar: metar.raw,
+  };
+}
+
+/**
+ * Wind chill or heat index, omitted when it matches the air temperature
+ */
+function apparentIfDifferent(temperature: number, windSpeed: number, humidity: number): number | undefined {
+  const apparent = feelsLike(temperature, windSpeed, humidity);
+  return apparent !== temperature ? apparent : undefined;
+}
+
+/**
+ * Relative humidity from temperature and dewpoint (Magnus formula, °C)
+ */
+function relativeHumidity(tempC: number, dewpointC: number): number {
+  const a = 17.625;
+  const b = 243.04;
+  const rh = 100 * Math.exp((a * dewpointC) / (b + dewpointC) - (a * tempC) / (b + tempC));
+  return Math.min(100, Math.max(0, rh));
+}
+
+/**
+ * Convert a bearing in degrees to a 16-point compass direction
+ */
+export function degreesToCompass(degrees: number | null): string {
+  if (degrees === null) {
+    return 'VRB';
+  }
+
+  const points = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  return points[Math.round(degrees / 22.5) % 16];
+}
+
+function describeSkyCover(skyCover: number): string {
+  if (skyCover >= 90) return 'Overcast';
+  if (skyCover >= 70) return 'Mostly cloudy';
+  if (skyCover >= 40) return 'Partly cloudy';
+  if (skyCover >= 10) return 'Mostly clear';
+  return 'Clear';
+}
+
+function normalizeCover(amount: string): CloudLayer['cover'] {
+  const upper = amount.toUpperCase();
+  if (['SKC', 'CLR', 'FEW', 'SCT', 'BKN', 'OVC', 'VV'].includes(upper)) {
+    return upper as CloudLayer['cover'];
+  }
+  return 'CLR';
+}
+
+function celsiusToFahrenheit(celsius: number): number {
+  return Math.round(celsius * 9 / 5 + 32);
+}
@@ -0,0 +1,373 @@
+/**
+ * Open-Meteo Provider
+ *
+ * Worldwide hourly and daily forecasts from the Open-Meteo forecast API
+ * (or any server speaking the same format), mapped into ForecastData.
+ * Open-Meteo has no forecast discussion or alerts, so the AFD is empty
+ * and current conditions are model-derived.
+ */
+
+import { aggregateHourlyByDay, weekdayName } from './daily-forecast';
+import { feelsLike, heatIndex, windChill } from './apparent-temperature';
+import { degreesToCompass } from './observations';
+import { createEmptyAFD } from './afd-parser';
+import type { WeatherProvider } from './provider';
+import { getConfig } from '../utils/config';
+import { cachedFetch } from '../utils/http-cache';
+import type { LocationConfig } from './locations';
+import type {
+  CurrentConditions,
+  DailyForecast,
+  ForecastData,
+  HourlyForecast,
+  PrecipLikelihood,
+} from './types';
+
+const HOURLY_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'dew_point_2m',
+  'precipitation_probability',
+  'precipitation',
+  'weather_code',
+  'cloud_cover',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+];
+
+const DAILY_VARIABLES = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_probability_max',
+];
+
+type Series = Array<number | null>;
+
+/**
+ * Forecast API response (only the fields we read)
+ *
+ * Times are local to `timezone` without an offset, e.g. "2025-12-07T16:00".
+ */
+interface OpenMeteoResponse {
+  timezone?: string;
+  utc_offset_seconds?: number;
+  current_units?: Record<string, string>;
+  current?: Record<string, number | string | null> & { time: string };
+  hourly_units?: Record<string, string>;
+  hourly?: { time: string[] } & Record<string, Series | string[]>;
+  daily_units?: Record<string, string>;
+  daily?: { time: string[] } & Record<string, Series | string[]>;
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: 'open-meteo',
+
+  async fetchWeather(location: LocationConfig) {
+    const raw = await fetchOpenMeteoForecast(location);
+    const forecast = parseOpenMeteoForecast(raw);
+    const fetchedAt = new Date().toISOString();
+
+    return {
+      afd: createEmptyAFD('Open-Meteo', fetchedAt),
+      forecast,
+      provider: 'open-meteo',
+      location: location.key,
+      fetchedAt,
+      isStale: false,
+    };
+  },
+};
+
+/**
+ * Fetch the raw forecast JSON for a location (imperial units, local time)
+ */
+export async function fetchOpenMeteoForecast(location: Pick<LocationConfig, 'lat' | 'lon' | 'timezone'>): Promise<string> {
+  const params = new URLSearchParams({
+    latitude: String(location.lat),
+    longitude: String(location.lon),
+    timezone: location.timezone,
+    current: HOURLY_VARIABLES.filter(name => name !== 'precipitation_probability').join(','),
+    hourly: HOURLY_VARIABLES.join(','),
+    daily: DAILY_VARIABLES.join(','),
+    temperature_unit: 'fahrenheit',
+    wind_speed_unit: 'mph',
+    precipitation_unit: 'inch',
+    forecast_days: '7',
+  });
+
+  const url = `${getConfig().openMeteoUrl}?${params}`;
+  const response = await cachedFetch(url, {
+    endpoint: 'open-meteo',
+    headers: {
+      'User-Agent': 'ElliotSkyfallWeather/1.0 (weather broadcast generator)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Open-Meteo request failed: ${response.status} ${response.statusText} (${url})`);
+  }
+
+  return response.body;
+}
+
+/**
+ * Parse an Open-Meteo forecast JSON document into structured data
+ *
+ * The hourly series starts at local midnight, so hours before the current
+ * time (or the first hour, when the document has no current block) are
+ * dropped. Metric units are converted. The raw JSON is kept in `rawHtml`
+ * so snapshots retain the original payload.
+ */
+export function parseOpenMeteoForecast(raw: string): ForecastData {
+  const json = JSON.parse(raw) as OpenMeteoResponse;
+  const times = json.hourly?.time || [];
+
+  if (times.length === 0) {
+    throw new Error('Open-Meteo forecast contained no hourly data');
+  }
+
+  const offset = formatUtcOffset(json.utc_offset_seconds ?? 0);
+  const units = json.hourly_units || {};
+  const series = (name: string): Series => (json.hourly?.[name] as Series | undefined) || [];
+
+  const temperature = series('temperature_2m').map(v => toFahrenheit(v, units.temperature_2m));
+  const dewpoint = series('dew_point_2m').map(v => toFahrenheit(v, units.dew_point_2m));
+  const humidity = series('relative_humidity_2m');
+  const probability = series('precipitation_probability');
+  const precipitation = series('precipitation').map(v => toInches(v, units.precipitation));
+  const weatherCode = series('weather_code');
+  const cloudCover = series('cloud_cover');
+  const windSpeed = series('wind_speed_10m').map(v => toMph(v, units.wind_speed_10m));
+  const windDirection = series('wind_direction_10m');
+  const windGust = series('wind_gusts_10m').map(v => toMph(v, units.wind_gusts_10m));
+
+  // Current time truncated to the hour, e.g. "2025-12-07T16:15" -> "2025-12-07T16:00"
+  const start = json.current?.time ? `${json.current.time.slice(0, 13)}:00` : times[0];
+  const startIndex = Math.max(0, times.findIndex(time => time >= start));
+
+  const hourly: HourlyForecast[] = [];
+  for (let i = startIndex; i < times.length && hourly.length < 48; i++) {
+    const temp = temperature[i] ?? null;
+    const rh = roundOrNull(humidity[i]);
+    const wind = roundOrNull(windSpeed[i]);
+    const gust = roundOrNull(windGust[i]);
+    const code = weatherCode[i] ?? null;
+    const chance = roundOrNull(probability[i]);
+    const qpf = precipitation[i] ?? null;
+
+    hourly.push({
+      timestamp: `${times[i]}:00${offset}`,
+      hour: parseInt(times[i].slice(11, 13), 10),
+      date: times[i].slice(0, 10),
+      temperature: temp,
+      dewpoint: dewpoint[i] ?? null,
+      humidity: rh,
+      windSpeed: wind,
+      windDirection: windDirection[i] !== null && windDirection[i] !== undefined ? degreesToCompass(windDirection[i]) : null,
+      windGust: gust !== null && wind !== null && gust > wind ? gust : null,
+      windChill: temp !== null && wind !== null ? windChill(temp, wind) : null,
+      heatIndex: temp !== null && rh !== null ? heatIndex(temp, rh) : null,
+      skyCover: roundOrNull(cloudCover[i]),
+      precipProbability: chance,
+      ...precipTypesFromCode(code, chance),
+      qpf: qpf ? Math.round(qpf * 100) / 100 : null,
+      weatherDescription: code !== null ? describeWeatherCode(code) : 'Conditions unavailable',
+    });
+  }
+
+  const daily = parseDaily(json);
+
+  return {
+    hourly,
+    daily: daily.length > 0 ? daily : aggregateHourlyByDay(hourly),
+    current: parseCurrent(json, hourly, offset),
+    rawHtml: raw,
+  };
+}
+
+/**
+ * Current conditions from the `current` block, or the first forecast hour
+ */
+function parseCurrent(json: OpenMeteoResponse, hourly: HourlyForecast[], offset: string): CurrentConditions {
+  const current = json.current;
+  const units = json.current_units || {};
+  const value = (name: string): number | null => {
+    const v = current?.[name];
+    return typeof v === 'number' ? v : null;
+  };
+
+  const first = hourly[0];
+  const temperature = toFahrenheit(value('temperature_2m'), units.temperature_2m) ?? first.temperature ?? 0;
+  const windSpeed = roundOrNull(toMph(value('wind_speed_10m'), units.wind_speed_10m)) ?? first.windSpeed ?? 0;
+  const windGust = roundOrNull(toMph(value('wind_gusts_10m'), units.wind_gusts_10m));
+  const humidity = roundOrNull(value('relative_humidity_2m')) ?? first.humidity ?? 0;
+  const direction = value('wind_direction_10m');
+  const code = value('weather_code');
+  const apparent = feelsLike(temperature, windSpeed, humidity);
+
+  return {
+    temperature,
+    dewpoint: toFahrenheit(value('dew_point_2m'), units.dew_point_2m) ?? first.dewpoint ?? temperature,
+    humidity,
+    windSpeed,
+    windDirection: direction !== null ? degreesToCompass(direction) : first.windDirection || 'VRB',
+    windGust: windGust !== null && windGust > windSpeed ? windGust : undefined,
+    feelsLike: apparent !== temperature ? apparent : undefined,
+    skyCover: roundOrNull(value('cloud_cover')) ?? first.skyCover ?? 0,
+    conditions: code !== null ? describeWeatherCode(code) : first.weatherDescription,
+    observationTime: current?.time ? `${current.time}:00${offset}` : first.timestamp,
+    source: 'forecast',
+  };
+}
+
+/**
+ * Daily periods from the `daily` block
+ */
+function parseDaily(json: OpenMeteoResponse): DailyForecast[] {
+  const daily = json.daily;
+  if (!daily?.time) {
+    return [];
+  }
+
+  const units = json.daily_units || {};
+  const series = (name: string): Series => (daily[name] as Series | undefined) || [];
+  const codes = series('weather_code');
+  const highs = series('temperature_2m_max');
+  const lows = series('temperature_2m_min');
+  const chances = series('precipitation_probability_max');
+
+  return daily.time.map((date, i) => {
+    const high = toFahrenheit(highs[i], units.temperature_2m_max);
+    const low = toFahrenheit(lows[i], units.temperature_2m_min);
+    const precipProbability = roundOrNull(chances[i]) ?? 0;
+    const code = codes[i] ?? null;
+    const summary = code !== null ? describeWeatherCode(code) : 'Conditions unavailable';
+
+    const details = [`${summary}.`];
+    if (high !== null) details.push(`High near ${high}.`);
+    if (low !== null) details.push(`Low around ${low}.`);
+    if (precipProbability > 0) details.push(`Chance of precipitation ${precipProbability}%.`);
+
+    return {
+      date,
+      name: i === 0 ? 'Today' : weekdayName(date),
+      high,
+      low,
+      precipProbability,
+      summary,
+      detailedForecast: details.join(' '),
+      icon: code !== null ? iconForWeatherCode(code) : 'few',
+    };
+  });
+}
+
+/**
+ * WMO weather interpretation codes used by Open-Meteo
+ */
+const WEATHER_CODES: Record<number, { description: string; icon: string }> = {
+  0: { description: 'Clear', icon: 'skc' },
+  1: { description: 'Mostly clear', icon: 'few' },
+  2: { description: 'Partly cloudy', icon: 'sct' },
+  3: { description: 'Cloudy', icon: 'ovc' },
+  45: { description: 'Fog', icon: 'fog' },
+  48: { description: 'Freezing fog', icon: 'fog' },
+  51: { description: 'Light drizzle', icon: 'rain' },
+  53: { description: 'Drizzle', icon: 'rain' },
+  55: { description: 'Heavy drizzle', icon: 'rain' },
+  56: { description: 'Light freezing drizzle', icon: 'fzra' },
+  57: { description: 'Freezing drizzle', icon: 'fzra' },
+  61: { description: 'Light rain', icon: 'rain' },
+  63: { description: 'Rain', icon: 'rain' },
+  65: { description: 'Heavy rain', icon: 'rain' },
+  66: { description: 'Light freezing rain', icon: 'fzra' },
+  67: { description: 'Freezing rain', icon: 'fzra' },
+  71: { description: 'Light snow', icon: 'snow' },
+  73: { description: 'Snow', icon: 'snow' },
+  75: { description: 'Heavy snow', icon: 'snow' },
+  77: { description: 'Snow grains', icon: 'snow' },
+  80: { description: 'Rain showers', icon: 'rain' },
+  81: { description: 'Heavy rain showers', icon: 'rain' },
+  82: { description: 'Violent rain showers', icon: 'rain' },
+  85: { description: 'Snow showers', icon: 'snow' },
+  86: { description: 'Heavy snow showers', icon: 'snow' },
+  95: { description: 'Thunderstorms', icon: 'tsra' },
+  96: { description: 'Thunderstorms with hail', icon: 'tsra' },
+  99: { description: 'Severe thunderstorms with hail', icon: 'tsra' },
+};
+
+function describeWeatherCode(code: number): string {
+  return WEATHER_CODES[code]?.description ?? 'Conditions unavailable';
+}
+
+function iconForWeatherCode(code: number): string {
+  return WEATHER_CODES[code]?.icon ?? 'few';
+}
+
+/**
+ * Precipitation types implied by a weather code, with the likelihood
+ * taken from the hourly precipitation chance
+ */
+function precipTypesFromCode(
+  code: number | null,
+  chance: number | null
+): Pick<HourlyForecast, 'rain' | 'snow' | 'thunder' | 'freezingRain' | 'sleet'> {
+  const likelihood = likelihoodFromChance(chance);
+  const is = (codes: number[]) => (code !== null && codes.includes(code) ? likelihood : null);
+
+  return {
+    rain: is([51, 53, 55, 61, 63, 65, 80, 81, 82, 95, 96, 99]),
+    snow: is([71, 73, 75, 77, 85, 86]),
+    thunder: is([95, 96, 99]),
+    freezingRain: is([56, 57, 66, 67]),
+    sleet: null, // WMO codes do not distinguish sleet
+  };
+}
+
+/**
+ * Map a precipitation chance onto the NWS likelihood wording
+ * (a coded precipitation type with no chance is treated as definite)
+ */
+function likelihoodFromChance(chance: number | null): PrecipLikelihood {
+  if (chance === null || chance >= 75) return 'Def';
+  if (chance >= 55) return 'Lkly';
+  if (chance >= 25) return 'Chc';
+  return 'SChc';
+}
+
+/**
+ * Format a UTC offset in seconds as "+HH:MM" / "-HH:MM"
+ *
+ * Open-Meteo reports the offset at the current time, so hours past a
+ * DST change inside the 48-hour window keep the pre-change offset.
+ */
+function formatUtcOffset(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+';
+  const minutes = Math.abs(Math.round(seconds / 60));
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function toFahrenheit(value: number | null | undefined, unit?: string): number | null {
+  if (value === null || value === undefined) return null;
+  return Math.round(unit === '°C' ? value * 9 / 5 + 32 : value);
+}
+
+function toMph(value: number | null | undefined, unit?: string): number | null {
+  if (value === null || value === undefined) return null;
+  switch (unit) {
+    case 'km/h': return value / 1.609344;
+    case 'm/s': return value * 2.236936;
+    case 'kn': return value * 1.150779;
+    default: return value;
+  }
+}
+
+function toInches(value: number | null | undefined, unit?: string): number | null {
+  if (value === null || value === undefined) return null;
+  return unit === 'mm' ? value / 25.4 : value;
+}
+
+function roundOrNull(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value);
+}
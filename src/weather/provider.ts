@@ -0,0 +1,49 @@
+/**
+ * Weather Providers
+ *
+ * Each location names the provider its weather comes from. Providers
+ * return a complete WeatherData package; retries, snapshots and cached
+ * fallback are handled by the fetcher for all of them.
+ */
+
+import { nwsProvider } from './nws-provider';
+import { openMeteoProvider } from './open-meteo';
+import { fileProvider } from './file-provider';
+import type { LocationConfig } from './locations';
+import type { WeatherData, WeatherFetchOptions, WeatherProviderName } from './types';
+
+/**
+ * A source of weather data
+ */
+export interface WeatherProvider {
+  name: WeatherProviderName;
+  /** Fetch a fresh weather package; throws on failure so the fetcher can fall back */
+  fetchWeather(location: LocationConfig, options?: WeatherFetchOptions): Promise<WeatherData>;
+}
+
+const PROVIDERS: Record<WeatherProviderName, WeatherProvider> = {
+  nws: nwsProvider,
+  'open-meteo': openMeteoProvider,
+  file: fileProvider,
+};
+
+/**
+ * Provider configured for a location (NWS unless the registry says otherwise)
+ */
+export function getWeatherProvider(location: LocationConfig): WeatherProvider {
+  return PROVIDERS[location.provider ?? 'nws'];
+}
+
+/**
+ * Human-readable description of where a weather package came from
+ */
+export function describeWeatherSource(data: WeatherData): string {
+  switch (data.provider ?? 'nws') {
+    case 'open-meteo':
+      return 'Open-Meteo';
+    case 'file':
+      return 'local file';
+    default:
+      return data.source === 'html' ? 'NWS HTML scraping' : 'NWS API';
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Regional Roundup
+ *
+ * Fetches several registry locations in parallel (e.g. Front Range cities
+ * or mountain passes) for an "around the region" segment. Each location is
+ * fetched on its own: a failure only drops that row from the roundup.
+ */
+
+import { fetchWeatherData } from './fetcher';
+import { getActiveHazards } from './alerts';
+import { getLocation, type LocationConfig } from './locations';
+import type { WeatherData, WeatherFetchOptions } from './types';
+
+/**
+ * Compact conditions for one city in the roundup
+ */
+export interface RegionalCity {
+  key: string;
+  name: string;
+  shortName: string;
+  temperature: number;
+  conditions: string;
+  windDirection: string;
+  windSpeed: number;
+  windGust?: number;
+  nextHigh: number | null; // Today's high, or tomorrow's once today's has passed
+  lowTonight: number | null;
+  precipProbability: number | null;
+  hazards: string[];
+  isStale: boolean;
+  staleAge?: number;
+}
+
+/**
+ * A location that couldn't be included
+ */
+export interface RegionalFailure {
+  key: string;
+  name: string;
+  error: string;
+}
+
+/**
+ * Combined dataset for a regional broadcast
+ */
+export interface RegionalWeather {
+  cities: RegionalCity[];
+  failures: RegionalFailure[];
+}
+
+/**
+ * Location keys for a regional broadcast
+ *
+ * Explicit keys win; otherwise the location's configured `region`.
+ */
+export function getRegionKeys(location: LocationConfig, keys?: string[]): string[] {
+  const region = keys && keys.length > 0 ? keys : location.region ?? [];
+  // The broadcast location is always the first row
+  return [...new Set(region)].filter(key => key !== location.key);
+}
+
+/**
+ * Fetch the region's locations in parallel
+ *
+ * `primary` is the broadcast location's already-fetched weather; it leads
+ * the roundup without a second fetch.
+ */
+export async function fetchRegionalWeather(
+  keys: string[],
+  options: WeatherFetchOptions = {},
+  primary?: { location: LocationConfig; data: WeatherData }
+): Promise<RegionalWeather> {
+  const failures: RegionalFailure[] = [];
+  const locations: LocationConfig[] = [];
+
+  for (const key of keys) {
+    try {
+      locations.push(getLocation(key));
+    } catch (error) {
+      failures.push({ key, name: key, error: (error as Error).message });
+    }
+  }
+
+  const results = await Promise.allSettled(
+    locations.map(async (location) => {
+      const result = await fetchWeatherData(location, undefined, options);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'no weather data');
+      }
+      return summarizeCity(location, result.data);
+    })
+  );
+
+  const cities = primary ? [summarizeCity(primary.location, primary.data)] : [];
+  results.forEach((result, index) => {
+    const location = locations[index];
+    if (result.status === 'fulfilled') {
+      cities.push(result.value);
+    } else {
+      failures.push({ key: location.key, name: location.name, error: (result.reason as Error).message });
+    }
+  });
+
+  return { cities, failures };
+}
+
+/**
+ * Reduce a location's weather package to its roundup row
+ */
+export function summarizeCity(location: LocationConfig, data: WeatherData): RegionalCity {
+  const { current, daily = [] } = data.forecast;
+  const today = daily[0];
+
+  return {
+    key: location.key,
+    name: location.name,
+    shortName: location.shortName,
+    temperature: current.temperature,
+    conditions: current.conditions,
+    windDirection: current.windDirection,
+    windSpeed: current.windSpeed,
+    windGust: current.windGust,
+    nextHigh: daily.find(day => day.high !== null)?.high ?? null,
+    lowTonight: today?.low ?? null,
+    precipProbability: today?.precipProbability ?? null,
+    hazards: getActiveHazards(data).map(hazard => hazard.type),
+    isStale: data.isStale,
+    staleAge: data.staleAge,
+  };
+}
+
+/**
+ * Format the roundup as a compact table for the script prompt
+ */
+export function formatRegionalTable(regional: RegionalWeather): string {
+  const temp = (value: number | null) => (value !== null ? `${value}°F` : '—');
+
+  let output = `AROUND THE REGION (${regional.cities.length} location${regional.cities.length === 1 ? '' : 's'}):\n`;
+  output += '| City | Now | Conditions | Wind | Next High | Low Tonight | Precip | Alerts |\n';
+  output += '|---|---|---|---|---|---|---|---|\n';
+
+  for (const city of regional.cities) {
+    const name = city.isStale ? `${city.shortName} (cached ${city.staleAge}h ago)` : city.shortName;
+    const wind = `${city.windDirection} ${city.windSpeed} mph${city.windGust ? ` G${city.windGust}` : ''}`;
+    const precip = city.precipProbability !== null ? `${city.precipProbability}%` : '—';
+    const alerts = city.hazards.length > 0 ? city.hazards.join(', ') : '—';
+    output += `| ${name} | ${temp(city.temperature)} | ${city.conditions} | ${wind} | ${temp(city.nextHigh)} | ${temp(city.lowTonight)} | ${precip} | ${alerts} |\n`;
+  }
+
+  if (regional.failures.length > 0) {
+    output += `Unavailable (do not give numbers for these): ${regional.failures.map(f => f.name).join(', ')}\n`;
+  }
+
+  return output;
+}
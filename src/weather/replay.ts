@@ -0,0 +1,223 @@
+/**
+ * Replay
+ *
+ * Rebuild a weather package offline from stored raw NWS text (or
+ * Open-Meteo JSON), so past broadcasts can be reproduced and
+ * parser/prompt changes checked against fixed inputs.
+ */
+
+import { readFileSync } from 'node:fs';
+import { and, desc, eq } from 'drizzle-orm';
+import { getDb, schema } from '../storage/db';
+import { createEmptyAFD, extractHeaderIssueTime, parseAFD, parseIssueTime } from './afd-parser';
+import { parseForecast } from './forecast-parser';
+import { parseHourlyForecastJson } from './nws-api';
+import { parseOpenMeteoForecast } from './open-meteo';
+import { conditionsFromMetar } from './observations';
+import type { WeatherData } from './types';
+
+/**
+ * Where replayed weather comes from
+ * - snapshot: a weather_snapshots row by ID
+ * - episode: the snapshot recorded for a location's and host's episode on a
+ *   broadcast date (either may be left out when only one episode matches)
+ * - files: raw AFD text plus forecast HTML (or hourly forecast JSON), as of
+ *   `fetchedAt` or, without it, the time recorded in the files
+ */
+export type ReplaySource =
+  | { type: 'snapshot'; snapshotId: string }
+  | { type: 'episode'; broadcastDate: string; location?: string; persona?: string }
+  | { type: 'files'; afdPath: string; forecastPath: string; fetchedAt?: Date };
+
+/**
+ * Weather package rebuilt from stored inputs
+ */
+export interface ReplayResult {
+  data: WeatherData;
+  label: string; // Human-readable origin, e.g. "snapshot abc123"
+  fetchedAt: Date; // When the inputs were originally fetched
+  episodeNumber?: number; // Original episode, when replaying one
+  persona?: string; // Original host's persona key, when replaying an episode
+}
+
+/**
+ * Previously parsed values that have no raw form in the snapshot
+ */
+type StoredWeather = Partial<Pick<WeatherData, 'alerts' | 'airQuality' | 'provider' | 'source' | 'location'>> & {
+  forecast?: Partial<WeatherData['forecast']>;
+  afd?: Partial<Pick<WeatherData['afd'], 'issueTime'>>;
+};
+
+/**
+ * Load and rebuild the weather package for a replay source
+ */
+export async function loadReplayWeather(source: ReplaySource): Promise<ReplayResult> {
+  if (source.type === 'files') {
+    const afdRaw = readFileSync(source.afdPath, 'utf-8');
+    const forecastRaw = readFileSync(source.forecastPath, 'utf-8');
+    const fetchedAt = source.fetchedAt ?? getFilesReferenceTime(afdRaw, forecastRaw);
+
+    if (!fetchedAt) {
+      throw new Error(`No time found in ${source.afdPath} or ${source.forecastPath}; pass one with --replay-time`);
+    }
+
+    return {
+      data: rebuildWeatherData(afdRaw, forecastRaw, fetchedAt),
+      label: `files ${source.afdPath} + ${source.forecastPath}`,
+      fetchedAt,
+    };
+  }
+
+  const db = getDb();
+
+  let snapshot;
+  let episodeNumber: number | undefined;
+  let persona: string | undefined;
+
+  if (source.type === 'snapshot') {
+    [snapshot] = await db
+      .select()
+      .from(schema.weatherSnapshots)
+      .where(eq(schema.weatherSnapshots.id, source.snapshotId))
+      .limit(1);
+
+    if (!snapshot) {
+      throw new Error(`No weather snapshot with ID ${source.snapshotId}`);
+    }
+  } else {
+    const conditions = [eq(schema.episodes.broadcastDate, source.broadcastDate)];
+    if (source.location) {
+      conditions.push(eq(schema.episodes.location, source.location));
+    }
+    if (source.persona) {
+      conditions.push(eq(schema.episodes.persona, source.persona));
+    }
+
+    const episodes = await db
+      .select()
+      .from(schema.episodes)
+      .where(and(...conditions));
+
+    if (episodes.length === 0) {
+      const at = source.location ? ` at ${source.location}` : '';
+      const by = source.persona ? ` hosted by ${source.persona}` : '';
+      throw new Error(`No episode for ${source.broadcastDate}${at}${by}`);
+    }
+    if (episodes.length > 1) {
+      const matches = episodes.map(episode => `${episode.location}/${episode.persona}`).join(', ');
+      throw new Error(`${episodes.length} episodes for ${source.broadcastDate} (${matches}); pick one with --location and --persona`);
+    }
+
+    const [episode] = episodes;
+
+    [snapshot] = await db
+      .select()
+      .from(schema.weatherSnapshots)
+      .where(eq(schema.weatherSnapshots.episodeId, episode.id))
+      .orderBy(desc(schema.weatherSnapshots.fetchedAt))
+      .limit(1);
+
+    if (!snapshot) {
+      throw new Error(`No weather snapshot was recorded for the ${source.broadcastDate} ${episode.location} episode`);
+    }
+    episodeNumber = episode.episodeNumber;
+    persona = episode.persona;
+  }
+
+  // Open-Meteo snapshots have no AFD to replay
+  if (!snapshot.forecastRaw || (!snapshot.afdRaw && forecastFormat(snapshot.forecastRaw) !== 'open-meteo')) {
+    throw new Error(`Snapshot ${snapshot.id} has no raw AFD/forecast text to replay`);
+  }
+
+  const fetchedAt = new Date(snapshot.fetchedAt);
+  const stored = JSON.parse(snapshot.parsedData || '{}') as StoredWeather;
+
+  return {
+    data: rebuildWeatherData(snapshot.afdRaw || '', snapshot.forecastRaw, fetchedAt, {
+      ...stored,
+      location: snapshot.location ?? stored.location,
+    }),
+    label: `snapshot ${snapshot.id}`,
+    fetchedAt,
+    episodeNumber,
+    persona,
+  };
+}
+
+/**
+ * Re-run the parsers over raw AFD and forecast text
+ *
+ * The forecast may be digital forecast HTML, the hourly forecast JSON
+ * kept by the API backend, or an Open-Meteo response (whose empty AFD
+ * text is allowed). Observed conditions are re-decoded from the stored
+ * METAR; alerts, air quality, the NWS 7-day periods and the API's AFD
+ * issuance time have no raw form in a snapshot, so their stored parsed values
+ * are reused.
+ */
+export function rebuildWeatherData(
+  afdRaw: string,
+  forecastRaw: string,
+  fetchedAt: Date,
+  stored: StoredWeather = {}
+): WeatherData {
+  const format = forecastFormat(forecastRaw);
+  const forecast = format === 'open-meteo'
+    ? parseOpenMeteoForecast(forecastRaw)
+    : format === 'nws-json' ? parseHourlyForecastJson(forecastRaw) : parseForecast(forecastRaw, fetchedAt);
+
+  if (format === 'nws-json' && stored.forecast?.daily) {
+    forecast.daily = stored.forecast.daily;
+  }
+
+  const storedCurrent = stored.forecast?.current;
+  if (storedCurrent?.rawMetar) {
+    forecast.current = conditionsFromMetar(storedCurrent.rawMetar, storedCurrent.conditions, fetchedAt);
+  } else if (storedCurrent?.source === 'observed') {
+    forecast.current = storedCurrent;
+  } else {
+    // Forecast-derived conditions are stamped at parse time; keep the original moment
+    forecast.current.observationTime = fetchedAt.toISOString();
+  }
+
+  const isNws = format !== 'open-meteo';
+
+  return {
+    afd: afdRaw ? parseAFD(afdRaw, stored.afd?.issueTime) : createEmptyAFD('Open-Meteo', fetchedAt.toISOString()),
+    forecast,
+    alerts: stored.alerts,
+    airQuality: stored.airQuality,
+    provider: stored.provider ?? (isNws ? 'nws' : 'open-meteo'),
+    source: isNws ? stored.source ?? (format === 'nws-json' ? 'api' : 'html') : undefined,
+    location: stored.location,
+    fetchedAt: fetchedAt.toISOString(),
+    isStale: false,
+  };
+}
+
+/**
+ * When raw files were fetched, so replaying them doesn't depend on the clock:
+ * the hourly forecast JSON's generation time, else the AFD's issue time
+ */
+function getFilesReferenceTime(afdRaw: string, forecastRaw: string): Date | null {
+  if (forecastFormat(forecastRaw) === 'nws-json') {
+    const { properties } = JSON.parse(forecastRaw) as { properties: { generatedAt?: string; updateTime?: string } };
+    const generated = properties.generatedAt ?? properties.updateTime;
+    if (generated && !Number.isNaN(Date.parse(generated))) {
+      return new Date(generated);
+    }
+  }
+
+  const issueTime = afdRaw ? extractHeaderIssueTime(afdRaw) : null;
+  return issueTime ? parseIssueTime(issueTime) : null;
+}
+
+/**
+ * Identify a raw forecast payload
+ */
+function forecastFormat(raw: string): 'html' | 'nws-json' | 'open-meteo' {
+  if (!raw.trimStart().startsWith('{')) {
+    return 'html';
+  }
+  // NWS documents wrap periods in "properties"; Open-Meteo has a top-level hourly series
+  return 'properties' in JSON.parse(raw) ? 'nws-json' : 'open-meteo';
+}
@@ -0,0 +1,296 @@
+/**
+ * Snapshot Diff
+ *
+ * Compare the current weather package against the one used for the
+ * previous broadcast at the same location, so the script can pick up
+ * where the last episode left off.
+ */
+
+import { and, desc, eq, isNotNull, ne } from 'drizzle-orm';
+import { getDb, schema } from '../storage/db';
+import { getActiveHazards } from './alerts';
+import type { DailyForecast, Hazard, HourlyForecast, WeatherData } from './types';
+
+// Differences smaller than these are noise, not news
+const TEMPERATURE_CHANGE_THRESHOLD = 3; // °F
+const BUST_TEMPERATURE_THRESHOLD = 5; // °F
+const REVISION_TEMPERATURE_THRESHOLD = 5; // °F
+const REVISION_PRECIP_THRESHOLD = 30; // percentage points
+const KEY_MESSAGE_SIMILARITY = 0.5; // Word overlap at which two messages are "the same"
+
+/**
+ * Weather package used for a previous broadcast
+ */
+export interface PreviousBroadcastWeather {
+  snapshotId: string;
+  broadcastDate: string;
+  data: WeatherData;
+}
+
+/**
+ * A forecast that missed what actually happened
+ */
+export interface ForecastBust {
+  element: 'temperature' | 'precipitation';
+  forecast: string; // What the previous package predicted for now
+  actual: string; // What is observed now
+}
+
+/**
+ * A change to a future day's forecast between the two packages
+ */
+export interface ForecastRevision {
+  date: string;
+  name: string;
+  changes: string[]; // e.g. ["high 52°F -> 44°F"]
+}
+
+/**
+ * What changed between the previous broadcast's weather and now
+ */
+export interface WeatherDiff {
+  previousBroadcastDate: string;
+  hoursSince: number;
+  temperature: { previous: number; current: number; change: number };
+  newHazards: Hazard[];
+  expiredHazards: Hazard[];
+  continuingHazards: Hazard[];
+  forecastBusts: ForecastBust[];
+  forecastRevisions: ForecastRevision[];
+  keyMessages: { added: string[]; dropped: string[] };
+}
+
+/**
+ * Load the weather package from the most recent earlier episode at a location
+ */
+export async function getPreviousBroadcastWeather(
+  locationKey: string,
+  currentEpisodeId?: string
+): Promise<PreviousBroadcastWeather | null> {
+  try {
+    const db = getDb();
+
+    const conditions = [
+      eq(schema.weatherSnapshots.location, locationKey),
+      isNotNull(schema.weatherSnapshots.episodeId),
+    ];
+    if (currentEpisodeId) {
+      conditions.push(ne(schema.weatherSnapshots.episodeId, currentEpisodeId));
+    }
+
+    const rows = await db
+      .select({
+        id: schema.weatherSnapshots.id,
+        parsedData: schema.weatherSnapshots.parsedData,
+        broadcastDate: schema.episodes.broadcastDate,
+      })
+      .from(schema.weatherSnapshots)
+      .innerJoin(schema.episodes, eq(schema.weatherSnapshots.episodeId, schema.episodes.id))
+      .where(and(...conditions))
+      .orderBy(desc(schema.weatherSnapshots.fetchedAt))
+      .limit(1);
+
+    const [row] = rows;
+    if (!row?.parsedData) {
+      return null;
+    }
+
+    return { snapshotId: row.id, broadcastDate: row.broadcastDate, data: JSON.parse(row.parsedData) as WeatherData };
+  } catch (error) {
+    console.log(`  Warning: Failed to load previous broadcast weather: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Compare two weather packages
+ */
+export function diffWeatherData(
+  previous: WeatherData,
+  current: WeatherData,
+  previousBroadcastDate: string
+): WeatherDiff {
+  const prevTemp = previous.forecast.current.temperature;
+  const currTemp = current.forecast.current.temperature;
+
+  const previousHazards = getActiveHazards(previous);
+  const currentHazards = getActiveHazards(current);
+  const previousKeys = new Set(previousHazards.map(hazardKey));
+  const currentKeys = new Set(currentHazards.map(hazardKey));
+
+  return {
+    previousBroadcastDate,
+    hoursSince: Math.round(
+      (new Date(current.fetchedAt).getTime() - new Date(previous.fetchedAt).getTime()) / (1000 * 60 * 60)
+    ),
+    temperature: { previous: prevTemp, current: currTemp, change: currTemp - prevTemp },
+    newHazards: currentHazards.filter(h => !previousKeys.has(hazardKey(h))),
+    expiredHazards: previousHazards.filter(h => !currentKeys.has(hazardKey(h))),
+    continuingHazards: currentHazards.filter(h => previousKeys.has(hazardKey(h))),
+    forecastBusts: findForecastBusts(previous.forecast.hourly, current),
+    forecastRevisions: findForecastRevisions(previous.forecast.daily || [], current.forecast.daily || []),
+    // Same discussion product as last time: its key messages can't have changed
+    keyMessages: isSameAFDIssue(previous.afd.issueTime, current.afd.issueTime)
+      ? { added: [], dropped: [] }
+      : diffKeyMessages(previous.afd.keyMessages, current.afd.keyMessages),
+  };
+}
+
+/**
+ * Format a diff as the "SINCE LAST BROADCAST" script section
+ */
+export function formatWeatherDiff(diff: WeatherDiff): string {
+  let output = `SINCE LAST BROADCAST (${diff.previousBroadcastDate}, ${diff.hoursSince} hours ago):\n`;
+
+  const { previous, current, change } = diff.temperature;
+  if (Math.abs(change) >= TEMPERATURE_CHANGE_THRESHOLD) {
+    output += `- Temperature: ${current}°F now vs ${previous}°F last broadcast (${change > 0 ? 'up' : 'down'} ${Math.abs(change)}°F)\n`;
+  } else {
+    output += `- Temperature: ${current}°F now, about the same as last broadcast (${previous}°F)\n`;
+  }
+
+  for (const hazard of diff.newHazards) {
+    output += `- NEW: ${hazard.type}${hazard.timing ? ` (${hazard.timing})` : ''}\n`;
+  }
+  for (const hazard of diff.continuingHazards) {
+    output += `- STILL IN EFFECT: ${hazard.type}\n`;
+  }
+  for (const hazard of diff.expiredHazards) {
+    output += `- EXPIRED/CANCELLED: ${hazard.type}\n`;
+  }
+
+  for (const bust of diff.forecastBusts) {
+    output += `- Forecast miss (${bust.element}): we expected ${bust.forecast}, actual is ${bust.actual}\n`;
+  }
+
+  for (const revision of diff.forecastRevisions) {
+    output += `- ${revision.name} forecast revised: ${revision.changes.join(', ')}\n`;
+  }
+
+  for (const message of diff.keyMessages.added) {
+    output += `- New NWS key message: ${message}\n`;
+  }
+  for (const message of diff.keyMessages.dropped) {
+    output += `- No longer a key message: ${message}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Identity of a hazard across fetches
+ */
+function hazardKey(hazard: Hazard): string {
+  return (hazard.event || hazard.type).toLowerCase();
+}
+
+/**
+ * Compare what the previous package forecast for this hour with what is observed now
+ */
+function findForecastBusts(previousHourly: HourlyForecast[], current: WeatherData): ForecastBust[] {
+  const observed = current.forecast.current;
+  if (observed.source !== 'observed') {
+    return [];
+  }
+
+  const forecastHour = findHour(previousHourly, new Date(observed.observationTime));
+  if (!forecastHour) {
+    return [];
+  }
+
+  const busts: ForecastBust[] = [];
+
+  if (forecastHour.temperature !== null &&
+      Math.abs(forecastHour.temperature - observed.temperature) >= BUST_TEMPERATURE_THRESHOLD) {
+    busts.push({
+      element: 'temperature',
+      forecast: `${forecastHour.temperature}°F`,
+      actual: `${observed.temperature}°F`,
+    });
+  }
+
+  const precipitating = /rain|snow|drizzle|sleet|shower|storm|thunder|precip/i.test(observed.conditions);
+  const chance = forecastHour.precipProbability;
+  if (chance !== null && ((chance >= 60 && !precipitating) || (chance <= 20 && precipitating))) {
+    busts.push({
+      element: 'precipitation',
+      forecast: `${forecastHour.weatherDescription} (${chance}%)`,
+      actual: observed.conditions,
+    });
+  }
+
+  return busts;
+}
+
+/**
+ * Find the forecast hour covering a moment in time
+ */
+function findHour(hourly: HourlyForecast[], when: Date): HourlyForecast | undefined {
+  return hourly.find(hour => {
+    const start = new Date(hour.timestamp).getTime();
+    return when.getTime() >= start && when.getTime() < start + 60 * 60 * 1000;
+  });
+}
+
+/**
+ * Compare daily highs, lows and precipitation chances for days in both packages
+ */
+function findForecastRevisions(previous: DailyForecast[], current: DailyForecast[]): ForecastRevision[] {
+  const revisions: ForecastRevision[] = [];
+  const previousByDate = new Map(previous.map(day => [day.date, day]));
+
+  for (const day of current) {
+    const before = previousByDate.get(day.date);
+    if (!before) continue;
+
+    const changes: string[] = [];
+    if (before.high !== null && day.high !== null && Math.abs(day.high - before.high) >= REVISION_TEMPERATURE_THRESHOLD) {
+      changes.push(`high ${before.high}°F -> ${day.high}°F`);
+    }
+    if (before.low !== null && day.low !== null && Math.abs(day.low - before.low) >= REVISION_TEMPERATURE_THRESHOLD) {
+      changes.push(`low ${before.low}°F -> ${day.low}°F`);
+    }
+    if (Math.abs(day.precipProbability - before.precipProbability) >= REVISION_PRECIP_THRESHOLD) {
+      changes.push(`precip chance ${before.precipProbability}% -> ${day.precipProbability}%`);
+    }
+
+    if (changes.length > 0) {
+      revisions.push({ date: day.date, name: day.name, changes });
+    }
+  }
+
+  return revisions;
+}
+
+/**
+ * Whether two AFD issue times (ISO, from the API's product metadata) name the same product
+ */
+function isSameAFDIssue(previous: string, current: string): boolean {
+  const previousTime = Date.parse(previous);
+  const currentTime = Date.parse(current);
+  return !Number.isNaN(previousTime) && previousTime === currentTime;
+}
+
+/**
+ * Key messages added or dropped, matching reworded messages by word overlap
+ */
+function diffKeyMessages(previous: string[], current: string[]): { added: string[]; dropped: string[] } {
+  const matches = (a: string, list: string[]) => list.some(b => similarity(a, b) >= KEY_MESSAGE_SIMILARITY);
+
+  return {
+    added: current.filter(message => !matches(message, previous)),
+    dropped: previous.filter(message => !matches(message, current)),
+  };
+}
+
+/**
+ * Jaccard similarity of the words in two messages
+ */
+function similarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+  const wa = words(a);
+  const wb = words(b);
+  const shared = [...wa].filter(word => wb.has(word)).length;
+  const total = new Set([...wa, ...wb]).size;
+  return total === 0 ? 1 : shared / total;
+}
@@ -7,13 +7,59 @@
 import { z } from 'zod';
 
 /**
- * Hazard information from AFD
+ * CAP alert severity, most to least severe
+ */
+export type AlertSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown';
+
+/**
+ * Hazard information
+ *
+ * Hazards from NWS alerts (source 'alert') carry the CAP fields;
+ * hazards scraped from AFD prose (source 'afd') only have the basics.
  */
 export interface Hazard {
   type: string;
   areas: string[];
   timing: string;
   description: string;
+  source?: 'alert' | 'afd';
+  event?: string; // e.g. "Winter Storm Warning"
+  severity?: AlertSeverity;
+  urgency?: string; // Immediate, Expected, Future, Past, Unknown
+  certainty?: string; // Observed, Likely, Possible, Unlikely, Unknown
+  onset?: string; // ISO timestamp
+  expires?: string; // ISO timestamp
+  zones?: string[]; // UGC zone codes, e.g. COZ039
+  instruction?: string;
+}
+
+/**
+ * Standard AFD sections
+ */
+export type AFDSectionName =
+  | 'keyMessages'
+  | 'synopsis'
+  | 'update'
+  | 'discussion'
+  | 'nearTerm' // Offices that split the short term, e.g. OKX's ".NEAR TERM /Until 6 PM this evening/"
+  | 'shortTerm'
+  | 'longTerm'
+  | 'aviation'
+  | 'fireWeather'
+  | 'hydrology'
+  | 'marine'
+  | 'climate'
+  | 'watchesWarnings'; // The ".BOU WATCHES/WARNINGS/ADVISORIES" block
+
+/**
+ * A single AFD section
+ */
+export interface AFDSection {
+  title: string; // Heading as issued, e.g. "SHORT TERM"
+  validPeriod?: string; // e.g. "Tonight through Monday"
+  issuedAt?: string; // Section update time, e.g. "205 PM MST Sun Dec 7 2025"
+  author?: string; // From the sign-off block after $$
+  text: string; // Body with line wraps joined; paragraphs and bullets on separate lines
 }
 
 /**
@@ -24,27 +70,68 @@ export interface AFDData {
   discussion: string;
   hazards: Hazard[];
   aviation: string;
+  sections: Partial<Record<AFDSectionName, AFDSection>>;
+  officeName: string; // e.g. "Denver/Boulder CO"
   issueTime: string;
   forecaster: string;
   rawText: string;
 }
 
+/**
+ * Likelihood of a precipitation type in the digital forecast
+ * (Slight Chance, Chance, Likely, Occasional, Definite)
+ */
+export type PrecipLikelihood = 'SChc' | 'Chc' | 'Lkly' | 'Ocnl' | 'Def';
+
 /**
  * Hourly forecast point
+ *
+ * Elements the source did not provide for an hour are null (never 0).
  */
 export interface HourlyForecast {
-  hour: number;
-  date: string;
-  temperature: number;
-  dewpoint: number;
-  humidity: number;
-  windSpeed: number;
-  windDirection: string;
-  skyCover: number;
-  precipProbability: number;
+  timestamp: string; // ISO 8601 with the local offset, e.g. 2025-12-07T16:00:00-07:00
+  hour: number; // Local hour (0-23)
+  date: string; // Local date, YYYY-MM-DD
+  temperature: number | null;
+  dewpoint: number | null;
+  humidity: number | null;
+  windSpeed: number | null;
+  windDirection: string | null;
+  windGust: number | null;
+  windChill: number | null; // °F, only when cold and windy
+  heatIndex: number | null; // °F, only when hot
+  skyCover: number | null;
+  precipProbability: number | null;
+  rain: PrecipLikelihood | null;
+  snow: PrecipLikelihood | null;
+  thunder: PrecipLikelihood | null;
+  freezingRain: PrecipLikelihood | null;
+  sleet: PrecipLikelihood | null;
+  qpf: number | null; // Liquid precipitation amount (inches) for the period ending this hour
   weatherDescription: string;
 }
 
+/**
+ * Daily forecast period (one calendar day in the location's timezone)
+ */
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD
+  name: string; // NWS period name, e.g. "Today", "Tonight", "Monday"
+  high: number | null; // null when the daytime period has already passed
+  low: number | null;
+  precipProbability: number;
+  summary: string; // Short forecast, e.g. "Chance Snow Showers"
+  detailedForecast: string;
+  icon: string; // NWS icon code, e.g. "snow", "bkn", "tsra"
+}
+
+/**
+ * Where current conditions came from
+ * - observed: latest METAR/ASOS observation
+ * - forecast: first forecast hour (fallback when no observation is available)
+ */
+export type CurrentConditionsSource = 'observed' | 'forecast';
+
 /**
  * Current conditions
  */
@@ -54,9 +141,14 @@ export interface CurrentConditions {
   humidity: number;
   windSpeed: number;
   windDirection: string;
+  windGust?: number;
+  feelsLike?: number; // Wind chill or heat index, when it differs from the temperature
   skyCover: number;
   conditions: string;
   observationTime: string;
+  source: CurrentConditionsSource;
+  stationId?: string; // Observation station, e.g. KDEN
+  rawMetar?: string;
 }
 
 /**
@@ -64,8 +156,67 @@ export interface CurrentConditions {
  */
 export interface ForecastData {
   hourly: HourlyForecast[];
+  daily?: DailyForecast[]; // Extended outlook, up to 7 days
   current: CurrentConditions;
   rawHtml: string;
+  isPlaceholder?: boolean; // Parsing failed and default values were substituted - never broadcast as-is
+}
+
+/**
+ * Weather ingestion backend
+ * - api: api.weather.gov JSON endpoints
+ * - html: forecast.weather.gov page scraping
+ */
+export type WeatherSource = 'api' | 'html';
+
+/**
+ * Weather data provider, chosen per location
+ * - nws: National Weather Service (US only; backend chosen by WeatherSource)
+ * - open-meteo: Open-Meteo forecast API (worldwide, no AFD or alerts)
+ * - file: local WeatherData or Open-Meteo JSON file (offline runs and fixtures)
+ */
+export type WeatherProviderName = 'nws' | 'open-meteo' | 'file';
+
+/**
+ * EPA AQI category names, as reported by AirNow
+ */
+export type AqiCategory =
+  | 'Good'
+  | 'Moderate'
+  | 'Unhealthy for Sensitive Groups'
+  | 'Unhealthy'
+  | 'Very Unhealthy'
+  | 'Hazardous';
+
+/**
+ * AQI for one pollutant
+ */
+export interface AirQualityReading {
+  pollutant: string; // AirNow parameter name, e.g. "O3", "PM2.5"
+  aqi: number | null; // null when only the category is forecast
+  category: AqiCategory;
+}
+
+/**
+ * Air quality forecast for one pollutant and day
+ */
+export interface AirQualityForecastDay extends AirQualityReading {
+  date: string; // YYYY-MM-DD
+  actionDay: boolean; // Ozone/particulate action day declared by the forecasters
+  discussion?: string;
+}
+
+/**
+ * Air quality and wildfire smoke for a location
+ */
+export interface AirQualityData {
+  reportingArea?: string; // AirNow reporting area, e.g. "Denver-Boulder"
+  observedAt?: string; // Local observation hour as reported, e.g. "2026-07-20 14:00 MST"
+  current: AirQualityReading[];
+  overall: AirQualityReading | null; // Worst current pollutant (the headline AQI)
+  forecast: AirQualityForecastDay[];
+  smoke: boolean; // Wildfire smoke is affecting the area
+  smokeReasons: string[]; // Evidence, e.g. "smoke in the current observation"
 }
 
 /**
@@ -74,6 +225,11 @@ export interface ForecastData {
 export interface WeatherData {
   afd: AFDData;
   forecast: ForecastData;
+  alerts?: Hazard[]; // Active NWS alerts; undefined when alerts could not be fetched
+  airQuality?: AirQualityData; // AQI and smoke; undefined when unavailable
+  provider?: WeatherProviderName; // Provider that produced the data (nws when absent)
+  source?: WeatherSource; // NWS backend that produced the data
+  location?: string; // Location registry key the data was fetched for
   fetchedAt: string;
   isStale: boolean;
   staleAge?: number; // Hours since fresh data
@@ -89,12 +245,52 @@ export interface WeatherFetchResult {
   usedFallback: boolean;
 }
 
+/**
+ * Weather fetch options
+ */
+export interface WeatherFetchOptions {
+  source?: WeatherSource; // NWS backend; defaults to the WEATHER_SOURCE config value
+}
+
 // Zod schemas for validation
 export const hazardSchema = z.object({
   type: z.string(),
   areas: z.array(z.string()),
   timing: z.string(),
   description: z.string(),
+  source: z.enum(['alert', 'afd']).optional(),
+  event: z.string().optional(),
+  severity: z.enum(['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown']).optional(),
+  urgency: z.string().optional(),
+  certainty: z.string().optional(),
+  onset: z.string().optional(),
+  expires: z.string().optional(),
+  zones: z.array(z.string()).optional(),
+  instruction: z.string().optional(),
+});
+
+export const afdSectionNameSchema = z.enum([
+  'keyMessages',
+  'synopsis',
+  'update',
+  'discussion',
+  'nearTerm',
+  'shortTerm',
+  'longTerm',
+  'aviation',
+  'fireWeather',
+  'hydrology',
+  'marine',
+  'climate',
+  'watchesWarnings',
+]);
+
+export const afdSectionSchema = z.object({
+  title: z.string(),
+  validPeriod: z.string().optional(),
+  issuedAt: z.string().optional(),
+  author: z.string().optional(),
+  text: z.string(),
 });
 
 export const afdDataSchema = z.object({
@@ -102,44 +298,112 @@ export const afdDataSchema = z.object({
   discussion: z.string(),
   hazards: z.array(hazardSchema),
   aviation: z.string(),
+  sections: z.record(afdSectionNameSchema, afdSectionSchema),
+  officeName: z.string(),
   issueTime: z.string(),
   forecaster: z.string(),
   rawText: z.string(),
 });
 
+export const precipLikelihoodSchema = z.enum(['SChc', 'Chc', 'Lkly', 'Ocnl', 'Def']);
+
 export const hourlyForecastSchema = z.object({
+  timestamp: z.string(),
   hour: z.number(),
   date: z.string(),
-  temperature: z.number(),
-  dewpoint: z.number(),
-  humidity: z.number(),
-  windSpeed: z.number(),
-  windDirection: z.string(),
-  skyCover: z.number(),
-  precipProbability: z.number(),
+  temperature: z.number().nullable(),
+  dewpoint: z.number().nullable(),
+  humidity: z.number().nullable(),
+  windSpeed: z.number().nullable(),
+  windDirection: z.string().nullable(),
+  windGust: z.number().nullable(),
+  windChill: z.number().nullable(),
+  heatIndex: z.number().nullable(),
+  skyCover: z.number().nullable(),
+  precipProbability: z.number().nullable(),
+  rain: precipLikelihoodSchema.nullable(),
+  snow: precipLikelihoodSchema.nullable(),
+  thunder: precipLikelihoodSchema.nullable(),
+  freezingRain: precipLikelihoodSchema.nullable(),
+  sleet: precipLikelihoodSchema.nullable(),
+  qpf: z.number().nullable(),
   weatherDescription: z.string(),
 });
 
+export const dailyForecastSchema = z.object({
+  date: z.string(),
+  name: z.string(),
+  high: z.number().nullable(),
+  low: z.number().nullable(),
+  precipProbability: z.number(),
+  summary: z.string(),
+  detailedForecast: z.string(),
+  icon: z.string(),
+});
+
 export const currentConditionsSchema = z.object({
   temperature: z.number(),
   dewpoint: z.number(),
   humidity: z.number(),
   windSpeed: z.number(),
   windDirection: z.string(),
+  windGust: z.number().optional(),
+  feelsLike: z.number().optional(),
   skyCover: z.number(),
   conditions: z.string(),
   observationTime: z.string(),
+  source: z.enum(['observed', 'forecast']),
+  stationId: z.string().optional(),
+  rawMetar: z.string().optional(),
 });
 
 export const forecastDataSchema = z.object({
   hourly: z.array(hourlyForecastSchema),
+  daily: z.array(dailyForecastSchema).optional(),
   current: currentConditionsSchema,
   rawHtml: z.string(),
+  isPlaceholder: z.boolean().optional(),
+});
+
+export const weatherProviderSchema = z.enum(['nws', 'open-meteo', 'file']);
+
+export const aqiCategorySchema = z.enum([
+  'Good',
+  'Moderate',
+  'Unhealthy for Sensitive Groups',
+  'Unhealthy',
+  'Very Unhealthy',
+  'Hazardous',
+]);
+
+export const airQualityReadingSchema = z.object({
+  pollutant: z.string(),
+  aqi: z.number().nullable(),
+  category: aqiCategorySchema,
+});
+
+export const airQualityDataSchema = z.object({
+  reportingArea: z.string().optional(),
+  observedAt: z.string().optional(),
+  current: z.array(airQualityReadingSchema),
+  overall: airQualityReadingSchema.nullable(),
+  forecast: z.array(airQualityReadingSchema.extend({
+    date: z.string(),
+    actionDay: z.boolean(),
+    discussion: z.string().optional(),
+  })),
+  smoke: z.boolean(),
+  smokeReasons: z.array(z.string()),
 });
 
 export const weatherDataSchema = z.object({
   afd: afdDataSchema,
   forecast: forecastDataSchema,
+  alerts: z.array(hazardSchema).optional(),
+  airQuality: airQualityDataSchema.optional(),
+  provider: weatherProviderSchema.optional(),
+  source: z.enum(['api', 'html']).optional(),
+  location: z.string().optional(),
   fetchedAt: z.string(),
   isStale: z.boolean(),
   staleAge: z.number().optional(),
@@ -0,0 +1,240 @@
+/**
+ * Weather Validator
+ *
+ * Sanity checks run on a weather package before it reaches the script:
+ * the zod schemas in types.ts plus physical plausibility rules. Errors
+ * mean the numbers cannot be trusted on air; warnings are worth a look
+ * but do not block a broadcast.
+ */
+
+import { weatherDataSchema, type CurrentConditions, type HourlyForecast, type WeatherData } from './types';
+
+// Plausible surface temperature range (°F), beyond the world records with margin
+const MIN_TEMPERATURE = -80;
+const MAX_TEMPERATURE = 135;
+// Rounding in the source data can put the dewpoint a degree above the temperature
+const DEWPOINT_TOLERANCE = 1; // °F
+const MAX_WIND_SPEED = 150; // mph, sustained
+const MAX_HOURLY_TEMPERATURE_JUMP = 30; // °F between consecutive hours
+const MAX_OBSERVATION_AGE_HOURS = 3;
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found in the weather data
+ */
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  field: string; // e.g. "forecast.current.humidity" or "forecast.hourly"
+  message: string;
+}
+
+/**
+ * Validation outcome; `valid` is false when any issue is an error
+ */
+export interface WeatherValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Validate a weather package
+ */
+export function validateWeatherData(data: WeatherData): WeatherValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  const schemaResult = weatherDataSchema.safeParse(data);
+  if (!schemaResult.success) {
+    for (const issue of schemaResult.error.issues) {
+      issues.push({ severity: 'error', field: issue.path.join('.') || 'value', message: issue.message });
+    }
+    // Plausibility rules assume the shape is right
+    return toResult(issues);
+  }
+
+  const { forecast } = data;
+
+  if (forecast.isPlaceholder) {
+    issues.push({
+      severity: 'error',
+      field: 'forecast',
+      message: 'forecast could not be parsed; placeholder values (40°F, partly cloudy) were substituted',
+    });
+  }
+
+  if (forecast.hourly.length === 0) {
+    issues.push({ severity: 'error', field: 'forecast.hourly', message: 'hourly forecast is empty' });
+  } else if (forecast.hourly.every(h => h.temperature === null)) {
+    issues.push({ severity: 'error', field: 'forecast.hourly', message: 'no forecast hour has a temperature' });
+  }
+
+  issues.push(...checkCurrent(forecast.current, data.fetchedAt));
+  issues.push(...checkHourly(forecast.hourly));
+
+  for (const day of forecast.daily || []) {
+    if (day.high !== null && day.low !== null && day.low > day.high) {
+      // The low comes from the following night, so a warm night after a cold front can do this
+      issues.push({
+        severity: 'warning',
+        field: `forecast.daily.${day.date}`,
+        message: `low ${day.low}°F is above high ${day.high}°F`,
+      });
+    }
+    for (const [name, value] of [['high', day.high], ['low', day.low]] as const) {
+      if (value !== null && !isPlausibleTemperature(value)) {
+        issues.push({ severity: 'error', field: `forecast.daily.${day.date}.${name}`, message: `${name} ${value}°F is implausible` });
+      }
+    }
+    if (!isPercentage(day.precipProbability)) {
+      issues.push({
+        severity: 'error',
+        field: `forecast.daily.${day.date}.precipProbability`,
+        message: `precipitation chance ${day.precipProbability}% is outside 0-100`,
+      });
+    }
+  }
+
+  return toResult(issues);
+}
+
+/**
+ * Format issues as indented lines for the console or an error message
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => `  - [${issue.severity}] ${issue.field}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Plausibility rules for current conditions
+ */
+function checkCurrent(current: CurrentConditions, fetchedAt: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const field = (name: string) => `forecast.current.${name}`;
+
+  if (!isPlausibleTemperature(current.temperature)) {
+    issues.push({ severity: 'error', field: field('temperature'), message: `${current.temperature}°F is implausible` });
+  }
+  if (current.dewpoint > current.temperature + DEWPOINT_TOLERANCE) {
+    issues.push({
+      severity: 'error',
+      field: field('dewpoint'),
+      message: `dewpoint ${current.dewpoint}°F is above temperature ${current.temperature}°F`,
+    });
+  }
+  if (!isPercentage(current.humidity)) {
+    issues.push({ severity: 'error', field: field('humidity'), message: `humidity ${current.humidity}% is outside 0-100` });
+  }
+  if (!isPercentage(current.skyCover)) {
+    issues.push({ severity: 'error', field: field('skyCover'), message: `sky cover ${current.skyCover}% is outside 0-100` });
+  }
+  if (current.windSpeed < 0 || current.windSpeed > MAX_WIND_SPEED) {
+    issues.push({ severity: 'error', field: field('windSpeed'), message: `wind speed ${current.windSpeed} mph is implausible` });
+  }
+  if (current.windGust !== undefined && current.windGust < current.windSpeed) {
+    issues.push({
+      severity: 'warning',
+      field: field('windGust'),
+      message: `gust ${current.windGust} mph is below the sustained wind ${current.windSpeed} mph`,
+    });
+  }
+
+  if (current.source === 'observed') {
+    const ageHours = (new Date(fetchedAt).getTime() - new Date(current.observationTime).getTime()) / (1000 * 60 * 60);
+    if (ageHours > MAX_OBSERVATION_AGE_HOURS) {
+      issues.push({
+        severity: 'warning',
+        field: field('observationTime'),
+        message: `observation is ${Math.round(ageHours)} hours older than the fetch`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Plausibility rules for the hourly series
+ *
+ * Each rule is reported once, with the number of hours that break it and
+ * the first one, so a systematically broken column doesn't produce 48 lines.
+ */
+function checkHourly(hourly: HourlyForecast[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const rule = (
+    severity: ValidationSeverity,
+    field: string,
+    broken: (hour: HourlyForecast, index: number) => string | null
+  ) => {
+    const failures = hourly
+      .map((hour, index) => ({ hour, reason: broken(hour, index) }))
+      .filter((failure): failure is { hour: HourlyForecast; reason: string } => failure.reason !== null);
+
+    if (failures.length > 0) {
+      const first = failures[0];
+      const others = failures.length - 1;
+      const more = others > 0 ? ` (and ${others} more hour${others === 1 ? '' : 's'})` : '';
+      issues.push({ severity, field: `forecast.hourly.${field}`, message: `${first.hour.timestamp}: ${first.reason}${more}` });
+    }
+  };
+
+  rule('error', 'temperature', h =>
+    h.temperature !== null && !isPlausibleTemperature(h.temperature) ? `${h.temperature}°F is implausible` : null);
+  rule('error', 'dewpoint', h =>
+    h.temperature !== null && h.dewpoint !== null && h.dewpoint > h.temperature + DEWPOINT_TOLERANCE
+      ? `dewpoint ${h.dewpoint}°F is above temperature ${h.temperature}°F`
+      : null);
+  rule('error', 'humidity', h =>
+    h.humidity !== null && !isPercentage(h.humidity) ? `humidity ${h.humidity}% is outside 0-100` : null);
+  rule('error', 'skyCover', h =>
+    h.skyCover !== null && !isPercentage(h.skyCover) ? `sky cover ${h.skyCover}% is outside 0-100` : null);
+  rule('error', 'precipProbability', h =>
+    h.precipProbability !== null && !isPercentage(h.precipProbability)
+      ? `precipitation chance ${h.precipProbability}% is outside 0-100`
+      : null);
+  rule('error', 'windSpeed', h =>
+    h.windSpeed !== null && (h.windSpeed < 0 || h.windSpeed > MAX_WIND_SPEED) ? `wind speed ${h.windSpeed} mph is implausible` : null);
+  rule('error', 'qpf', h =>
+    h.qpf !== null && h.qpf < 0 ? `precipitation amount ${h.qpf}" is negative` : null);
+  rule('warning', 'windGust', h =>
+    h.windGust !== null && h.windSpeed !== null && h.windGust < h.windSpeed
+      ? `gust ${h.windGust} mph is below the sustained wind ${h.windSpeed} mph`
+      : null);
+
+  rule('warning', 'timestamp', (h, i) => {
+    if (i === 0) return null;
+    const previous = hourly[i - 1];
+    return new Date(h.timestamp).getTime() <= new Date(previous.timestamp).getTime()
+      ? `hour does not follow ${previous.timestamp}`
+      : null;
+  });
+  rule('warning', 'temperature', (h, i) => {
+    const previous = hourly[i - 1]?.temperature;
+    if (i === 0 || h.temperature === null || previous === null || previous === undefined) return null;
+    return Math.abs(h.temperature - previous) > MAX_HOURLY_TEMPERATURE_JUMP
+      ? `temperature jumps from ${previous}°F to ${h.temperature}°F in an hour`
+      : null;
+  });
+
+  return issues;
+}
+
+function isPlausibleTemperature(value: number): boolean {
+  return value >= MIN_TEMPERATURE && value <= MAX_TEMPERATURE;
+}
+
+function isPercentage(value: number): boolean {
+  return value >= 0 && value <= 100;
+}
+
+function toResult(issues: ValidationIssue[]): WeatherValidationResult {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkScriptFacts, extractClaims } from '../../src/script/fact-checker';
+import { createEmptyAFD } from '../../src/weather/afd-parser';
+import type { DailyForecast, HourlyForecast, WeatherData } from '../../src/weather/types';
+
+function hour(timestamp: string, temperature: number): HourlyForecast {
+  return {
+    timestamp, hour: new Date(timestamp).getUTCHours(), date: timestamp.slice(0, 10), temperature,
+    dewpoint: 20, humidity: 40, windSpeed: 10, windDirection: 'NW', windGust: null, windChill: null,
+    heatIndex: null, skyCover: 50, precipProbability: 10, rain: null, snow: null, thunder: null,
+    freezingRain: null, sleet: null, qpf: null, weatherDescription: 'Partly Cloudy',
+  };
+}
+
+function day(date: string, name: string, high: number, low: number): DailyForecast {
+  return { date, name, high, low, precipProbability: 10, summary: 'Sunny', detailedForecast: '', icon: 'few' };
+}
+
+// Tuesday 45°F now, high 50; Thursday high 35
+const data: WeatherData = {
+  afd: createEmptyAFD('Denver/Boulder CO', '2025-12-09T21:05:00Z'),
+  forecast: {
+    current: {
+      temperature: 45, dewpoint: 20, humidity: 40, windSpeed: 10, windDirection: 'NW', skyCover: 50,
+      conditions: 'Partly Cloudy', observationTime: '2025-12-09T21:00:00Z', source: 'observed',
+    },
+    hourly: [hour('2025-12-09T22:00:00Z', 44), hour('2025-12-09T23:00:00Z', 42)],
+    daily: [
+      day('2025-12-09', 'Tuesday', 50, 28),
+      day('2025-12-10', 'Wednesday', 46, 26),
+      day('2025-12-11', 'Thursday', 35, 20),
+    ],
+    rawHtml: '',
+  },
+  fetchedAt: '2025-12-09T21:05:00Z',
+  isStale: false,
+};
+
+const climate = 'CLIMATE CONTEXT (normals and records for 2025-12-09):\n- Right now: 45°F, 6 degrees above the normal range\n';
+
+function mismatches(script: string): string[] {
+  return checkScriptFacts(script, data, [climate]).mismatches.map(mismatch => mismatch.claim.text);
+}
+
+describe('temperature changes', () => {
+  it('reads changes as differences, not temperatures', () => {
+    const claims = extractClaims('Temperatures tumble about fifteen degrees by Thursday.', 'script');
+    assert.deepEqual(
+      claims.map(({ kind, min, max, value }) => ({ kind, min, max, value })),
+      [{ kind: 'temperatureChange', min: 15, max: 15, value: 'down' }, { kind: 'day', min: undefined, max: undefined, value: 'thursday' }]
+    );
+  });
+
+  it('accepts changes between forecast days and from now', () => {
+    assert.deepEqual(mismatches('Temperatures tumble about fifteen degrees by Thursday.'), []);
+    assert.deepEqual(mismatches('Thursday will be ten degrees colder than right now.'), []);
+    assert.deepEqual(mismatches('Highs drop 10 to 12 degrees from Wednesday to Thursday.'), []);
+    assert.deepEqual(mismatches('A 22-degree swing from this afternoon to tonight.'), []);
+  });
+
+  it('accepts departures from normal in the climate context', () => {
+    assert.deepEqual(mismatches('We are running 6 degrees above normal.'), []);
+    assert.deepEqual(mismatches('We are running about five degrees above average.'), []);
+  });
+
+  it('flags changes the data does not support', () => {
+    assert.deepEqual(mismatches('Temperatures rise 30 degrees by Thursday.'), ['rise 30 degrees']);
+    assert.deepEqual(mismatches('A 40-degree swing is on the way.'), ['40-degree swing']);
+    assert.deepEqual(mismatches('We are running 6 degrees below normal.'), ['6 degrees below']);
+
+    const [mismatch] = checkScriptFacts('Temperatures rise 30 degrees by Thursday.', data, [climate]).mismatches;
+    assert.equal(mismatch.reason, 'no temperature rise within 3°F of 30°F in the data');
+  });
+
+  it('still checks temperatures a change falls to', () => {
+    assert.deepEqual(mismatches('Temperatures drop to 35 degrees on Thursday.'), []);
+    assert.deepEqual(mismatches('Temperatures drop to 10 degrees on Thursday.'), ['10 degrees']);
+  });
+});
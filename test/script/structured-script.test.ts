@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { emphasize, renderScript, validateStructuredScript } from '../../src/script/structured-script';
+import { parseGraphicCues } from '../../src/script/graphic-cue-parser';
+
+describe('validateStructuredScript', () => {
+  it('strips brackets from emotion tags and applies defaults', () => {
+    const { script, issues } = validateStructuredScript({
+      segments: [{ section: 'opening', text: '  Good evening, Denver.  ', emotions: ['[thoughtfully]', ' pauses ', '[ sighs ]'] }],
+    });
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(script?.segments, [
+      { section: 'opening', text: 'Good evening, Denver.', emotions: ['thoughtfully', 'pauses', 'sighs'], emphasis: [] },
+    ]);
+  });
+
+  it('lists each rejected field by path', () => {
+    const { script, issues } = validateStructuredScript({
+      segments: [
+        { section: 'weather', text: 'Snow tonight.' },
+        { section: 'forecast', text: ' ', emotions: ['[]'], graphic: { description: 'Radar', durationSecs: 45 } },
+      ],
+    });
+
+    assert.equal(script, undefined);
+    assert.equal(issues.length, 4);
+    assert.match(issues[0], /^ {2}- segments\.0\.section: /);
+    assert.match(issues[1], /^ {2}- segments\.1\.text: /);
+    assert.match(issues[2], /^ {2}- segments\.1\.emotions\.0: /);
+    assert.match(issues[3], /^ {2}- segments\.1\.graphic\.durationSecs: /);
+  });
+
+  it('rejects a script without segments', () => {
+    assert.match(validateStructuredScript({ segments: [] }).issues[0], /^ {2}- segments: /);
+    assert.match(validateStructuredScript(null).issues[0], /^ {2}- script: /);
+  });
+});
+
+describe('renderScript', () => {
+  it('renders cues, tags and emphasis as marker text, one paragraph per segment', () => {
+    const text = renderScript({
+      segments: [
+        {
+          section: 'opening', text: 'Good evening, Denver.', emotions: ['warmly'], emphasis: [],
+          graphic: { description: 'City skyline at night', durationSecs: 8 },
+        },
+        { section: 'forecast', text: 'Snow arrives after midnight.', emotions: [], emphasis: ['after midnight'] },
+      ],
+    });
+
+    assert.equal(
+      text,
+      '[GRAPHIC: City skyline at night | DURATION: 8s]\n[warmly] Good evening, Denver.\n\nSnow arrives *after midnight*.'
+    );
+  });
+
+  it('escapes "|" and "]" so the cue parses whole', () => {
+    const text = renderScript({
+      segments: [{
+        section: 'current', text: 'Radar is busy.', emotions: [], emphasis: [],
+        graphic: { description: 'Radar [loop] | snow bands', durationSecs: 12 },
+      }],
+    });
+
+    assert.ok(text.startsWith('[GRAPHIC: Radar loop / snow bands | DURATION: 12s]\n'));
+    assert.deepEqual(parseGraphicCues(text).map(({ description, duration }) => ({ description, duration })), [
+      { description: 'Radar loop / snow bands', duration: 12 },
+    ]);
+  });
+});
+
+describe('emphasize', () => {
+  it('wraps the first occurrence of each phrase', () => {
+    assert.equal(
+      emphasize('Cold tonight, colder tomorrow, cold again Friday.', ['cold again', 'colder']),
+      'Cold tonight, *colder* tomorrow, *cold again* Friday.'
+    );
+  });
+
+  it('skips phrases that overlap an earlier one or are missing', () => {
+    assert.equal(emphasize('Six to ten inches of snow.', ['ten inches', 'Six to ten', 'of snow', 'sleet']), 'Six to *ten inches* *of snow*.');
+    assert.equal(emphasize('Wind chills near zero.', ['chills near', 'Wind chills', 'near zero']), 'Wind *chills near* zero.');
+  });
+});
@@ -0,0 +1,116 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { cachedFetch, flushHttpStats, getEndpointPolicy, getHttpStats, redactUrl } from '../../src/utils/http-cache';
+
+// Config is read once per process, so set the cache directory and policies before first use
+const tempDir = mkdtempSync(join(tmpdir(), 'esw-http-cache-'));
+process.env.CACHE_DIR = tempDir;
+process.env.HTTP_RETRY_POLICIES = JSON.stringify({ default: { retryDelayMs: 0 }, flaky: { retries: 1 } });
+
+after(() => {
+  flushHttpStats();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => mock.restoreAll());
+
+/**
+ * Replace fetch with a handler; returns the headers of each request made
+ */
+function stubFetch(respond: (call: number) => Response): Array<Record<string, string>> {
+  const requests: Array<Record<string, string>> = [];
+  mock.method(globalThis, 'fetch', async (_url: string, init?: RequestInit) => {
+    requests.push({ ...(init?.headers as Record<string, string>) });
+    return respond(requests.length);
+  });
+  return requests;
+}
+
+describe('cachedFetch', () => {
+  it('serves a response from the cache while max-age keeps it fresh', async () => {
+    const requests = stubFetch(() => new Response('fresh', { headers: { 'Cache-Control': 'public, max-age=300' } }));
+
+    const first = await cachedFetch('https://example.com/max-age', { endpoint: 'test' });
+    const second = await cachedFetch('https://example.com/max-age', { endpoint: 'test' });
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual([first.cache, second.cache], ['miss', 'hit']);
+    assert.equal(second.body, 'fresh');
+  });
+
+  it('never stores no-store responses', async () => {
+    const requests = stubFetch(call => new Response(`body ${call}`, { headers: { 'Cache-Control': 'no-store, max-age=300' } }));
+
+    await cachedFetch('https://example.com/no-store', { endpoint: 'test' });
+    const second = await cachedFetch('https://example.com/no-store', { endpoint: 'test' });
+
+    assert.equal(requests.length, 2);
+    assert.deepEqual([second.cache, second.body], ['miss', 'body 2']);
+  });
+
+  it('revalidates a stale entry with its ETag and Last-Modified', async () => {
+    const lastModified = 'Sun, 07 Dec 2025 21:05:00 GMT';
+    const requests = stubFetch(call => call === 1
+      ? new Response('forecast', { headers: { 'Cache-Control': 'no-cache', ETag: '"v1"', 'Last-Modified': lastModified } })
+      : new Response(null, { status: 304, headers: { 'Cache-Control': 'max-age=300' } }));
+
+    await cachedFetch('https://example.com/revalidate', { endpoint: 'test' });
+    const revalidated = await cachedFetch('https://example.com/revalidate', { endpoint: 'test' });
+    const fresh = await cachedFetch('https://example.com/revalidate', { endpoint: 'test' });
+
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1]['If-None-Match'], '"v1"');
+    assert.equal(requests[1]['If-Modified-Since'], lastModified);
+    assert.deepEqual([revalidated.cache, revalidated.status, revalidated.body], ['revalidated', 200, 'forecast']);
+    assert.equal(fresh.cache, 'hit', 'the 304 renews freshness');
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    const requests = stubFetch(() => new Response('shared'));
+
+    const [a, b] = await Promise.all([
+      cachedFetch('https://example.com/shared', { endpoint: 'dedupe' }),
+      cachedFetch('https://example.com/shared', { endpoint: 'dedupe' }),
+    ]);
+
+    assert.equal(requests.length, 1);
+    assert.equal(a, b);
+    const { requests: total, shared, downloads } = getHttpStats().dedupe;
+    assert.deepEqual({ total, shared, downloads }, { total: 2, shared: 1, downloads: 1 });
+  });
+
+  it('retries as HTTP_RETRY_POLICIES says', async () => {
+    const requests = stubFetch(() => new Response('busy', { status: 503, statusText: 'Service Unavailable' }));
+
+    const response = await cachedFetch('https://example.com/flaky', { endpoint: 'flaky' });
+
+    assert.equal(requests.length, 2, 'one attempt plus the one configured retry');
+    assert.deepEqual([response.ok, response.status], [false, 503]);
+    assert.equal(getHttpStats().flaky.retries, 1);
+  });
+});
+
+describe('getEndpointPolicy', () => {
+  it('layers HTTP_RETRY_POLICIES over the built-in policies', () => {
+    assert.deepEqual(getEndpointPolicy('flaky'), { retries: 1, retryDelayMs: 0, timeoutMs: 20000, defaultMaxAgeSecs: 0 });
+    assert.deepEqual(getEndpointPolicy('nws-forecast'), { retries: 3, retryDelayMs: 0, timeoutMs: 30000, defaultMaxAgeSecs: 15 * 60 });
+  });
+});
+
+describe('redactUrl', () => {
+  it('masks credential query parameters', () => {
+    assert.equal(
+      redactUrl('https://www.airnowapi.org/aq/forecast/latLong/?format=application%2Fjson&API_KEY=abc123'),
+      'https://www.airnowapi.org/aq/forecast/latLong/?format=application%2Fjson&API_KEY=REDACTED'
+    );
+    assert.equal(redactUrl('https://example.com/data?token=abc&q=1'), 'https://example.com/data?token=REDACTED&q=1');
+  });
+
+  it('leaves other URLs untouched', () => {
+    assert.equal(redactUrl('https://api.weather.gov/points/39.74,-104.99'), 'https://api.weather.gov/points/39.74,-104.99');
+    assert.equal(redactUrl('not a url'), 'not a url');
+  });
+});
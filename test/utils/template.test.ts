@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate } from '../../src/utils/template';
+
+describe('renderTemplate', () => {
+  it('interpolates variables and dotted paths', () => {
+    assert.equal(
+      renderTemplate('{{persona.name}} in {{city}}{{!-- note --}}', { persona: { name: 'Elliot' }, city: 'Denver' }),
+      'Elliot in Denver'
+    );
+  });
+
+  it('renders if/else and unless with Handlebars truthiness', () => {
+    const source = '{{#if alerts}}alerts{{else}}quiet{{/if}} {{#unless stale}}fresh{{/unless}}';
+    assert.equal(renderTemplate(source, { alerts: ['Wind Advisory'], stale: false }), 'alerts fresh');
+    assert.equal(renderTemplate(source, { alerts: [], stale: 0 }), 'quiet fresh');
+    assert.equal(renderTemplate(source, { alerts: '', stale: 'yes' }), 'quiet ');
+  });
+
+  it('strips block tags, partials and comments standing alone on a line', () => {
+    const source = [
+      '# Weather',
+      '{{!-- only when stale --}}',
+      '{{#if stale}}',
+      'Data is {{age}} old.',
+      '{{else}}',
+      'Data is current.',
+      '{{/if}}',
+      '  {{> footer}}',
+      'Inline {{#if stale}}stale{{/if}} stays.',
+      '',
+    ].join('\n');
+    const partials = (name: string) => (name === 'footer' ? '-- {{host}}\n' : '');
+
+    assert.equal(
+      renderTemplate(source, { stale: true, age: '3 hours', host: 'Elliot' }, partials),
+      '# Weather\nData is 3 hours old.\n-- Elliot\nInline stale stays.\n'
+    );
+    assert.equal(
+      renderTemplate(source, { stale: false, age: '', host: 'Elliot' }, partials),
+      '# Weather\nData is current.\n-- Elliot\nInline  stays.\n'
+    );
+  });
+
+  it('renders nested partials and stops runaway recursion', () => {
+    const partials: Record<string, string> = { outer: '[{{> inner}}]', inner: '{{name}}', loop: '{{> loop}}' };
+    const load = (name: string) => partials[name];
+
+    assert.equal(renderTemplate('{{> outer}}', { name: 'x' }, load), '[x]');
+    assert.throws(() => renderTemplate('{{> loop}}', {}, load), /Partials nested more than 10 deep \(at "loop"\)/);
+    assert.throws(() => renderTemplate('{{> missing}}', {}), /Unknown partial "missing"/);
+  });
+
+  it('fails on unknown variables but allows missing nested keys', () => {
+    assert.throws(() => renderTemplate('Hi {{nmae}}', { name: 'Elliot' }), /Unknown template variable "nmae"/);
+    assert.throws(() => renderTemplate('{{#if regionl}}x{{/if}}', {}), /Unknown template variable "regionl"/);
+    assert.equal(renderTemplate('{{persona.tagline}}', { persona: {} }), '');
+  });
+
+  it('reports malformed blocks', () => {
+    assert.throws(() => renderTemplate('{{#if a}}x', { a: true }), /Unclosed \{\{#if\}\}/);
+    assert.throws(() => renderTemplate('{{#if a}}x{{/unless}}', { a: true }), /expected \{\{\/if\}\}/);
+    assert.throws(() => renderTemplate('{{#each a}}x{{/each}}', { a: [] }), /Unsupported block/);
+    assert.throws(() => renderTemplate('x{{else}}y', {}), /Unexpected \{\{else\}\}/);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, formatUnifiedDiff } from '../../src/utils/text-diff';
+
+describe('diffLines', () => {
+  it('keeps the longest common subsequence and lists removals before additions', () => {
+    assert.deepEqual(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne'), [
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' },
+    ]);
+  });
+
+  it('handles identical and empty texts', () => {
+    assert.deepEqual(diffLines('a\nb', 'a\nb').map(line => line.type), ['same', 'same']);
+    assert.deepEqual(diffLines('', 'a'), [{ type: 'removed', text: '' }, { type: 'added', text: 'a' }]);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('is empty for identical texts', () => {
+    assert.deepEqual(formatUnifiedDiff(diffLines('a\nb', 'a\nb')), []);
+  });
+
+  it('numbers hunks and keeps context around each change', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+    const newText = ['1', 'two', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n');
+
+    assert.deepEqual(formatUnifiedDiff(diffLines(oldText, newText), 2), [
+      '@@ -1,4 +1,4 @@', ' 1', '-2', '+two', ' 3', ' 4',
+      '@@ -11,2 +11,3 @@', ' 11', ' 12', '+13',
+    ]);
+  });
+
+  it('merges changes whose context overlaps', () => {
+    assert.deepEqual(formatUnifiedDiff(diffLines('a\nb\nc\nd', 'A\nb\nc\nD'), 1), [
+      '@@ -1,4 +1,4 @@', '-a', '+A', ' b', ' c', '-d', '+D',
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseAFD, parseIssueTime } from '../../src/weather/afd-parser';
+
+function loadFixture(office: string) {
+  return parseAFD(readFileSync(new URL(`../fixtures/afd/${office}.txt`, import.meta.url), 'utf-8'));
+}
+
+describe('parseAFD', () => {
+  describe('BOU (key messages, per-section authors)', () => {
+    const afd = loadFixture('BOU');
+
+    it('reads the header', () => {
+      assert.equal(afd.officeName, 'Denver/Boulder CO');
+      assert.equal(afd.issueTime, '205 PM MST Sun Dec 7 2025');
+    });
+
+    it('finds the standard sections', () => {
+      assert.deepEqual(Object.keys(afd.sections).sort(), [
+        'aviation',
+        'fireWeather',
+        'keyMessages',
+        'longTerm',
+        'shortTerm',
+        'update',
+        'watchesWarnings',
+      ]);
+      assert.equal(afd.sections.watchesWarnings?.title, 'BOU WATCHES/WARNINGS/ADVISORIES');
+    });
+
+    it('reads valid periods and section issue times', () => {
+      assert.equal(afd.sections.shortTerm?.validPeriod, 'Tonight through Monday');
+      assert.equal(afd.sections.longTerm?.validPeriod, 'Monday night through Sunday');
+      assert.equal(afd.sections.aviation?.validPeriod, '00Z TAFS THROUGH 00Z TUESDAY');
+      assert.equal(afd.sections.fireWeather?.validPeriod, undefined);
+      assert.equal(afd.sections.shortTerm?.issuedAt, '205 PM MST Sun Dec 7 2025');
+      assert.ok(!afd.sections.shortTerm?.text.includes('Issued at'));
+    });
+
+    it('credits each section to the author after $$', () => {
+      assert.equal(afd.sections.shortTerm?.author, 'Meier');
+      assert.equal(afd.sections.longTerm?.author, 'Hiris');
+      assert.equal(afd.sections.aviation?.author, 'Meier');
+      assert.equal(afd.sections.fireWeather?.author, 'Hiris');
+      assert.equal(afd.forecaster, 'Meier');
+    });
+
+    it('splits key messages and joins wrapped lines', () => {
+      assert.equal(afd.keyMessages.length, 3);
+      assert.match(afd.keyMessages[0], /^Snow develops over the mountains .* by Monday afternoon\.$/);
+      assert.ok(afd.sections.shortTerm?.text.includes('\n'), 'paragraph break is kept');
+      assert.ok(!afd.discussion.includes('\n'));
+    });
+
+    it('reads hazards from the watches/warnings block with expanded zones', () => {
+      assert.deepEqual(afd.hazards.map(h => ({ type: h.type, areas: h.areas, timing: h.timing })), [
+        {
+          type: 'Winter Storm Warning',
+          areas: ['COZ033', 'COZ034', 'COZ035', 'COZ036'],
+          timing: '11 PM this evening to 5 PM MST Monday',
+        },
+        {
+          type: 'Winter Weather Advisory',
+          areas: ['COZ039', 'COZ040', 'COZ041'],
+          timing: 'midnight tonight to 5 PM MST Monday',
+        },
+      ]);
+      assert.ok(afd.hazards.every(h => h.source === 'afd'));
+    });
+  });
+
+  describe('OKX (synopsis, near term, shared authors)', () => {
+    const afd = loadFixture('OKX');
+
+    it('keeps near term and short term apart', () => {
+      assert.equal(afd.sections.nearTerm?.validPeriod, 'UNTIL 6 PM THIS EVENING');
+      assert.equal(afd.sections.shortTerm?.validPeriod, '6 PM THIS EVENING THROUGH 6 PM TUESDAY');
+      assert.match(afd.discussion, /^Precipitation spreads in from the southwest/);
+    });
+
+    it('reads marine and hydrology sections', () => {
+      assert.equal(afd.sections.marine?.text, 'Small craft conditions on all waters through Tuesday.');
+      assert.equal(afd.sections.hydrology?.text, 'No hydrologic impacts are expected through the weekend.');
+    });
+
+    it('credits sections signed with initials', () => {
+      assert.equal(afd.sections.synopsis?.author, 'JC/DR');
+      assert.equal(afd.sections.nearTerm?.author, 'JC');
+      assert.equal(afd.sections.shortTerm?.author, 'DR');
+      assert.equal(afd.sections.longTerm?.author, 'MET');
+      assert.equal(afd.sections.aviation?.author, 'BG');
+    });
+
+    it('falls back to the synopsis for key messages', () => {
+      assert.equal(afd.keyMessages.length, 1);
+      assert.match(afd.keyMessages[0], /^Low pressure tracks northeast along the coast today/);
+    });
+
+    it('merges a hazard listed once per state', () => {
+      assert.equal(afd.hazards.length, 1);
+      assert.equal(afd.hazards[0].type, 'Winter Weather Advisory');
+      assert.equal(afd.hazards[0].timing, '10 AM this morning to 4 AM EST Tuesday');
+      assert.deepEqual(afd.hazards[0].areas, [
+        'CTZ005', 'CTZ006', 'CTZ007', 'CTZ008', 'CTZ009', 'CTZ010', 'CTZ011', 'CTZ012',
+        'NYZ067', 'NYZ068', 'NYZ069', 'NYZ070',
+        'NJZ002', 'NJZ004',
+      ]);
+    });
+  });
+
+  describe('MPX (update and discussion, TAF period)', () => {
+    const afd = loadFixture('MPX');
+
+    it('reads update and discussion sections with their own issue times', () => {
+      assert.equal(afd.sections.update?.issuedAt, '530 AM CST Tue Dec 9 2025');
+      assert.equal(afd.sections.discussion?.issuedAt, '330 AM CST Tue Dec 9 2025');
+      assert.equal(afd.sections.update?.author, 'Borghoff');
+      assert.equal(afd.sections.discussion?.author, 'Strus');
+      assert.equal(afd.sections.aviation?.validPeriod, '12Z TAFS');
+    });
+
+    it('uses the discussion lead when there are no key messages or synopsis', () => {
+      assert.deepEqual(afd.keyMessages, [
+        'Arctic air settles over the Upper Midwest today. Wind chills of 25 to 35 below zero are expected tonight across western and central Minnesota, with lows falling to 15 to 20 below.',
+      ]);
+    });
+
+    it('reads the hazard and skips "None" lines', () => {
+      assert.equal(afd.hazards.length, 1);
+      assert.equal(afd.hazards[0].type, 'Wind Chill Warning');
+      assert.deepEqual(afd.hazards[0].areas, ['MNZ041', 'MNZ042', 'MNZ043', 'MNZ044', 'MNZ045']);
+      assert.equal(afd.hazards[0].timing, '6 PM this evening to 10 AM CST Wednesday');
+    });
+  });
+
+  it('prefers an issue time passed in from product metadata', () => {
+    const raw = readFileSync(new URL('../fixtures/afd/BOU.txt', import.meta.url), 'utf-8');
+    assert.equal(parseAFD(raw, '2025-12-07T21:05:00+00:00').issueTime, '2025-12-07T21:05:00+00:00');
+  });
+
+  it('handles CRLF line endings', () => {
+    const raw = readFileSync(new URL('../fixtures/afd/BOU.txt', import.meta.url), 'utf-8').replace(/\n/g, '\r\n');
+    const afd = parseAFD(raw);
+    assert.equal(afd.sections.shortTerm?.validPeriod, 'Tonight through Monday');
+    assert.equal(afd.hazards.length, 2);
+  });
+});
+
+describe('parseIssueTime', () => {
+  it('reads header times in the office timezone', () => {
+    assert.equal(parseIssueTime('205 PM MST Sun Dec 7 2025')?.toISOString(), '2025-12-07T21:05:00.000Z');
+    assert.equal(parseIssueTime('1159 PM EST Wed Dec 31 2025')?.toISOString(), '2026-01-01T04:59:00.000Z');
+    assert.equal(parseIssueTime('1205 AM PDT Mon Jun 1 2026')?.toISOString(), '2026-06-01T07:05:00.000Z');
+    assert.equal(parseIssueTime('1200 PM CDT Mon Jun 1 2026')?.toISOString(), '2026-06-01T17:00:00.000Z');
+  });
+
+  it('reads ISO times from product metadata', () => {
+    assert.equal(parseIssueTime('2025-12-07T21:05:00+00:00')?.toISOString(), '2025-12-07T21:05:00.000Z');
+  });
+
+  it('returns null for unreadable times', () => {
+    assert.equal(parseIssueTime('205 PM XYZ Sun Dec 7 2025'), null);
+    assert.equal(parseIssueTime('Sunday afternoon'), null);
+  });
+});
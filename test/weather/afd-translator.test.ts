@@ -0,0 +1,157 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { translateAFD, translateText } from '../../src/weather/afd-translator';
+import { DEFAULT_GLOSSARY, loadGlossary, type Glossary } from '../../src/weather/afd-glossary';
+import type { AFDData } from '../../src/weather/types';
+
+// Config is read once per process, so point it at a scratch glossary file before first use
+const tempDir = mkdtempSync(join(tmpdir(), 'esw-glossary-'));
+const glossaryFile = join(tempDir, 'afd-glossary.json');
+process.env.AFD_GLOSSARY_FILE = glossaryFile;
+
+after(() => rmSync(tempDir, { recursive: true, force: true }));
+
+const glossary: Glossary = {
+  'H5 TROF': { expansion: 'upper-level trough', meaning: 'a dip in the jet stream' },
+  'H5': { expansion: 'upper-level' },
+  'PWAT': { expansion: 'precipitable water', meaning: 'moisture in the air column' },
+  'QPF': { expansion: 'forecast precipitation' },
+  'BL': { expansion: 'boundary layer', matchCase: true },
+  'CAA': { expansion: 'cold air moving in', meaning: 'colder air is arriving' },
+};
+
+describe('translateText', () => {
+  it('matches the longest term first', () => {
+    const result = translateText('An H5 TROF digs south while H5 heights fall.', glossary);
+    assert.equal(
+      result.text,
+      'An upper-level trough (a dip in the jet stream) digs south while upper-level heights fall.'
+    );
+    assert.deepEqual(result.terms.map(term => term.term), ['H5 TROF', 'H5']);
+  });
+
+  it('matches across wrapped whitespace and in any case', () => {
+    const result = translateText('the h5\n  trof moves east', glossary);
+    assert.equal(result.text, 'the upper-level trough (a dip in the jet stream) moves east');
+  });
+
+  it('accepts a plural "S" and pluralizes one-word expansions', () => {
+    assert.equal(translateText('PWATS near 0.5 inch', glossary).text, 'precipitable water (moisture in the air column) near 0.5 inch');
+    assert.equal(
+      translateText('Two H5 TROFS', { 'H5 TROF': { expansion: 'trough' } }).text,
+      'Two troughs'
+    );
+  });
+
+  it('leaves terms inside other words alone', () => {
+    assert.equal(translateText('QPFX and AQPF stay as written', glossary).text, 'QPFX and AQPF stay as written');
+  });
+
+  it('matches case-sensitive acronyms only in capitals', () => {
+    assert.equal(translateText('A mixed BL', glossary).text, 'A mixed boundary layer');
+    assert.equal(translateText('roughly 5 bl of oil', glossary).text, 'roughly 5 bl of oil');
+    assert.equal(translateText('A mixed Bl', glossary).text, 'A mixed Bl');
+  });
+
+  it('leaves place names that share a built-in acronym alone', () => {
+    assert.equal(translateText('Showers over Cape Cod tonight.', DEFAULT_GLOSSARY).text, 'Showers over Cape Cod tonight.');
+    assert.equal(
+      translateText('CAPE near 1000 J/KG.', DEFAULT_GLOSSARY).text,
+      'atmospheric instability (energy available for thunderstorms - higher means stronger storms are possible) near 1000 J/KG.'
+    );
+  });
+
+  it('annotates a term only on first use', () => {
+    const result = translateText('CAA tonight, more CAA Monday.', glossary);
+    assert.equal(result.text, 'cold air moving in (colder air is arriving) tonight, more cold air moving in Monday.');
+    assert.equal(result.terms.length, 1);
+  });
+
+  it('returns the text unchanged with an empty glossary', () => {
+    assert.deepEqual(translateText('QPF 0.5', {}), { text: 'QPF 0.5', terms: [] });
+  });
+});
+
+describe('translateAFD', () => {
+  const afd: AFDData = {
+    keyMessages: ['Strong CAA behind the front.', 'QPF of 0.3 inch.'],
+    discussion: 'CAA continues overnight under the H5 TROF. PWATS stay low.',
+    hazards: [],
+    aviation: '',
+    sections: {},
+    officeName: 'Denver/Boulder CO',
+    issueTime: '2025-12-07T21:05:00Z',
+    forecaster: 'Denver/Boulder CO',
+    rawText: '',
+  };
+
+  it('annotates only the first use across key messages and discussion', () => {
+    const result = translateAFD(afd, glossary);
+    assert.deepEqual(result.keyMessages, [
+      'Strong cold air moving in (colder air is arriving) behind the front.',
+      'forecast precipitation of 0.3 inch.',
+    ]);
+    assert.equal(
+      result.discussion,
+      'cold air moving in continues overnight under the upper-level trough (a dip in the jet stream). precipitable water (moisture in the air column) stay low.'
+    );
+    assert.deepEqual(result.terms.map(term => term.term), ['CAA', 'QPF', 'H5 TROF', 'PWAT']);
+  });
+
+  it('lists each meaning once in "what it means"', () => {
+    assert.deepEqual(translateAFD(afd, glossary).whatItMeans, [
+      'Cold air moving in: colder air is arriving',
+      'Upper-level trough: a dip in the jet stream',
+      'Precipitable water: moisture in the air column',
+    ]);
+
+    const withTrof = translateAFD(
+      { ...afd, discussion: `${afd.discussion} A second TROF follows.` },
+      { ...glossary, 'TROF': { expansion: 'trough', meaning: 'a dip in the jet stream' } }
+    );
+    assert.ok(withTrof.terms.some(term => term.term === 'TROF'));
+    assert.equal(withTrof.whatItMeans.filter(line => line.endsWith('a dip in the jet stream')).length, 1);
+  });
+});
+
+describe('loadGlossary', () => {
+  it('returns the built-in glossary without a file', () => {
+    rmSync(glossaryFile, { force: true });
+    assert.deepEqual(loadGlossary(), DEFAULT_GLOSSARY);
+  });
+
+  it('adds and overrides entries from the file, upper-casing keys', () => {
+    writeFileSync(glossaryFile, JSON.stringify({
+      qpf: { expansion: 'expected rain and melted snow' },
+      'BORA': { meaning: 'cold, gusty downslope winds' },
+    }));
+
+    const loaded = loadGlossary();
+    assert.deepEqual(loaded.QPF, { expansion: 'expected rain and melted snow' });
+    assert.deepEqual(loaded.BORA, { meaning: 'cold, gusty downslope winds' });
+    assert.deepEqual(loaded.CAA, DEFAULT_GLOSSARY.CAA);
+    assert.equal(translateText('QPF tonight', loaded).text, 'expected rain and melted snow tonight');
+  });
+
+  it('reports invalid entries by path', () => {
+    writeFileSync(glossaryFile, JSON.stringify({
+      QPF: { expansion: '' },
+      BL: { matchCase: 'yes' },
+    }));
+
+    assert.throws(() => loadGlossary(), (error: Error) => {
+      assert.match(error.message, /^Invalid glossary file /);
+      assert.match(error.message, /- QPF\.expansion: /);
+      assert.match(error.message, /- BL\.matchCase: /);
+      return true;
+    });
+  });
+
+  it('reports unreadable JSON', () => {
+    writeFileSync(glossaryFile, '{ "QPF": ');
+    assert.throws(() => loadGlossary(), /^Error: Could not read glossary file /);
+  });
+});
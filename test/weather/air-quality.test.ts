@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSmoke } from '../../src/weather/air-quality';
+import { createEmptyAFD } from '../../src/weather/afd-parser';
+import type { AFDData, WeatherData } from '../../src/weather/types';
+
+function weather(afd: Partial<AFDData>): WeatherData {
+  return {
+    afd: { ...createEmptyAFD('Denver/Boulder CO', '2025-08-12T21:05:00Z'), ...afd },
+    forecast: {
+      current: {
+        temperature: 88, dewpoint: 40, humidity: 20, windSpeed: 10, windDirection: 'W', skyCover: 10,
+        conditions: 'Sunny', observationTime: '2025-08-12T21:00:00Z', source: 'observed',
+      },
+      hourly: [],
+      daily: [],
+      rawHtml: '',
+    },
+    fetchedAt: '2025-08-12T21:05:00Z',
+    isStale: false,
+  };
+}
+
+describe('detectSmoke', () => {
+  it('flags smoke in the key messages and hazards', () => {
+    assert.deepEqual(
+      detectSmoke(weather({ keyMessages: ['Wildfire smoke will reduce visibility across the plains through Wednesday.'] })),
+      ['forecast discussion mentions smoke']
+    );
+    assert.deepEqual(
+      detectSmoke(weather({
+        hazards: [{ type: 'Smoke', areas: ['Denver'], timing: 'Tonight', description: 'Areas of smoke', source: 'afd' }],
+      })),
+      ['forecast discussion mentions smoke']
+    );
+  });
+
+  it('ignores negated mentions', () => {
+    assert.deepEqual(detectSmoke(weather({ keyMessages: ['No smoke impacts are expected this week.'] })), []);
+    assert.deepEqual(detectSmoke(weather({ keyMessages: ['Smoke from western fires is not expected to reach the surface.'] })), []);
+    assert.deepEqual(detectSmoke(weather({ keyMessages: ['Hazy skies return Friday. Smoke has cleared.'] })), []);
+  });
+
+  it('ignores smoke outside the headline sections', () => {
+    const afd = weather({}).afd;
+    const rawText = `${afd.rawText}\n.AVIATION...\nSmoke aloft may produce haze at KDEN.\n`;
+    assert.deepEqual(detectSmoke(weather({ rawText, aviation: 'Smoke aloft may produce haze at KDEN.' })), []);
+  });
+});
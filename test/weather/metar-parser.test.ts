@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeMetar, describeMetarWeather } from '../../src/weather/metar-parser';
+import { conditionsFromMetar } from '../../src/weather/observations';
+
+const reference = new Date('2025-12-08T12:00:00Z');
+
+describe('decodeMetar', () => {
+  it('decodes a full report', () => {
+    const metar = decodeMetar(
+      'METAR KDEN 081153Z 01012G22KT 1 1/2SM -SN BR BKN008 OVC015 M04/M06 A3012 RMK AO2 T10391061',
+      reference
+    );
+
+    assert.equal(metar.station, 'KDEN');
+    assert.equal(metar.observationTime, '2025-12-08T11:53:00.000Z');
+    assert.deepEqual([metar.windDirectionDegrees, metar.windSpeedKt, metar.windGustKt], [10, 12, 22]);
+    assert.equal(metar.visibilityMiles, 1.5);
+    assert.deepEqual(metar.weather, ['-SN', 'BR']);
+    assert.deepEqual(metar.cloudLayers, [{ cover: 'BKN', baseFt: 800 }, { cover: 'OVC', baseFt: 1500 }]);
+    assert.deepEqual([metar.temperatureC, metar.dewpointC, metar.altimeterInHg], [-3.9, -6.1, 30.12]);
+  });
+
+  it('reports calm and variable winds without a direction', () => {
+    const calm = decodeMetar('KDEN 081153Z 00000KT 10SM CLR M04/M06 A3012', reference);
+    assert.deepEqual([calm.windDirectionDegrees, calm.windSpeedKt], [null, 0]);
+
+    const variable = decodeMetar('KDEN 081153Z VRB04KT 10SM CLR M04/M06 A3012', reference);
+    assert.deepEqual([variable.windDirectionDegrees, variable.windSpeedKt], [null, 4]);
+
+    const north = decodeMetar('KDEN 081153Z 36008KT 10SM CLR M04/M06 A3012', reference);
+    assert.equal(north.windDirectionDegrees, 360);
+
+    assert.equal(conditionsFromMetar('KDEN 081153Z 00000KT 10SM CLR M04/M06 A3012', null, reference).windDirection, 'Calm');
+  });
+
+  it('keeps weather in the vicinity', () => {
+    const metar = decodeMetar('KJFK 081151Z 05014KT 6SM -RA VCSH VCTS VCFG OVC020 03/01 A2990', reference);
+    assert.deepEqual(metar.weather, ['-RA', 'VCSH', 'VCTS', 'VCFG']);
+    assert.equal(
+      describeMetarWeather(metar.weather),
+      'Light rain, Showers in the vicinity, Thunderstorm in the vicinity, Fog in the vicinity'
+    );
+  });
+
+  it('ignores tokens that only look like weather groups', () => {
+    assert.deepEqual(decodeMetar('KDEN 081153Z 36008KT 10SM SH VC NOSIG CLR M04/M06 A3012', reference).weather, []);
+  });
+
+  it('rejects a report without a station', () => {
+    assert.throws(() => decodeMetar('081153Z 36008KT', reference), /Invalid METAR station identifier/);
+  });
+});